@@ -1,5 +1,6 @@
 // Reference Select Component
 // Smart dropdown for selecting referenced entities
+// With multiple=true it edits an array of ids (many relations)
 
 export default function ReferenceSelect({ 
   label,
@@ -9,6 +10,7 @@ export default function ReferenceSelect({
   required = false,
   error = null,
   disabled = false,
+  multiple = false,
   placeholder = 'Select...'
 }) {
   // Access global hooks and utilities
@@ -50,7 +52,7 @@ export default function ReferenceSelect({
           }))
           
           // Add empty option for optional fields
-          if (!required) {
+          if (!required && !multiple) {
             optionsList.unshift({ value: '', label: 'None' })
           }
           
@@ -68,7 +70,7 @@ export default function ReferenceSelect({
     }
 
     fetchOptions()
-  }, [entityType, required])
+  }, [entityType, required, multiple])
 
   // Generate a display label from the entity data
   const getDisplayLabel = (item, entityType) => {
@@ -109,6 +111,40 @@ export default function ReferenceSelect({
     `
   }
 
+  if (multiple) {
+    const selected = Array.isArray(value) ? value : []
+    
+    return html`
+      <div class="form-group">
+        <label class="form-label">
+          ${label}
+          ${required && html`<span class="text-red-500">*</span>`}
+        </label>
+        <select
+          multiple
+          class="form-select ${error ? 'border-red-500' : ''}"
+          onChange=${(e) => onChange(Array.from(e.target.selectedOptions, option => option.value))}
+          disabled=${disabled}
+          required=${required}
+          size=${Math.min(Math.max(options.length, 3), 8)}
+        >
+          ${options.map(option => html`
+            <option 
+              key=${option.value} 
+              value=${option.value}
+              selected=${selected.includes(option.value)}
+            >
+              ${option.label}
+            </option>
+          `)}
+        </select>
+        ${error && html`
+          <div class="text-red-500 text-sm mt-1">${error}</div>
+        `}
+      </div>
+    `
+  }
+
   return html`
     <div class="form-group">
       <label class="form-label">
@@ -1,6 +1,8 @@
 // System Detail Template
 // Template for displaying a single entity
 
+import { isHiddenField, isWriteOnlyField } from '../../../core/query/field-access.ts'
+
 export const metadata = {
   inputs: {
     entity: { required: true, type: 'entity' },
@@ -14,8 +16,13 @@ export const metadata = {
 export async function generateComponent(viewName, viewDef, entityDef) {
   const entity = viewDef.entity
   const entityLower = entity.toLowerCase()
-  const fields = Object.keys(entityDef.fields).filter(f => !['id'].includes(f))
+  // Hidden and write-only fields are never returned by the API
+  const fields = Object.keys(entityDef.fields).filter(f =>
+    !['id'].includes(f) && !isHiddenField(entityDef.fields[f]) && !isWriteOnlyField(f, entityDef.fields[f])
+  )
   const actions = viewDef.actions || ['edit', 'delete']
+  const behaviors = Object.entries(entityDef.behaviors || {})
+  const deletable = actions.includes('delete')
 
   // Load the template file with full syntax highlighting!
   const templatePath = new URL('./detail.template.js', import.meta.url).pathname
@@ -26,19 +33,35 @@ export async function generateComponent(viewName, viewDef, entityDef) {
     .replaceAll('__VIEW_NAME__', viewName)
     .replaceAll('__ENTITY__', entity)
     .replaceAll('__ENTITY_LOWER__', entityLower)
-    .replaceAll('__LIST_ROUTE__', viewDef.route.replace('/:id', ''))
+    .replace('__MUTATIONS__', behaviors.length > 0 ? `delete${entity}, run${entity}Behavior` : `delete${entity}`)
+    
+    // Only import what the generated code below uses
+    .replace('__MODEL_IMPORTS__', deletable || behaviors.length > 0 ? `, get${entity}ETag` : '')
+    .replace('__COMPONENT_IMPORTS__', behaviorComponents(behaviors).map(name => `, ${name}`).join(''))
+    
+    // Behaviors run from buttons; those with input open a form first
+    .replace('__BEHAVIOR_STATE__\n', behaviors.length > 0 ? generateBehaviorState() : '')
+    .replace('__BEHAVIOR_HANDLER__\n', behaviors.length > 0 ? generateBehaviorHandler(entity) : '')
+    .replace('__BEHAVIOR_FORMS__', generateBehaviorForms(behaviors))
     
     // Generate action buttons
-    .replace('__ACTION_BUTTONS__', generateActionButtons(actions, viewDef.route))
+    .replace('__ACTION_BUTTONS__', generateActionButtons(actions, viewDef.route, behaviors))
+    .replace('__DELETE_HANDLER__\n', deletable ? generateDeleteHandler(entity, entityLower, viewDef.route.replace('/:id', '')) : '')
     
     // Generate field displays
     .replace('__FIELD_DISPLAYS__', generateFieldDisplays(fields, entityDef))
+    .replace('__FORMAT_FIELD_VALUE__', fields.length > 0 ? FORMAT_FIELD_VALUE : '')
   
   return template
 }
 
-function generateActionButtons(actions, route) {
-  const buttons = []
+function generateActionButtons(actions, route, behaviors) {
+  const buttons = behaviors.map(([name, behavior]) => {
+    const hasInput = Object.keys(behavior.input || {}).length > 0
+    return `            <\${Button} variant="secondary" onClick=\${() => ${hasInput ? `setOpenBehavior('${name}')` : `runBehavior('${name}')`}}>
+              ${behaviorLabel(name, behavior)}
+            </\${Button}>`
+  })
   
   if (actions.includes('edit')) {
     buttons.push(`            <\${Button} onClick=\${() => window.location.href = \`${route.replace(':id', '\${item.id}')}/edit\`}>
@@ -55,12 +78,28 @@ function generateActionButtons(actions, route) {
   return buttons.join('\n')
 }
 
+// Deletes only if nobody changed the record since it was loaded
+function generateDeleteHandler(entity, entityLower, listRoute) {
+  return `  const handleDelete = async () => {
+    if (confirm(\`Delete this ${entityLower}?\`)) {
+      try {
+        await delete${entity}(item.id, { ifMatch: get${entity}ETag(item) })
+        window.location.href = '${listRoute}'
+      } catch (err) {
+        alert('Failed to delete: ' + err.message)
+      }
+    }
+  }
+
+`
+}
+
 function generateFieldDisplays(fields, entityDef) {
   return fields.map(field => {
     const fieldType = entityDef.fields[field]?.type || 'string'
     const fieldLabel = field.charAt(0).toUpperCase() + field.slice(1)
     
-    return `          <div class="field-group">
+    const display = `          <div class="field-group">
             <label class="form-label">
               ${fieldLabel}
             </label>
@@ -68,5 +107,129 @@ function generateFieldDisplays(fields, entityDef) {
               \${formatFieldValue(processedItem.${field}, '${fieldType}')}
             </div>
           </div>`
+    
+    // Left out of the record when the user's read permission does not cover it
+    return entityDef.fields[field]?.permissions?.read
+      ? `          \${'${field}' in processedItem && html\`\n${display}\n          \`}`
+      : display
   }).join('\n')
-}
\ No newline at end of file
+}
+
+const FORMAT_FIELD_VALUE = `function formatFieldValue(value, type) {
+  if (value === null || value === undefined) return html\`<span class="text-gray">-</span>\`
+  
+  switch (type) {
+    case 'date':
+      return new Date(value).toLocaleDateString()
+    case 'boolean':
+      return value ? '✓ Yes' : '✗ No'
+    case 'enum':
+      return html\`<span class="enum-badge">\${value}</span>\`
+    default:
+      return value.toString()
+  }
+}`
+
+function behaviorLabel(name, behavior) {
+  return behavior.label || name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+function generateBehaviorState() {
+  return `
+  // Behaviors: the one whose input form is open, its input and why the last run failed
+  const [openBehavior, setOpenBehavior] = useState(null)
+  const [behaviorInput, setBehaviorInput] = useState({})
+  const [behaviorError, setBehaviorError] = useState(null)
+`
+}
+
+function generateBehaviorHandler(entity) {
+  return `  const runBehavior = async (behavior, input = {}) => {
+    setBehaviorError(null)
+    try {
+      await run${entity}Behavior(item.id, behavior, input, { ifMatch: get${entity}ETag(item) })
+      setOpenBehavior(null)
+      setBehaviorInput({})
+      refetch()
+    } catch (err) {
+      // 403 and 409 say why the behavior cannot run on this record right now
+      setBehaviorError(err.reason || err.message)
+    }
+  }
+
+`
+}
+
+function generateBehaviorForms(behaviors) {
+  if (behaviors.length === 0) return ''
+
+  const forms = behaviors
+    .filter(([, behavior]) => Object.keys(behavior.input || {}).length > 0)
+    .map(([name, behavior]) => `        \${openBehavior === '${name}' && html\`
+          <form class="behavior-form mt-4" onSubmit=\${(e) => { e.preventDefault(); runBehavior('${name}', behaviorInput) }}>
+            <h3>${behaviorLabel(name, behavior)}</h3>
+${Object.entries(behavior.input).map(([param, def]) => generateInputComponent(param, def)).join('\n')}
+            <div class="flex gap-2 mt-4">
+              <\${Button} type="submit">${behaviorLabel(name, behavior)}</\${Button}>
+              <\${Button} type="button" variant="secondary" onClick=\${() => setOpenBehavior(null)}>Cancel</\${Button}>
+            </div>
+          </form>
+        \`}`)
+
+  return '\n' + [
+    `        \${behaviorError && html\`<div class="text-red mt-4">\${behaviorError}</div>\`}`,
+    ...forms
+  ].join('\n')
+}
+
+// The form components the behavior input forms are built from
+function behaviorComponents(behaviors) {
+  const types = behaviors.flatMap(([, behavior]) => Object.values(behavior.input || {}).map(def => def.type))
+  return [
+    types.some(type => !['enum', 'boolean', 'relation', 'reference'].includes(type)) && 'Input',
+    types.some(type => type === 'enum' || type === 'boolean') && 'Select',
+    types.some(type => type === 'relation' || type === 'reference') && 'ReferenceSelect'
+  ].filter(Boolean)
+}
+
+function generateInputComponent(param, def) {
+  const label = param.charAt(0).toUpperCase() + param.slice(1)
+  const value = `behaviorInput.${param}`
+  const set = (expression) => `(value) => setBehaviorInput(prev => ({ ...prev, ${param}: ${expression} }))`
+
+  if (def.type === 'enum') {
+    return `            <\${Select}
+              label="${label}"
+              value=\${${value}}
+              onChange=\${${set('value')}}
+              options=\${${JSON.stringify((def.options || []).map(opt => ({ value: opt, label: opt.charAt(0).toUpperCase() + opt.slice(1) })))}}
+              required=\${${!!def.required}}
+            />`
+  } else if (def.type === 'relation' || def.type === 'reference') {
+    return `            <\${ReferenceSelect}
+              label="${label}"
+              value=\${${value}}
+              onChange=\${${set('value')}}
+              entityType="${def.to || def.entity}"
+              multiple=\${${!!def.many}}
+              required=\${${!!def.required}}
+            />`
+  } else if (def.type === 'boolean') {
+    return `            <\${Select}
+              label="${label}"
+              value=\${${value} === undefined ? '' : String(${value})}
+              onChange=\${${set("value === '' ? undefined : value === 'true'")}}
+              options=\${[{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]}
+              required=\${${!!def.required}}
+            />`
+  }
+
+  const numeric = ['integer', 'number', 'decimal'].includes(def.type)
+  return `            <\${Input}
+              label="${label}"
+              type="${numeric ? 'number' : def.type === 'date' ? 'date' : 'text'}"
+              value=\${${value} ?? ''}
+              onChange=\${${set(numeric ? "value === '' ? undefined : Number(value)" : 'value')}}
+              required=\${${!!def.required}}
+            />`
+}
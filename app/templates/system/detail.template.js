@@ -4,8 +4,8 @@
 // 🤖 AI: For structural changes (field display, actions, layout patterns),
 //     consider modifying the template skeleton first: app/templates/system/detail.template.js
 //     Then touch app/app.truth.ts to regenerate all detail views with your improvements!
-import { use__ENTITY__s, use__ENTITY__Mutations } from '/runtime/generated/models/__ENTITY_LOWER__.js'
-import { Card, Button } from '/app/components/system/index.js'
+import { use__ENTITY__s, use__ENTITY__Mutations__MODEL_IMPORTS__ } from '/runtime/generated/models/__ENTITY_LOWER__.js'
+import { Card, Button__COMPONENT_IMPORTS__ } from '/app/components/system/index.js'
 
 // Optional hooks for customization
 let hooks = {}
@@ -43,11 +43,17 @@ export default function __VIEW_NAME__() {
   const pathParts = window.location.pathname.split('/')
   const id = pathParts[pathParts.length - 1]
   
-  const { data, loading, error } = use__ENTITY__s()
-  const { delete__ENTITY__ } = use__ENTITY__Mutations()
+  const { data, loading, error, refetch } = use__ENTITY__s()
+  const { __MUTATIONS__ } = use__ENTITY__Mutations()
+__BEHAVIOR_STATE__
   
   if (loading) return html`<div class="loading">Loading...</div>`
-  if (error) return html`<div class="text-red">Error: ${error.message}</div>`
+  if (error) return html`
+    <div class="text-red">
+      Error: ${error.message}
+      <${Button} variant="secondary" onClick=${refetch}>Retry</${Button}>
+    </div>
+  `
   
   const item = data.find(d => d.id === id)
   if (!item) return html`<div class="text-center">__ENTITY__ not found</div>`
@@ -55,17 +61,8 @@ export default function __VIEW_NAME__() {
   // Apply hooks processing
   const processedItem = hooks.beforeRender?.(item) || item
 
-  const handleDelete = async () => {
-    if (confirm(`Delete this __ENTITY_LOWER__?`)) {
-      try {
-        await delete__ENTITY__(item.id)
-        window.location.href = '__LIST_ROUTE__'
-      } catch (err) {
-        alert('Failed to delete: ' + err.message)
-      }
-    }
-  }
-
+__BEHAVIOR_HANDLER__
+__DELETE_HANDLER__
   return html`
     <div class="__ENTITY_LOWER__-detail">
       ${hooks.beforeContent?.() || ''}
@@ -94,7 +91,7 @@ __ACTION_BUTTONS__
 
         <div class="detail-grid">
 __FIELD_DISPLAYS__
-        </div>
+        </div>__BEHAVIOR_FORMS__
 
         ${hooks.footerContent?.() || ''}
       </${Card}>
@@ -104,17 +101,4 @@ __FIELD_DISPLAYS__
   `
 }
 
-function formatFieldValue(value, type) {
-  if (value === null || value === undefined) return html`<span class="text-gray">-</span>`
-  
-  switch (type) {
-    case 'date':
-      return new Date(value).toLocaleDateString()
-    case 'boolean':
-      return value ? '✓ Yes' : '✗ No'
-    case 'enum':
-      return html`<span class="enum-badge">${value}</span>`
-    default:
-      return value.toString()
-  }
-}
\ No newline at end of file
+__FORMAT_FIELD_VALUE__
\ No newline at end of file
@@ -1,6 +1,8 @@
 // New Readable Form Template
 // Template for creating and editing entities - much more maintainable!
 
+import { isHiddenField, isWriteOnlyField } from '../../../core/query/field-access.ts'
+
 export const metadata = {
   inputs: {
     entity: { required: true, type: 'entity' },
@@ -16,10 +18,10 @@ export async function generateComponent(viewName, viewDef, entityDef) {
   const entityLower = entity.toLowerCase()
   const isEdit = viewDef.mode === 'edit'
   
-  // Get fields to display (exclude system fields)
-  const fields = viewDef.fields || Object.keys(entityDef.fields).filter(f => 
+  // Get fields to display (exclude system fields and fields the API never accepts)
+  const fields = (viewDef.fields || Object.keys(entityDef.fields).filter(f => 
     !['id', 'createdAt', 'updatedAt'].includes(f)
-  )
+  )).filter(f => !entityDef.fields[f] || !isHiddenField(entityDef.fields[f]))
   
   // Build field objects with metadata
   const fieldObjects = fields.map(fieldName => {
@@ -31,9 +33,13 @@ export async function generateComponent(viewName, viewDef, entityDef) {
       required: fieldDef?.required || false,
       default: fieldDef?.default || '',
       options: fieldDef?.options || [],
-      entity: fieldDef?.entity // for reference fields
+      entity: fieldDef?.entity || fieldDef?.to, // for reference and relation fields
+      many: fieldDef?.type === 'relation' && !!fieldDef?.many,
+      writeOnly: !!fieldDef && isWriteOnlyField(fieldName, fieldDef), // never loaded; blank keeps the stored value
+      restricted: !!fieldDef?.permissions?.read // only shown when the API returned it
     }
   })
+  const writeOnlyFields = fieldObjects.filter(f => f.writeOnly).map(f => f.name)
 
   // Load the template file with full syntax highlighting!
   const templatePath = new URL('./form.template.js', import.meta.url).pathname
@@ -48,31 +54,57 @@ export async function generateComponent(viewName, viewDef, entityDef) {
     .replaceAll('__SUBMIT_BUTTON_TEXT__', isEdit ? `Update ${entity}` : `Create ${entity}`)
     .replaceAll('__MUTATION_FUNCTION__', isEdit ? `update${entity}` : `create${entity}`)
     
+    // Only import what the generated code below uses
+    .replace('__MODEL_IMPORTS__', isEdit ? `, get${entity}ETag` : '')
+    .replace('__COMPONENT_IMPORTS__', fieldComponents(fieldObjects).map(name => `, ${name}`).join(''))
+    
     // Generate initial form state
     .replace('__INITIAL_FORM_STATE__', 
-      fieldObjects.map(f => `    ${f.name}: '${f.default}'`).join(',\n'))
+      fieldObjects.map(f => f.many ? `    ${f.name}: []` : `    ${f.name}: '${f.default}'`).join(',\n'))
     
     // Generate validation rules
     .replace('__VALIDATION_RULES__',
-      fieldObjects.filter(f => f.required).map(f => 
-        `    if (!formData.${f.name}) {\n      newErrors.${f.name} = '${f.label} is required'\n    }`
+      fieldObjects.filter(f => f.required && !(isEdit && f.writeOnly)).map(f => 
+        `    if (${isEdit && f.restricted ? `'${f.name}' in (latestItem || existingItem) && ` : ''}!formData.${f.name}${f.many ? '?.length' : ''}) {\n      newErrors.${f.name} = '${f.label} is required'\n    }`
       ).join('\n'))
     
     // Generate field components
-    .replace('__FIELD_COMPONENTS__', generateFieldComponents(fieldObjects))
+    .replace('__FIELD_COMPONENTS__', generateFieldComponents(fieldObjects, isEdit))
     
     // Generate edit mode specific code
     .replace('__EDIT_MODE_SETUP__', isEdit ? generateEditModeSetup(entity) : '')
     .replace('__EDIT_MODE_EFFECT__', isEdit ? generateEditModeEffect(fieldObjects) : '')
-    .replace('__SUBMIT_LOGIC__', isEdit ? `      await update${entity}(id, processedData)` : `      await create${entity}(processedData)`)
+    .replace('__CONFLICT_NOTICE__', isEdit ? generateConflictNotice(entityLower) : '')
+    .replace('__SUBMIT_LOGIC__', isEdit
+      ? generateEditSubmit(entity, writeOnlyFields)
+      : `      await create${entity}(processedData)`)
   
   return template
 }
 
-function generateFieldComponents(fieldObjects) {
+function generateFieldComponents(fieldObjects, isEdit) {
   return fieldObjects.map(field => {
-    if (field.type === 'enum') {
-      return `            <\${Select}
+    const component = generateFieldComponent(field, isEdit)
+    
+    // Fields the user may not read come back without a value to edit
+    return isEdit && field.restricted
+      ? `            \${'${field.name}' in (latestItem || existingItem) && html\`\n${component}\n            \`}`
+      : component
+  }).join('\n')
+}
+
+// The form components generateFieldComponent builds the fields from
+function fieldComponents(fieldObjects) {
+  return [
+    fieldObjects.some(f => !['enum', 'reference', 'relation'].includes(f.type)) && 'Input',
+    fieldObjects.some(f => f.type === 'enum') && 'Select',
+    fieldObjects.some(f => f.type === 'reference' || f.type === 'relation') && 'ReferenceSelect'
+  ].filter(Boolean)
+}
+
+function generateFieldComponent(field, isEdit) {
+  if (field.type === 'enum') {
+    return `            <\${Select}
               label="${field.label}"
               value=\${formData.${field.name}}
               onChange=\${(value) => updateField('${field.name}', value)}
@@ -80,20 +112,31 @@ function generateFieldComponents(fieldObjects) {
               required=\${${field.required}}
               error=\${errors.${field.name}}
             />`
-    } else if (field.type === 'reference') {
-      return `            <\${ReferenceSelect}
+  } else if (field.type === 'reference' || field.type === 'relation') {
+    return `            <\${ReferenceSelect}
               label="${field.label}"
               value=\${formData.${field.name}}
               onChange=\${(value) => updateField('${field.name}', value)}
               entityType="${field.entity}"
+              multiple=\${${field.many}}
               required=\${${field.required}}
               error=\${errors.${field.name}}
             />`
-    } else {
-      const inputType = field.type === 'date' ? 'date' : 
-                       field.type === 'email' ? 'email' : 
-                       field.type === 'number' ? 'number' : 'text'
-      return `            <\${Input}
+  } else if (field.writeOnly) {
+    return `            <\${Input}
+              label="${field.label}"
+              type="password"
+              value=\${formData.${field.name}}
+              onChange=\${(value) => updateField('${field.name}', value)}
+              placeholder="${isEdit ? 'Leave blank to keep the current value' : ''}"
+              required=\${${field.required && !isEdit}}
+              error=\${errors.${field.name}}
+            />`
+  } else {
+    const inputType = field.type === 'date' ? 'date' : 
+                     field.type === 'email' ? 'email' : 
+                     field.type === 'number' ? 'number' : 'text'
+    return `            <\${Input}
               label="${field.label}"
               type="${inputType}"
               value=\${formData.${field.name}}
@@ -101,8 +144,23 @@ function generateFieldComponents(fieldObjects) {
               required=\${${field.required}}
               error=\${errors.${field.name}}
             />`
-    }
-  }).join('\n')
+  }
+}
+
+function generateEditSubmit(entity, writeOnlyFields) {
+  return `      // Send only fields that were loaded, plus write-only fields that were filled in
+      const loaded = latestItem || existingItem
+      const writeOnly = ${JSON.stringify(writeOnlyFields)}
+      const changes = Object.fromEntries(Object.entries(processedData).filter(([name, value]) =>
+        writeOnly.includes(name) ? value !== '' : name in loaded
+      ))
+      try {
+        await update${entity}(id, changes, { ifMatch: get${entity}ETag(loaded) })
+      } catch (err) {
+        if (!err.conflict) throw err
+        // Keep the user's edits on screen and offer to reload
+        return setConflict(err.conflict)
+      }`
 }
 
 function generateEditModeSetup(entity) {
@@ -111,7 +169,22 @@ function generateEditModeSetup(entity) {
   const id = pathParts[pathParts.length - 2] // assuming /entity/id/edit pattern
   
   const { data, loading: loadingData, error: loadError } = use${entity}s()
-  const existingItem = data.find(d => d.id === id)`
+  const existingItem = data.find(d => d.id === id)
+  
+  // The saved version after reloading from a conflict; edits are checked against it
+  const [latestItem, setLatestItem] = useState(null)
+  const [conflict, setConflict] = useState(null) // { current, etag } when a save lost to another edit`
+}
+
+function generateConflictNotice(entityLower) {
+  return `        \${conflict && html\`
+          <div class="text-red mb-4">
+            This ${entityLower} was changed by someone else while you were editing, so your changes were not saved.
+            <\${Button} type="button" variant="secondary" onClick=\${reloadLatest}>
+              Reload latest
+            </\${Button}>
+          </div>
+        \`}`
 }
 
 function generateEditModeEffect(fieldObjects) {
@@ -119,11 +192,24 @@ function generateEditModeEffect(fieldObjects) {
   useEffect(() => {
     if (existingItem) {
       setFormData({
-${fieldObjects.map(f => `        ${f.name}: existingItem.${f.name} || ''`).join(',\n')}
+${fieldObjects.map(f => `        ${f.name}: existingItem.${f.name} || ${f.many ? '[]' : "''"}`).join(',\n')}
       })
     }
   }, [existingItem])
 
+  // Someone else saved first: start over from their version of the record
+  const reloadLatest = () => {
+    const current = conflict?.current
+    if (!current) return window.location.reload()
+    
+    setLatestItem(current)
+    setFormData({
+${fieldObjects.map(f => `      ${f.name}: current.${f.name} || ${f.many ? '[]' : "''"}`).join(',\n')}
+    })
+    setErrors({})
+    setConflict(null)
+  }
+
   if (loadingData) return html\`<div class="loading">Loading...</div>\`
   if (loadError) return html\`<div class="text-red">Error: \${loadError.message}</div>\`
   if (!existingItem) return html\`<div class="text-center">${fieldObjects[0]?.name ? fieldObjects[0].name.charAt(0).toUpperCase() + fieldObjects[0].name.slice(1) : 'Item'} not found</div>\``
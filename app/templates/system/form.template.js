@@ -4,8 +4,8 @@
 // 🤖 AI: For structural changes (layout, validation patterns, UI components),
 //     consider modifying the template skeleton first: app/templates/system/form.template.js
 //     Then touch app/app.truth.ts to regenerate all forms with your improvements!
-import { use__ENTITY__s, use__ENTITY__Mutations } from '/runtime/generated/models/__ENTITY_LOWER__.js'
-import { Card, Button, Form, Input, Select, ReferenceSelect } from '/app/components/system/index.js'
+import { use__ENTITY__s, use__ENTITY__Mutations__MODEL_IMPORTS__ } from '/runtime/generated/models/__ENTITY_LOWER__.js'
+import { Card, Button, Form__COMPONENT_IMPORTS__ } from '/app/components/system/index.js'
 
 // Optional hooks for customization
 let hooks = {}
@@ -104,6 +104,7 @@ __SUBMIT_LOGIC__
             ${errors.submit}
           </div>
         `}
+__CONFLICT_NOTICE__
 
         <${Form} onSubmit=${handleSubmit}>
           <div class="form-grid">
@@ -37,7 +37,7 @@ export default function __VIEW_NAME__() {
     `
   }
   
-  const { data, loading, error, refetch } = use__ENTITY__s()
+  const { data, loading, error, refetch } = use__ENTITY__s({ live: true })
   const { update__ENTITY__ } = use__ENTITY__Mutations()
   
   // Kanban state
@@ -37,7 +37,7 @@ export default function TaskBoard() {
     `
   }
   
-  const { data, loading, error, refetch } = useTasks()
+  const { data, loading, error, refetch } = useTasks({ live: true })
   const { updateTask } = useTaskMutations()
   
   // Kanban state
@@ -17,7 +17,8 @@ export class DashboardGenerator implements Generator<Record<string, string>> {
       '/dashboard/extensions': this.generateExtensionsPage(),
       '/dashboard/database': this.generateDatabasePage(),
       '/dashboard/config': this.generateConfigPage(),
-      '/dashboard/api': this.generateAPIPage()
+      '/dashboard/api': this.generateAPIPage(),
+      '/dashboard/openapi': this.generateOpenAPIPage()
     };
 
     console.log('[DashboardGenerator] Done');
@@ -212,6 +213,15 @@ export class DashboardGenerator implements Generator<Record<string, string>> {
                 </p>
             </div>
             
+            <div class="dashboard-card" onclick="window.location.href='/dashboard/openapi'">
+                <span class="card-icon">📜</span>
+                <h3 class="card-title">OpenAPI Explorer</h3>
+                <p class="card-description">
+                    Browse the OpenAPI 3.1 contract generated from the truth file 
+                    and send requests to any operation it describes.
+                </p>
+            </div>
+            
             <div class="dashboard-card" onclick="window.location.href='/dashboard/config'">
                 <span class="card-icon">⚙️</span>
                 <h3 class="card-title">Configuration</h3>
@@ -1286,6 +1296,466 @@ export class DashboardGenerator implements Generator<Record<string, string>> {
     `;
   }
 
+  private generateOpenAPIPage(): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>OpenAPI Explorer - Solidcore3 Dashboard</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #f8fafc;
+            min-height: 100vh;
+            color: #333;
+        }
+        
+        .container {
+            max-width: 1400px;
+            margin: 0 auto;
+            padding: 2rem;
+        }
+        
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 2rem;
+            padding-bottom: 1rem;
+            border-bottom: 2px solid #e2e8f0;
+        }
+        
+        .header h1 {
+            font-size: 2rem;
+            color: #1a202c;
+        }
+        
+        .header-links {
+            display: flex;
+            gap: 0.5rem;
+        }
+        
+        .back-btn {
+            background: #667eea;
+            color: white;
+            text-decoration: none;
+            padding: 0.5rem 1rem;
+            border-radius: 8px;
+            transition: background 0.3s ease;
+        }
+        
+        .back-btn:hover {
+            background: #5a67d8;
+        }
+        
+        .info {
+            background: white;
+            border-radius: 12px;
+            padding: 1.5rem;
+            margin-bottom: 2rem;
+            box-shadow: 0 4px 6px rgba(0,0,0,0.07);
+            border: 1px solid #e2e8f0;
+        }
+        
+        .info h2 {
+            font-size: 1.25rem;
+            color: #2d3748;
+            margin-bottom: 0.5rem;
+        }
+        
+        .info p {
+            color: #718096;
+            margin-bottom: 0.5rem;
+        }
+        
+        .token-row {
+            display: none;
+            gap: 0.5rem;
+            margin-top: 1rem;
+        }
+        
+        .tag-section {
+            background: white;
+            border-radius: 12px;
+            padding: 1.5rem;
+            margin-bottom: 2rem;
+            box-shadow: 0 4px 6px rgba(0,0,0,0.07);
+            border: 1px solid #e2e8f0;
+        }
+        
+        .tag-title {
+            font-size: 1.25rem;
+            font-weight: 600;
+            margin-bottom: 1rem;
+            color: #2d3748;
+        }
+        
+        .operation {
+            border: 1px solid #e2e8f0;
+            border-radius: 8px;
+            overflow: hidden;
+            margin-bottom: 0.75rem;
+        }
+        
+        .operation-header {
+            display: flex;
+            align-items: center;
+            padding: 0.75rem 1rem;
+            background: #f7fafc;
+            cursor: pointer;
+        }
+        
+        .operation-header:hover {
+            background: #edf2f7;
+        }
+        
+        .method {
+            padding: 0.25rem 0.75rem;
+            border-radius: 4px;
+            font-size: 0.75rem;
+            font-weight: 600;
+            margin-right: 1rem;
+            min-width: 70px;
+            text-align: center;
+            color: white;
+            text-transform: uppercase;
+        }
+        
+        .method-get { background: #48bb78; }
+        .method-post { background: #3182ce; }
+        .method-put { background: #ed8936; }
+        .method-patch { background: #9f7aea; }
+        .method-delete { background: #e53e3e; }
+        
+        .operation-path {
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-weight: 500;
+            flex: 1;
+        }
+        
+        .operation-summary {
+            color: #718096;
+            font-size: 0.875rem;
+            margin-left: 1rem;
+        }
+        
+        .operation-details {
+            padding: 1rem;
+            border-top: 1px solid #e2e8f0;
+            display: none;
+        }
+        
+        .operation.expanded .operation-details {
+            display: block;
+        }
+        
+        .operation-description {
+            color: #4a5568;
+            margin-bottom: 1rem;
+            white-space: pre-wrap;
+        }
+        
+        .form-group {
+            margin-bottom: 0.75rem;
+        }
+        
+        .form-label {
+            display: block;
+            margin-bottom: 0.25rem;
+            font-weight: 500;
+            color: #2d3748;
+            font-size: 0.875rem;
+        }
+        
+        .form-hint {
+            color: #718096;
+            font-weight: normal;
+        }
+        
+        .form-input {
+            width: 100%;
+            padding: 0.5rem;
+            border: 1px solid #e2e8f0;
+            border-radius: 4px;
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-size: 0.875rem;
+        }
+        
+        .form-textarea {
+            min-height: 140px;
+            resize: vertical;
+        }
+        
+        .responses {
+            margin: 1rem 0;
+            font-size: 0.875rem;
+            color: #4a5568;
+        }
+        
+        .responses code {
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-weight: 600;
+            margin-right: 0.5rem;
+        }
+        
+        .send-btn {
+            background: #3182ce;
+            color: white;
+            border: none;
+            padding: 0.5rem 1rem;
+            border-radius: 4px;
+            cursor: pointer;
+            font-weight: 500;
+        }
+        
+        .send-btn:hover {
+            background: #2c5aa0;
+        }
+        
+        .response-section {
+            margin-top: 1rem;
+            padding: 1rem;
+            background: #1a202c;
+            color: #e2e8f0;
+            border-radius: 6px;
+            font-family: 'Monaco', 'Menlo', monospace;
+            font-size: 0.875rem;
+            white-space: pre-wrap;
+            display: none;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>📜 OpenAPI Explorer</h1>
+            <div class="header-links">
+                <a href="/api/openapi.json" class="back-btn" target="_blank">openapi.json</a>
+                <a href="/dashboard" class="back-btn">← Dashboard</a>
+            </div>
+        </div>
+        
+        <div class="info" id="info">
+            <p>Loading OpenAPI document...</p>
+        </div>
+        
+        <div id="operations"></div>
+    </div>
+    
+    <script>
+        const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+        let spec = null;
+        
+        function escapeHtml(value) {
+            return String(value ?? '').replace(/[&<>"']/g, char => ({
+                '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+            })[char]);
+        }
+        
+        function resolve(node) {
+            let current = node;
+            while (current && current.$ref) {
+                current = current.$ref.replace('#/', '').split('/').reduce((target, key) => target && target[key], spec);
+            }
+            return current || {};
+        }
+        
+        // Sample request body built from a schema, so requests start out valid
+        function example(schema, depth = 0) {
+            schema = resolve(schema);
+            if (depth > 4) return null;
+            if (schema.default !== undefined) return schema.default;
+            if (schema.enum) return schema.enum[0];
+            if (schema.oneOf) return example(schema.oneOf[0], depth + 1);
+            
+            const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+            switch (type) {
+                case 'object': {
+                    const sample = {};
+                    const required = schema.required || Object.keys(schema.properties || {});
+                    for (const [name, property] of Object.entries(schema.properties || {})) {
+                        if (required.includes(name) && !resolve(property).readOnly) {
+                            sample[name] = example(property, depth + 1);
+                        }
+                    }
+                    return sample;
+                }
+                case 'array':
+                    return schema.items && depth < 2 ? [example(schema.items, depth + 1)] : [];
+                case 'integer':
+                case 'number':
+                    return schema.minimum ?? 0;
+                case 'boolean':
+                    return false;
+                case 'string':
+                    if (schema.format === 'date') return new Date().toISOString().slice(0, 10);
+                    if (schema.format === 'date-time') return new Date().toISOString();
+                    return '';
+                default:
+                    return null;
+            }
+        }
+        
+        function parametersOf(pathItem, operation) {
+            return [...(pathItem.parameters || []), ...(operation.parameters || [])].map(resolve);
+        }
+        
+        function renderOperation(path, method, pathItem, operation, index) {
+            const parameters = parametersOf(pathItem, operation);
+            const content = operation.requestBody ? operation.requestBody.content : null;
+            const contentTypes = content ? Object.keys(content) : [];
+            
+            const fields = parameters.map(parameter =>
+                '<div class="form-group">' +
+                    '<label class="form-label">' + escapeHtml(parameter.name) +
+                    ' <span class="form-hint">(' + escapeHtml(parameter.in) + (parameter.required ? ', required' : '') + ')' +
+                    (parameter.description ? ' ' + escapeHtml(parameter.description) : '') + '</span></label>' +
+                    '<input class="form-input" data-name="' + escapeHtml(parameter.name) + '" data-in="' + escapeHtml(parameter.in) + '">' +
+                '</div>'
+            ).join('');
+            
+            const body = content
+                ? '<div class="form-group">' +
+                      '<label class="form-label">Request body</label>' +
+                      (contentTypes.length > 1
+                          ? '<select class="form-input content-type">' + contentTypes.map(type => '<option>' + escapeHtml(type) + '</option>').join('') + '</select>'
+                          : '<input type="hidden" class="content-type" value="' + escapeHtml(contentTypes[0]) + '">') +
+                      '<textarea class="form-input form-textarea">' + escapeHtml(JSON.stringify(example(content[contentTypes[0]].schema), null, 2)) + '</textarea>' +
+                  '</div>'
+                : '';
+            
+            const responses = Object.entries(operation.responses || {}).map(([status, response]) =>
+                '<div><code>' + escapeHtml(status) + '</code>' + escapeHtml(resolve(response).description) + '</div>'
+            ).join('');
+            
+            return '<div class="operation" id="operation-' + index + '">' +
+                '<div class="operation-header" onclick="this.parentElement.classList.toggle(\\'expanded\\')">' +
+                    '<span class="method method-' + method + '">' + method + '</span>' +
+                    '<span class="operation-path">' + escapeHtml(path) + '</span>' +
+                    '<span class="operation-summary">' + escapeHtml(operation.summary) + '</span>' +
+                '</div>' +
+                '<div class="operation-details">' +
+                    (operation.description ? '<p class="operation-description">' + escapeHtml(operation.description) + '</p>' : '') +
+                    fields + body +
+                    '<div class="responses">' + responses + '</div>' +
+                    '<button class="send-btn" onclick="send(' + index + ')">Send request</button>' +
+                    '<div class="response-section"></div>' +
+                '</div>' +
+            '</div>';
+        }
+        
+        const operations = [];
+        
+        async function send(index) {
+            const { path, method } = operations[index];
+            const element = document.getElementById('operation-' + index);
+            const output = element.querySelector('.response-section');
+            const server = (spec.servers && spec.servers[0] && spec.servers[0].url) || '';
+            
+            let url = path;
+            const query = new URLSearchParams();
+            const headers = {};
+            for (const input of element.querySelectorAll('input[data-name]')) {
+                const value = input.value.trim();
+                if (value === '') continue;
+                if (input.dataset.in === 'path') url = url.replace('{' + input.dataset.name + '}', encodeURIComponent(value));
+                if (input.dataset.in === 'query') query.append(input.dataset.name, value);
+                if (input.dataset.in === 'header') headers[input.dataset.name] = value;
+            }
+            
+            const token = localStorage.getItem('openapi_token');
+            if (token) headers['Authorization'] = 'Bearer ' + token;
+            
+            const options = { method: method.toUpperCase(), headers, credentials: 'same-origin' };
+            const textarea = element.querySelector('textarea');
+            if (textarea && textarea.value.trim()) {
+                try {
+                    options.body = JSON.stringify(JSON.parse(textarea.value));
+                } catch (e) {
+                    alert('Invalid JSON in request body');
+                    return;
+                }
+                headers['Content-Type'] = element.querySelector('.content-type').value;
+            }
+            
+            output.style.display = 'block';
+            output.textContent = 'Loading...';
+            
+            try {
+                const search = query.toString();
+                const response = await fetch(server + url + (search ? '?' + search : ''), options);
+                const text = await response.text();
+                let body = text;
+                try { body = JSON.parse(text); } catch (e) { /* not JSON */ }
+                
+                output.textContent = JSON.stringify({
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: Object.fromEntries(response.headers.entries()),
+                    body
+                }, null, 2);
+            } catch (err) {
+                output.textContent = 'Error: ' + err.message;
+            }
+        }
+        
+        function saveToken() {
+            const value = document.getElementById('token').value.trim();
+            if (value) {
+                localStorage.setItem('openapi_token', value);
+            } else {
+                localStorage.removeItem('openapi_token');
+            }
+        }
+        
+        async function loadSpec() {
+            try {
+                const response = await fetch('/api/openapi.json');
+                spec = await response.json();
+            } catch (err) {
+                document.getElementById('info').innerHTML = '<p style="color: #e53e3e;">Failed to load /api/openapi.json</p>';
+                return;
+            }
+            
+            const authenticated = !!(spec.components && spec.components.securitySchemes);
+            document.getElementById('info').innerHTML =
+                '<h2>' + escapeHtml(spec.info.title) + ' <span class="form-hint">v' + escapeHtml(spec.info.version) + ' · OpenAPI ' + escapeHtml(spec.openapi) + '</span></h2>' +
+                (spec.info.description ? '<p>' + escapeHtml(spec.info.description) + '</p>' : '') +
+                (authenticated
+                    ? '<p>Requests send the auth_token cookie of this browser, or the bearer token below.</p>' +
+                      '<div class="token-row" style="display: flex;">' +
+                          '<input class="form-input" id="token" placeholder="Bearer token" value="' + escapeHtml(localStorage.getItem('openapi_token') || '') + '">' +
+                          '<button class="send-btn" onclick="saveToken()">Save</button>' +
+                      '</div>'
+                    : '');
+            
+            const byTag = {};
+            for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+                for (const method of METHODS) {
+                    const operation = pathItem[method];
+                    if (!operation) continue;
+                    const tag = (operation.tags && operation.tags[0]) || 'default';
+                    const index = operations.push({ path, method }) - 1;
+                    (byTag[tag] = byTag[tag] || []).push(renderOperation(path, method, pathItem, operation, index));
+                }
+            }
+            
+            document.getElementById('operations').innerHTML = Object.entries(byTag).map(([tag, rendered]) =>
+                '<div class="tag-section"><div class="tag-title">' + escapeHtml(tag) + '</div>' + rendered.join('') + '</div>'
+            ).join('');
+        }
+        
+        loadSpec();
+    </script>
+</body>
+</html>
+    `;
+  }
+
   private generateConfigPage(): string {
     return `
 <!DOCTYPE html>
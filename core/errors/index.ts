@@ -27,6 +27,12 @@ export {
   EntityNotFoundError,
   PermissionError,
   InvalidRequestDataError,
+  ReferenceConflictError,
+  BulkOperationError,
+  PreconditionFailedError,
+  BehaviorGuardError,
+  IdempotencyKeyInUseError,
+  IdempotencyKeyReusedError,
   TruthFileLoadError,
   ConfigurationError,
   GeneratorError,
@@ -188,6 +188,115 @@ export class InvalidRequestDataError extends FrameworkError {
   }
 }
 
+export class ReferenceConflictError extends FrameworkError {
+  constructor(
+    entityName: string,
+    entityId: string,
+    references: Array<{ entity: string; field: string; count: number; ids: string[] }>,
+    requestId?: string
+  ) {
+    const blocking = references.map(ref => `${ref.count} ${ref.entity} (${ref.field})`).join(', ');
+    const message = blocking
+      ? `Cannot delete ${entityName} '${entityId}': still referenced by ${blocking}`
+      : `Cannot delete ${entityName} '${entityId}': it is still referenced by other records`;
+    const context: APIErrorContext = {
+      entityName,
+      entityId,
+      references,
+      suggestion: "Reassign or delete the referencing records first, or change the relation's onDelete policy"
+    };
+    super(ErrorCode.REFERENCE_CONFLICT, message, context, undefined, requestId);
+    this.name = 'ReferenceConflictError';
+  }
+}
+
+export class BulkOperationError extends FrameworkError {
+  constructor(
+    entityName: string,
+    failed: number,
+    total: number,
+    results: unknown[],
+    requestId?: string
+  ) {
+    const message = `${failed} of ${total} ${entityName} operations failed; no changes were saved`;
+    const context: APIErrorContext = {
+      entityName,
+      results,
+      suggestion: 'Fix the failed operations and resend the batch, or send atomic: false to keep the ones that succeed'
+    };
+    super(ErrorCode.BULK_OPERATION_FAILED, message, context, undefined, requestId);
+    this.name = 'BulkOperationError';
+  }
+}
+
+export class PreconditionFailedError extends FrameworkError {
+  constructor(
+    entityName: string,
+    entityId: string,
+    expected: string,
+    current: Record<string, unknown>,
+    currentETag: string,
+    requestId?: string
+  ) {
+    const message = `${entityName} '${entityId}' was changed by someone else (expected ${expected}, now ${currentETag})`;
+    const context: APIErrorContext = {
+      entityName,
+      entityId,
+      expected,
+      etag: currentETag,
+      current,
+      suggestion: 'Reload the record, reapply your changes and send them with the new ETag'
+    };
+    super(ErrorCode.PRECONDITION_FAILED, message, context, undefined, requestId);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+export class BehaviorGuardError extends FrameworkError {
+  constructor(
+    entityName: string,
+    entityId: string,
+    behaviorName: string,
+    guard: string,
+    requestId?: string
+  ) {
+    const message = `Cannot ${behaviorName} ${entityName} '${entityId}' in its current state: requires ${guard}`;
+    const context: APIErrorContext = {
+      entityName,
+      entityId,
+      operation: behaviorName,
+      guard,
+      suggestion: 'Reload the record; the behavior can run once its guard holds'
+    };
+    super(ErrorCode.BEHAVIOR_GUARD_FAILED, message, context, undefined, requestId);
+    this.name = 'BehaviorGuardError';
+  }
+}
+
+export class IdempotencyKeyInUseError extends FrameworkError {
+  constructor(key: string, requestId?: string) {
+    const message = `A request with Idempotency-Key '${key}' is still being processed`;
+    const context: APIErrorContext = {
+      key,
+      suggestion: 'Retry once the first request has finished to receive its response'
+    };
+    super(ErrorCode.IDEMPOTENCY_KEY_IN_USE, message, context, undefined, requestId);
+    this.name = 'IdempotencyKeyInUseError';
+  }
+}
+
+export class IdempotencyKeyReusedError extends FrameworkError {
+  constructor(key: string, requestId?: string) {
+    const message = `Idempotency-Key '${key}' was already used for a different request`;
+    const context: APIErrorContext = {
+      key,
+      suggestion: 'Send a new key for every distinct request; reuse a key only to retry the same one'
+    };
+    super(ErrorCode.IDEMPOTENCY_KEY_REUSED, message, context, undefined, requestId);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
 // System Errors
 export class TruthFileLoadError extends FrameworkError {
   constructor(
@@ -122,6 +122,27 @@ function getSuggestionsByCode(code: ErrorCode, context?: any): string[] {
         'Check field value constraints'
       ];
       
+    case ErrorCode.REFERENCE_CONFLICT:
+      return [
+        "Use onDelete: 'cascade' or 'setNull' on the relation if dependent records should follow"
+      ];
+      
+    case ErrorCode.PRECONDITION_FAILED:
+      return [
+        'Leave out If-Match to overwrite regardless of concurrent changes'
+      ];
+      
+    case ErrorCode.BEHAVIOR_GUARD_FAILED:
+      return [
+        "Check the behavior's guard expression in the entity definition"
+      ];
+      
+    case ErrorCode.IDEMPOTENCY_KEY_IN_USE:
+    case ErrorCode.IDEMPOTENCY_KEY_REUSED:
+      return [
+        'Generate the Idempotency-Key once per logical request, e.g. a UUID'
+      ];
+
     // System errors
     case ErrorCode.TRUTH_FILE_LOAD_FAILED:
       return [
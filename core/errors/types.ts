@@ -25,7 +25,13 @@ export enum ErrorCode {
   AUTHENTICATION_FAILED = 'E3004',
   RATE_LIMIT_EXCEEDED = 'E3005',
   INVALID_ROUTE = 'E3006',
-  
+  REFERENCE_CONFLICT = 'E3007',
+  BULK_OPERATION_FAILED = 'E3008',
+  PRECONDITION_FAILED = 'E3009',
+  BEHAVIOR_GUARD_FAILED = 'E3010',
+  IDEMPOTENCY_KEY_IN_USE = 'E3011',
+  IDEMPOTENCY_KEY_REUSED = 'E3012',
+
   // System errors (4xxx)
   TRUTH_FILE_LOAD_FAILED = 'E4001',
   EXTENSION_LOAD_FAILED = 'E4002',
@@ -1,5 +1,6 @@
 // Safe Expression Parser - Minimal implementation for standard JavaScript expressions
 // Supports: ==, !=, >, <, >=, <=, &&, ||, !, parentheses, string/number/boolean literals
+// and calls to built-in functions such as now()
 
 export interface ParseResult {
   success: boolean;
@@ -30,6 +31,7 @@ export enum TokenType {
   // Structure
   LPAREN = 'LPAREN',          // (
   RPAREN = 'RPAREN',          // )
+  COMMA = 'COMMA',            // ,
   EOF = 'EOF'
 }
 
@@ -202,6 +204,10 @@ export class ExpressionLexer {
           tokens.push({ type: TokenType.RPAREN, value: ')', position: startPos });
           this.advance();
           continue;
+        case ',':
+          tokens.push({ type: TokenType.COMMA, value: ',', position: startPos });
+          this.advance();
+          continue;
       }
       
       // Identifiers and keywords
@@ -253,6 +259,35 @@ export interface UnaryOpNode extends ASTNode {
   operand: ASTNode;
 }
 
+export interface CallNode extends ASTNode {
+  type: 'call';
+  name: string;
+  args: ASTNode[];
+}
+
+// Functions expressions may call; they see only their arguments
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  now: () => new Date().toISOString(),
+};
+
+/**
+ * Names of the variables an expression reads, e.g. ['dueDate', 'status']
+ */
+export function expressionIdentifiers(ast: ASTNode): string[] {
+  switch (ast.type) {
+    case 'identifier':
+      return [(ast as IdentifierNode).name];
+    case 'binary':
+      return [...expressionIdentifiers((ast as BinaryOpNode).left), ...expressionIdentifiers((ast as BinaryOpNode).right)];
+    case 'unary':
+      return expressionIdentifiers((ast as UnaryOpNode).operand);
+    case 'call':
+      return (ast as CallNode).args.flatMap(arg => expressionIdentifiers(arg));
+    default:
+      return [];
+  }
+}
+
 export class ExpressionParser {
   private tokens: Token[] = [];
   private pos = 0;
@@ -343,7 +378,7 @@ export class ExpressionParser {
     return this.parsePrimaryExpression();
   }
   
-  // Primary expressions (literals, identifiers, parentheses)
+  // Primary expressions (literals, identifiers, function calls, parentheses)
   private parsePrimaryExpression(): ASTNode {
     switch (this.current.type) {
       case TokenType.STRING:
@@ -361,10 +396,14 @@ export class ExpressionParser {
         this.advance();
         return { type: 'literal', value: boolValue } as LiteralNode;
         
-      case TokenType.IDENTIFIER:
+      case TokenType.IDENTIFIER: {
         const name = this.current.value;
         this.advance();
+        if (this.tokens[this.pos]?.type === TokenType.LPAREN) {
+          return this.parseCall(name);
+        }
         return { type: 'identifier', name } as IdentifierNode;
+      }
         
       case TokenType.LPAREN:
         this.advance(); // Skip '('
@@ -376,6 +415,27 @@ export class ExpressionParser {
         throw new Error(`Unexpected token ${this.current.type} at position ${this.current.position}`);
     }
   }
+  
+  // Function calls: name(arg, ...)
+  private parseCall(name: string): ASTNode {
+    if (!Object.hasOwn(EXPRESSION_FUNCTIONS, name)) {
+      throw new Error(`Unknown function '${name}' at position ${this.current.position}`);
+    }
+    
+    this.expect(TokenType.LPAREN);
+    const args: ASTNode[] = [];
+    
+    if (this.current.type !== TokenType.RPAREN) {
+      args.push(this.parseOrExpression());
+      while (this.current.type === TokenType.COMMA) {
+        this.advance();
+        args.push(this.parseOrExpression());
+      }
+    }
+    
+    this.expect(TokenType.RPAREN);
+    return { type: 'call', name, args } as CallNode;
+  }
 }
 
 export class SafeExpressionEvaluator {
@@ -399,6 +459,10 @@ export class SafeExpressionEvaluator {
         const operand = this.evaluate(unary.operand, context);
         return this.evaluateUnaryOperation(unary.operator, operand);
         
+      case 'call':
+        const call = ast as CallNode;
+        return EXPRESSION_FUNCTIONS[call.name](...call.args.map(arg => this.evaluate(arg, context)));
+        
       default:
         throw new Error(`Unknown AST node type: ${ast.type}`);
     }
@@ -494,6 +558,34 @@ export class SafeExpressionParser {
     }
   }
   
+  /**
+   * Evaluate an expression to its value rather than a boolean
+   * @param expression - The expression string to evaluate, e.g. "input.personId"
+   * @param context - Variables available in the expression
+   * @returns Success status and the value, or the error
+   */
+  evaluateValue(expression: string, context: Record<string, unknown> = {}): { success: boolean; value?: unknown; error?: string } {
+    try {
+      return { success: true, value: this.evaluator.evaluate(this.parse(expression), context) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+  
+  /**
+   * Parse an expression into its AST, e.g. for translation into SQL
+   * @param expression - The expression string to parse
+   * @returns The root node; throws on syntax errors
+   */
+  parse(expression: string): ASTNode {
+    this.lexer = new ExpressionLexer(expression);
+    this.parser = new ExpressionParser(this.lexer.tokenize());
+    return this.parser.parse();
+  }
+  
   /**
    * Validate expression syntax without evaluating
    * @param expression - The expression string to validate
@@ -0,0 +1,195 @@
+// Expression to SQL translation - turns a parsed expression into a parameterized SQLite predicate
+//
+// The caller resolves identifiers into values that are known before the query
+// runs (bound as parameters, and folded away where possible), columns, or
+// ready-made predicates. Parts that cannot be translated are widened to TRUE,
+// or FALSE under a negation, so the predicate never drops a row the expression
+// would accept; the translation is then not exact and matching rows still need
+// to be checked with the evaluator.
+
+import { ASTNode, BinaryOpNode, CallNode, IdentifierNode, LiteralNode, SafeExpressionEvaluator, UnaryOpNode } from './parser.ts';
+
+export type SQLTerm =
+  | { kind: 'value'; value: unknown }
+  | { kind: 'column'; column: string }
+  | { kind: 'predicate'; sql: string; params: unknown[] }  // Never NULL
+  | { kind: 'unknown' };
+
+export type IdentifierResolver = (name: string) => SQLTerm;
+
+export interface SQLTranslation {
+  // A boolean when the expression holds for every row or for none
+  predicate: { sql: string; params: unknown[] } | boolean;
+  exact: boolean;
+}
+
+type Condition = { kind: 'value'; value: boolean } | { kind: 'predicate'; sql: string; params: unknown[] };
+
+const COMPARISON_OPERATORS = ['==', '!=', '>', '<', '>=', '<='];
+
+// Operator to use when the operands swap sides
+const MIRRORED: Record<string, string> = { '==': '==', '!=': '!=', '>': '<', '<': '>', '>=': '<=', '<=': '>=' };
+
+export class ExpressionSQLTranslator {
+  private evaluator = new SafeExpressionEvaluator();
+  private exact = true;
+
+  constructor(private resolve: IdentifierResolver) {}
+
+  translate(ast: ASTNode): SQLTranslation {
+    this.exact = true;
+    const condition = this.condition(ast, true);
+    
+    return {
+      predicate: condition.kind === 'value' ? condition.value : { sql: condition.sql, params: condition.params },
+      exact: this.exact,
+    };
+  }
+
+  /**
+   * A node used as a boolean. `positive` is false under an odd number of
+   * negations, which decides which way untranslatable parts are widened.
+   */
+  private condition(ast: ASTNode, positive: boolean): Condition {
+    if (ast.type === 'unary' && (ast as UnaryOpNode).operator === '!') {
+      const operand = this.condition((ast as UnaryOpNode).operand, !positive);
+      return operand.kind === 'value'
+        ? { kind: 'value', value: !operand.value }
+        : { kind: 'predicate', sql: `NOT ${operand.sql}`, params: operand.params };
+    }
+    
+    if (ast.type === 'binary' && ['&&', '||'].includes((ast as BinaryOpNode).operator)) {
+      return this.logical(ast as BinaryOpNode, positive);
+    }
+    
+    const term = this.term(ast);
+    switch (term.kind) {
+      case 'value':
+        return { kind: 'value', value: !!term.value };
+      case 'column':
+        // JavaScript truthiness: NULL, 0 and '' are false
+        return { kind: 'predicate', sql: `COALESCE(${term.column} NOT IN (0, ''), 0)`, params: [] };
+      case 'predicate':
+        return { kind: 'predicate', sql: `(${term.sql})`, params: term.params };
+      case 'unknown':
+        this.exact = false;
+        return { kind: 'value', value: positive };
+    }
+  }
+
+  private logical(ast: BinaryOpNode, positive: boolean): Condition {
+    const and = ast.operator === '&&';
+    const left = this.condition(ast.left, positive);
+    if (left.kind === 'value') {
+      return left.value === and ? this.condition(ast.right, positive) : left;
+    }
+    
+    const right = this.condition(ast.right, positive);
+    if (right.kind === 'value') {
+      return right.value === and ? left : right;
+    }
+    
+    return {
+      kind: 'predicate',
+      sql: `(${left.sql} ${and ? 'AND' : 'OR'} ${right.sql})`,
+      params: [...left.params, ...right.params],
+    };
+  }
+
+  /**
+   * A node used as an operand of a comparison
+   */
+  private term(ast: ASTNode): SQLTerm {
+    switch (ast.type) {
+      case 'literal':
+        return { kind: 'value', value: (ast as LiteralNode).value };
+      case 'identifier':
+        return this.resolve((ast as IdentifierNode).name);
+      case 'binary':
+        if (COMPARISON_OPERATORS.includes((ast as BinaryOpNode).operator)) {
+          const { operator, left, right } = ast as BinaryOpNode;
+          return this.comparison(operator, this.term(left), this.term(right));
+        }
+        break;
+      case 'call': {
+        // Functions of known values, such as now(), are called once before the query runs
+        const args = (ast as CallNode).args.map(arg => this.term(arg));
+        if (args.every(arg => arg.kind === 'value')) {
+          const node: CallNode = {
+            type: 'call',
+            name: (ast as CallNode).name,
+            args: args.map(arg => ({ type: 'literal', value: (arg as { value: unknown }).value }) as LiteralNode),
+          };
+          return { kind: 'value', value: this.evaluator.evaluate(node, {}) };
+        }
+        break;
+      }
+    }
+    
+    // Booleans compared with other values
+    return { kind: 'unknown' };
+  }
+
+  private comparison(operator: string, left: SQLTerm, right: SQLTerm): SQLTerm {
+    if (left.kind === 'value' && right.kind === 'value') {
+      const node: BinaryOpNode = {
+        type: 'binary',
+        operator,
+        left: { type: 'literal', value: left.value } as LiteralNode,
+        right: { type: 'literal', value: right.value } as LiteralNode,
+      };
+      return { kind: 'value', value: this.evaluator.evaluate(node, {}) };
+    }
+    
+    if (left.kind === 'value' && right.kind === 'column') {
+      return this.comparison(MIRRORED[operator], right, left);
+    }
+    if (left.kind !== 'column' || (right.kind !== 'column' && right.kind !== 'value')) {
+      return { kind: 'unknown' };
+    }
+    
+    const operand = right.kind === 'column'
+      ? { sql: right.column, params: [] }
+      : { sql: '?', params: [this.bindable(right.value)] };
+    
+    switch (operator) {
+      // IS compares NULLs like ==, where null and undefined are equal
+      case '==':
+        return { kind: 'predicate', sql: `${left.column} IS ${operand.sql}`, params: operand.params };
+      case '!=':
+        return { kind: 'predicate', sql: `${left.column} IS NOT ${operand.sql}`, params: operand.params };
+      default:
+        if (right.kind === 'value' && right.value == null) {
+          return { kind: 'unknown' };
+        }
+        // Compared with a number, null counts as 0
+        if (right.kind === 'value' && typeof right.value === 'number') {
+          return { kind: 'predicate', sql: `COALESCE(${left.column}, 0) ${operator} ?`, params: operand.params };
+        }
+        return { kind: 'predicate', sql: `COALESCE(${left.column} ${operator} ${operand.sql}, 0)`, params: operand.params };
+    }
+  }
+
+  // SQLite stores booleans as 0 and 1
+  private bindable(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  }
+}
+
+/**
+ * A translated predicate with its parameters written out as literals, so it can
+ * be embedded where bound parameters are not available
+ */
+export function inlineParams(clause: { sql: string; params: unknown[] }): string {
+  let index = 0;
+  return clause.sql.replace(/\?/g, () => sqlLiteral(clause.params[index++]));
+}
+
+export function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
@@ -1,5 +1,6 @@
 // Simple test file for SafeExpressionParser
 import { SafeExpressionParser } from './parser.ts';
+import { ExpressionSQLTranslator, SQLTerm } from './sql-translator.ts';
 
 function testExpressionParser() {
   const parser = new SafeExpressionParser();
@@ -45,7 +46,11 @@ function testExpressionParser() {
     { expr: 'priority == "high" && entity == "Task"', 
       context: { priority: 'high', entity: 'Task' }, expected: true },
     { expr: 'behavior == "completed" && data.status == "done"', 
-      context: { behavior: 'completed', data: { status: 'done' } }, expected: true }
+      context: { behavior: 'completed', data: { status: 'done' } }, expected: true },
+    
+    // Built-in functions
+    { expr: 'dueDate < now() && status != "done"', context: { dueDate: '2000-01-01', status: 'todo' }, expected: true },
+    { expr: 'dueDate > now()', context: { dueDate: null }, expected: false }
   ];
   
   let passed = 0;
@@ -72,8 +77,6 @@ function testExpressionParser() {
     }
   }
   
-  console.log(`\n📊 Results: ${passed} passed, ${failed} failed`);
-  
   // Test syntax validation
   console.log('\n🔍 Testing syntax validation...');
   
@@ -85,6 +88,9 @@ function testExpressionParser() {
     { expr: '(status == "active"', valid: false }, // Unmatched parentheses
     { expr: 'status == "active" &&', valid: false }, // Incomplete expression
     { expr: '', valid: false }, // Empty expression
+    { expr: 'dueDate < now()', valid: true },
+    { expr: 'dueDate < later()', valid: false }, // Unknown function
+    { expr: 'dueDate < now(', valid: false }, // Unclosed call
   ];
   
   for (const test of syntaxTests) {
@@ -96,6 +102,42 @@ function testExpressionParser() {
     }
   }
   
+  // Test translation into SQL predicates
+  console.log('\n🗄️  Testing SQL translation...');
+  
+  const resolve = (name: string): SQLTerm => {
+    if (name === 'user.id') return { kind: 'value', value: 'u1' };
+    if (name === 'user.role') return { kind: 'value', value: 'member' };
+    if (name === 'entity.status' || name === 'entity.ownerId') return { kind: 'column', column: name.slice(7) };
+    return { kind: 'unknown' };
+  };
+  
+  const translationTests = [
+    { expr: 'user.role == "admin" || user.id == entity.ownerId', predicate: { sql: '(ownerId IS ?)', params: ['u1'] }, exact: true },
+    { expr: 'user.role == "admin"', predicate: false, exact: true },
+    { expr: '!(entity.status != "done")', predicate: { sql: 'NOT (status IS NOT ?)', params: ['done'] }, exact: true },
+    { expr: 'entity.status == "open" && entity.tags == "x"', predicate: { sql: '(status IS ?)', params: ['open'] }, exact: false },
+    { expr: '!entity.tags', predicate: true, exact: false },
+    { expr: 'entity.status > now()', predicate: { sql: '(COALESCE(status > ?, 0))', params: ['<now>'] }, exact: true },
+  ];
+  
+  for (const test of translationTests) {
+    const result = new ExpressionSQLTranslator(resolve).translate(parser.parse(test.expr));
+    // now() is bound as the time of translation
+    if (typeof result.predicate === 'object') {
+      result.predicate.params = result.predicate.params.map(param => /^\d{4}-\d\d-\d\dT/.test(String(param)) ? '<now>' : param);
+    }
+    const ok = JSON.stringify(result) === JSON.stringify({ predicate: test.predicate, exact: test.exact });
+    console.log(`${ok ? '✅' : '❌'} SQL: "${test.expr}" => ${JSON.stringify(result)}`);
+    if (ok) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+  
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed`);
+  
   console.log('\n🎉 Expression parser testing complete!');
 }
 
@@ -1,38 +1,148 @@
-import { Hono } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
-import { AppDefinition, EntityDefinition } from '../types/index.ts';
+import { Context, Hono } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
+import { AppDefinition, EntityDefinition, EventData, StageExtension } from '../types/index.ts';
 import { 
   ResponseBuilder, 
-  DatabaseError, 
   EntityNotFoundError, 
   InvalidRequestDataError,
   PermissionError,
-  FrameworkError
+  ReferenceConflictError,
+  BulkOperationError,
+  PreconditionFailedError
 } from '../errors/index.ts';
 import { Generator, GeneratorError } from './types.ts';
+import { DatabaseClient, Operation, OperationDefinition, OperationPipeline, OPEN_PERMISSIONS, Permissions, Stage, APIStageSource } from './pipeline.ts';
 import { ValidationSchemaGenerator } from '../validation/schema-generator.ts';
 import { ValidationSchema } from '../validation/types.ts';
+import {
+  AggregateQueryBuilder,
+  APIHookRunner,
+  APIHookSource,
+  AuditAction,
+  AuditLog,
+  applyPatch,
+  assertBehaviorAllowed,
+  behaviorAssignments,
+  behaviorInputEntity,
+  bulkEvents,
+  BulkOp,
+  BulkOutcome,
+  BulkRequest,
+  ChangeContext,
+  changeEvent,
+  ChangeFeed,
+  changeSocket,
+  changeStream,
+  ChangeView,
+  ComputedFields,
+  diffRecords,
+  DELETED_AT_COLUMN,
+  exportColumns,
+  exportStream,
+  FieldAccessPolicy,
+  FieldChanges,
+  getETag,
+  getManyRelations,
+  getPatchFormat,
+  getQueryableRollups,
+  hasBehaviorInput,
+  idempotency,
+  IdempotencyStore,
+  ImportOptions,
+  ImportOutcome,
+  ImportRow,
+  IncludeNode,
+  importEvents,
+  IncludeParser,
+  isAudited,
+  isForeignKeyViolation,
+  isManyRelation,
+  isSoftDelete,
+  isVersioned,
+  JSON_PATCH_TYPE,
+  ListPagination,
+  ListQueryBuilder,
+  liveRecordFilter,
+  ManyRelationStore,
+  matchesIfMatch,
+  MERGE_PATCH_TYPE,
+  parseBulkRequest,
+  parseExportFormat,
+  parseImportFormat,
+  parseImportOptions,
+  parseLastEventId,
+  parseVersionNumber,
+  PatchFormat,
+  QueryableComputedField,
+  QueryExecutor,
+  readExportPages,
+  readImportRows,
+  readPermittedPage,
+  readSnapshot,
+  redactEntries,
+  ReferenceGuard,
+  RelationLoader,
+  runBulk,
+  runImport,
+  selectColumns,
+  serializeJsonFields,
+  splitManyRelations,
+  STREAM_CONTENT_TYPE,
+  toPatchDocument,
+  TRANSFER_CONTENT_TYPES,
+  TransferFormat,
+  VERSION_COLUMN,
+  VersionStore,
+} from '../query/index.ts';
+import { SQLTranslation } from '../expression/sql-translator.ts';
+import AuthMiddleware, { AuthContext } from '../../runtime/auth/middleware.ts';
+import PermissionEvaluator from '../../runtime/auth/permission-evaluator.ts';
 
-// Database interface that core expects (but doesn't implement)
-interface DatabaseClient {
-  execute(sql: string, params?: any[]): Promise<any>;
-  transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T>;
+// Where CRUD and behavior events go; the runtime's EventEmitter
+interface EventSink {
+  emit(event: string, data: EventData): Promise<void>;
 }
 
+/**
+ * REST routes for every entity. Each route runs one operation through the
+ * stages in ./pipeline.ts; with settings.auth.enabled callers are
+ * authenticated and the entity and field permissions apply to them.
+ */
 export class APIGenerator implements Generator<Hono> {
   private db: DatabaseClient | null = null;
-  private eventEmitter: any = null; // Will be injected
+  private eventEmitter: EventSink | null = null; // Will be injected
   private validationGenerator = new ValidationSchemaGenerator();
+  private authMiddleware: AuthMiddleware;
+  private permissionEvaluator: PermissionEvaluator;
+  private includeParser: IncludeParser;
+  private auditLog: AuditLog;
+  private versionStore: VersionStore;
+  private changeFeed: ChangeFeed;
+  private hooks = new APIHookRunner();
+  private extensions: (APIHookSource & APIStageSource) | null = null;
+  private pipeline: OperationPipeline | null = null;
 
-  constructor(private app: AppDefinition) {}
+  constructor(private app: AppDefinition) {
+    this.authMiddleware = new AuthMiddleware();
+    this.permissionEvaluator = new PermissionEvaluator();
+    this.includeParser = new IncludeParser(app);
+    this.auditLog = new AuditLog(app);
+    this.versionStore = new VersionStore(app);
+    this.changeFeed = new ChangeFeed(app, app.settings?.api?.changeRetention);
+  }
 
   setDatabase(database: DatabaseClient): void {
     this.db = database;
   }
 
-  setEventEmitter(eventEmitter: any): void {
+  setEventEmitter(eventEmitter: EventSink): void {
     this.eventEmitter = eventEmitter;
   }
 
+  setExtensionRegistry(registry: (APIHookSource & APIStageSource) | null): void {
+    this.hooks = new APIHookRunner(registry);
+    this.extensions = registry;
+  }
+
   async generate(): Promise<Hono> {
     console.log(`[APIGenerator] Generating API routes for ${Object.keys(this.app.entities || {}).length} entities`);
     
@@ -43,8 +153,47 @@ export class APIGenerator implements Generator<Hono> {
     if (!this.app.entities) {
       throw new GeneratorError('APIGenerator', 'No entities defined in app');
     }
+    
+    // Authentication is the only stage that depends on the settings
+    const authenticated = this.app.settings?.auth?.enabled === true;
+    this.pipeline = new OperationPipeline(
+      this.db,
+      this.extensions,
+      authenticated ? { authenticate: (state, next) => this.authenticate(state, next) } : {}
+    );
+    
     const api = new Hono();
-
+    
+    // A request's changes are streamed once it is over and they are committed
+    api.use('*', async (_c, next) => {
+      await next();
+      await this.changeFeed.publish(this.db!);
+    });
+    
+    // GET /_stream - WebSocket carrying the change feeds of the entities the caller subscribes to and may read
+    api.get('/_stream', async (c) => {
+      const requestId = crypto.randomUUID();
+      
+      if (c.req.header('upgrade')?.toLowerCase() !== 'websocket') {
+        const error = new InvalidRequestDataError('Upgrade', c.req.header('upgrade'), 'Expected a WebSocket upgrade', undefined, requestId);
+        return c.json(new ResponseBuilder(requestId).error(error), 400);
+      }
+      
+      const permissions = authenticated ? this.permissions(await this.caller(c)) : OPEN_PERMISSIONS;
+      const { socket, response } = Deno.upgradeWebSocket(c.req.raw);
+      changeSocket(socket, this.changeFeed, this.db!, (entityName, messageRequestId) => {
+        const entity = this.app.entities[entityName];
+        if (!entity) {
+          throw new InvalidRequestDataError('entity', entityName, 'Unknown entity', undefined, messageRequestId);
+        }
+        if (permissions.readFilter(entity, entityName.toLowerCase(), getQueryableRollups(this.app, entityName)).predicate === false) {
+          throw new PermissionError('read', entityName, undefined, undefined, messageRequestId);
+        }
+        return this.changeView(permissions, entityName, c);
+      });
+      return response;
+    });
+    
     // Generate routes for each entity
     for (const [entityName, entity] of Object.entries(this.app.entities)) {
       const router = this.generateEntityRoutes(entityName, entity);
@@ -57,216 +206,1251 @@ export class APIGenerator implements Generator<Hono> {
     return api;
   }
 
+
   private generateEntityRoutes(entityName: string, entity: EntityDefinition): Hono {
     const router = new Hono();
     const tableName = entityName.toLowerCase();
-
-    // GET /{entity} - List all
-    router.get('/', async (c) => {
-      const requestId = crypto.randomUUID();
-      const responseBuilder = new ResponseBuilder(requestId);
-      
-      try {
-        const limit = parseInt(c.req.query('limit') || '50');
-        const offset = parseInt(c.req.query('offset') || '0');
-        
-        const result = await this.db.execute(
-          `SELECT * FROM ${tableName} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
-          [limit, offset]
-        );
-        
-        const response = responseBuilder.success({
-          items: result.rows || [],
-          pagination: { limit, offset, total: result.rows?.length || 0 }
-        });
-        
-        return c.json(response);
-      } catch (error) {
-        const dbError = new DatabaseError('list', error instanceof Error ? error : undefined, undefined, tableName, requestId);
-        const response = responseBuilder.error(dbError);
-        return c.json(response, 500);
+    const listQueryBuilder = new ListQueryBuilder(tableName, entity);
+    const aggregateQueryBuilder = new AggregateQueryBuilder(tableName, entity);
+    const relationStore = new ManyRelationStore(this.app, this.db!);
+    const rollups = getQueryableRollups(this.app, entityName);
+    // Keeps soft-deleted records out of single-record lookups
+    const live = liveRecordFilter(entity);
+    // Computed fields are set on every record a route returns
+    const computed = new ComputedFields(entity);
+    const handle = <Input = unknown, Result = unknown>(definition: OperationDefinition<Input, Result>) => this.pipeline!.handler(entityName, entity, definition);
+    // Hidden, write-only and rule-guarded fields, as they apply to the caller
+    const access = (state: Operation) => this.fieldAccess(state.permissions, entity);
+    // Create, bulk and behavior requests may be retried with an Idempotency-Key
+    const idempotent: StageExtension[] = [{
+      name: 'idempotency',
+      stage: 'authenticate',
+      handler: idempotency(new IdempotencyStore(this.db!, this.app.settings?.api?.idempotencyTTL)),
+    }];
+    
+    // The caller's read rule as list query predicates. Parts of the rule that
+    // SQL could not express are left to a check per record unless `exact`.
+    const readRule = (state: Operation) => {
+      const filter = state.permissions.readFilter(entity, tableName, rollups);
+      if (filter.predicate === false) {
+        throw new PermissionError('read', entityName, state.auth.user?.id, undefined, state.requestId);
       }
-    });
-
-    // GET /{entity}/{id} - Get by ID
-    router.get('/:id', async (c) => {
-      const requestId = crypto.randomUUID();
-      const responseBuilder = new ResponseBuilder(requestId);
-      
-      try {
-        const id = c.req.param('id');
-        const result = await this.db.execute(
-          `SELECT * FROM ${tableName} WHERE id = ?`,
-          [id]
-        );
-        
-        if (!result.rows || result.rows.length === 0) {
-          const response = responseBuilder.notFound(entityName, id);
-          return c.json(response, 404);
-        }
-        
-        const response = responseBuilder.success(result.rows[0]);
-        return c.json(response);
-      } catch (error) {
-        const dbError = new DatabaseError('get', error instanceof Error ? error : undefined, undefined, tableName, requestId);
-        const response = responseBuilder.error(dbError);
-        return c.json(response, 500);
+      return { predicates: filter.predicate === true ? [] : [filter.predicate], exact: filter.exact };
+    };
+    
+    // Records in the trash, and stored records whether trashed or not
+    const trashed = async (state: Operation) => (await state.tx!.execute(
+      `SELECT ${selectColumns(this.app, entityName)} FROM ${tableName} WHERE id = ? AND ${DELETED_AT_COLUMN} IS NOT NULL`,
+      [state.id]
+    )).rows?.[0] ?? null;
+    const stored = async (state: Operation) => (await state.tx!.execute(
+      `SELECT ${selectColumns(this.app, entityName)} FROM ${tableName} WHERE id = ?`,
+      [state.id]
+    )).rows?.[0] ?? null;
+    const storedRow = (state: Operation) => this.findStoredRecord(entityName, state.id!);
+    
+    const recordParams = (state: Operation) => {
+      state.id = state.c.req.param('id');
+      state.ifMatch = state.c.req.header('if-match');
+    };
+    const withLinks = (state: Operation) => new ManyRelationStore(this.app, state.tx!).attach(entityName, [state.record!]);
+    const checkIfMatch = (state: Operation) =>
+      this.assertIfMatch(state.tx!, entityName, state.record!, state.ifMatch, access(state), state.requestId);
+    
+    // Values to replace a record with: `document`, except for fields the caller
+    // may not change, or could not see, which keep their stored values
+    const replacement = async (state: Operation, document: Record<string, unknown>) => {
+      const data = await this.validateAndSanitizeInput(access(state).withProtectedValues(document, state.record!), entity);
+      // Ownership survives replacement
+      if (this.hasOwnershipField(entity)) {
+        data.createdBy = state.record!.createdBy;
+      }
+      return data;
+    };
+    
+    // Stages shared by several operations
+    
+    const parseRecord: Stage = (state, next) => {
+      recordParams(state);
+      return next();
+    };
+    const mayList: Stage = (state, next) => {
+      readRule(state);
+      return next();
+    };
+    const may = (action: string, find?: (state: Operation) => Promise<Record<string, unknown> | null>): Stage => async (state, next) => {
+      this.assertAllowed(state, await this.target(state, find), action);
+      await next();
+    };
+    const ifMatches: Stage = async (state, next) => {
+      await checkIfMatch(state);
+      await next();
+    };
+    const replace: Stage<unknown, Record<string, unknown>> = async (state, next) => {
+      await this.replaceRecord(state.tx!, entityName, entity, state.id!, state.data!, this.changeContext(state));
+      state.result = (await this.findRecord(entityName, state.id!, state.tx))!;
+      await next();
+    };
+    const writtenRecord = (status: 200 | 201): Stage<unknown, Record<string, unknown>> => async (state, next) => {
+      const record = state.result!;
+      await relationStore.attach(entityName, [record]);
+      computed.attach([record]);
+      state.c.header('ETag', getETag(record));
+      const [data] = await this.hooks.afterRead(entityName, [access(state).redact(record)], state.c);
+      state.response = state.c.json(state.responses.success(data), status);
+      await next();
+    };
+    // Announces a committed single-record write the way bulk requests and imports do
+    const emitted = (op: BulkOp): Stage<unknown, Record<string, unknown>> => async (state, next) => {
+      if (this.eventEmitter) {
+        const record = state.result!;
+        const { event, data } = changeEvent(entityName, op, state.id ?? String(record.id), access(state).redact(record));
+        await this.eventEmitter.emit(event, { ...data, user: state.auth.user?.id });
       }
+      await next();
+    };
+    const message = (text: string): Stage => (state, next) => {
+      state.response = state.c.json(state.responses.success({ message: text }));
+      return next();
+    };
+    
+    // A body that is not JSON is the client's mistake, not a server error
+    const readJson = (state: Operation) => state.c.req.json().catch(() => {
+      throw new InvalidRequestDataError('body', undefined, 'Expected a JSON body', undefined, state.requestId);
     });
+    const referenced = (error: unknown, state: Operation) => isForeignKeyViolation(error)
+      ? new ReferenceConflictError(entityName, state.id!, [], state.requestId)
+      : undefined;
 
-    // POST /{entity} - Create new
-    router.post('/', async (c) => {
-      try {
-        const body = await c.req.json();
-        const data = await this.validateAndSanitizeInput(body, entity);
-        
-        // Add default values for fields not provided
-        for (const [fieldName, field] of Object.entries(entity.fields)) {
-          if (['id', 'created_at', 'updated_at', 'createdAt', 'updatedAt'].includes(fieldName)) continue;
-          if (data[fieldName] === undefined && field.default !== undefined && field.default !== 'auto' && field.default !== 'now') {
-            data[fieldName] = field.default;
+    // GET /{entity} - List all; GET /{entity}/_trash lists soft-deleted records
+    const list = (trash: boolean): OperationDefinition<{ includes: IncludeNode[] }, { items: Record<string, unknown>[]; pagination: ListPagination }> => ({
+      operation: trash ? 'trash' : 'list',
+      stages: {
+        parse: (state, next) => {
+          state.input = { includes: this.includeParser.parse(state.c.req.query('include'), entityName, state.requestId) };
+          return next();
+        },
+        authorize: mayList,
+        hooks: this.hookStage('read'),
+        persist: async (state, next) => {
+          // The read rule becomes part of the query, so pages and totals only
+          // count records the caller may see
+          const { predicates, exact } = readRule(state);
+          const queries = state.c.req.queries();
+          
+          // Filters, sort, offset/cursor paging (see core/query)
+          const listQuery = listQueryBuilder.build(queries, { requestId: state.requestId, predicates, trash, rollups });
+          
+          let page;
+          if (exact) {
+            const result = await this.db!.execute(listQuery.select.sql, listQuery.select.params);
+            const count = await this.db!.execute(listQuery.count.sql, listQuery.count.params);
+            page = listQueryBuilder.paginate(listQuery, result.rows || [], Number(count.rows?.[0]?.total || 0));
+          } else {
+            // Parts of the rule that SQL could not express are checked per
+            // record while paging, so pages stay full and cursors skip the
+            // records that fail. There is no total, which would take them all.
+            const rows = await readPermittedPage(this.db!, listQuery, (record) => state.permissions.can(entity, record, 'read'));
+            page = listQueryBuilder.paginate(listQuery, rows, null);
           }
-        }
-        
-        // Filter out undefined values
-        const cleanData = Object.fromEntries(
-          Object.entries(data).filter(([_, value]) => value !== undefined)
-        );
-        
-        const fields = Object.keys(cleanData);
-        const values = Object.values(cleanData);
-        const placeholders = fields.map(() => '?').join(', ');
-        
-        console.log('Debug - Creating record:', { tableName, fields, values, cleanData });
-        
-        const result = await this.db.execute(
-          `INSERT INTO ${tableName} (${fields.join(', ')}) VALUES (${placeholders})`,
-          values
-        );
-        
-        // Return success message since we can't easily get the created record
-        return c.json({ 
-          message: 'Record created successfully',
-          changes: result.changes 
-        }, 201);
-      } catch (error) {
-        console.error(`Error creating ${entityName}:`, error);
-        return c.json({ error: error.message || 'Failed to create record' }, 400);
-      }
+          const items = page.items;
+          
+          // Many relations as id lists, then embed related records the caller may read
+          await relationStore.attach(entityName, items);
+          computed.attach(items);
+          await this.createRelationLoader(state.permissions, state.c).expand(entityName, items, state.input!.includes);
+          
+          state.result = { items: access(state).redactAll(items), pagination: page.pagination };
+          await next();
+        },
+      },
     });
+    
+    router.get('/', handle(list(false)));
+    if (isSoftDelete(entity)) {
+      router.get('/_trash', handle(list(true)));
+    }
+    
+    // GET /{entity}/_aggregate - Grouped statistics over the records the caller may read
+    router.get('/_aggregate', handle({
+      operation: 'aggregate',
+      stages: {
+        authorize: mayList,
+        persist: async (state, next) => {
+          const { predicates, exact } = readRule(state);
+          // Statistics are computed in SQL, so a rule that has to be checked
+          // per record would mean reading every record first
+          if (!exact) {
+            throw new PermissionError('aggregate', entityName, state.auth.user?.id, 'read', state.requestId);
+          }
+          
+          const aggregateQuery = aggregateQueryBuilder.build(state.c.req.queries(), { requestId: state.requestId, predicates, rollups });
+          const result = await this.db!.execute(aggregateQuery.select.sql, aggregateQuery.select.params);
+          state.result = { groups: aggregateQueryBuilder.format(aggregateQuery, result.rows || []) };
+          await next();
+        },
+      },
+    }));
+    
+    // GET /{entity}/_export - Every matching record the caller may read, e.g. ?format=csv&status=done
+    router.get('/_export', handle<TransferFormat, AsyncIterable<Record<string, unknown>[]>>({
+      operation: 'export',
+      stages: {
+        parse: (state, next) => {
+          state.input = parseExportFormat(state.c.req.query('format'), state.requestId);
+          return next();
+        },
+        authorize: mayList,
+        persist: async (state, next) => {
+          const { predicates, exact } = readRule(state);
+          const options = { requestId: state.requestId, predicates, rollups };
+          state.result = await readExportPages(this.db!, listQueryBuilder, state.c.req.queries(), options, async (records) => {
+            const permitted = exact ? records : records.filter((record) => state.permissions.can(entity, record, 'read'));
+            await relationStore.attach(entityName, permitted);
+            computed.attach(permitted);
+            return this.hooks.afterRead(entityName, access(state).redactAll(permitted), state.c);
+          });
+          await next();
+        },
+        serialize: (state, next) => {
+          state.response = state.c.body(exportStream(state.input!, exportColumns(this.app, entityName), state.result!), 200, {
+            'Content-Type': TRANSFER_CONTENT_TYPES[state.input!],
+            'Content-Disposition': `attachment; filename="${tableName}s.${state.input}"`,
+          });
+          return next();
+        },
+      },
+    }));
+    
+    // GET /{entity}/_stream - Server-Sent Events for changes to records the caller may read, resumed after Last-Event-ID
+    router.get('/_stream', handle<number | null>({
+      operation: 'stream',
+      stages: {
+        parse: (state, next) => {
+          state.input = parseLastEventId(state.c.req.header('Last-Event-ID') ?? state.c.req.query('lastEventId'), state.requestId);
+          return next();
+        },
+        authorize: mayList,
+        serialize: (state, next) => {
+          const view = this.changeView(state.permissions, entityName, state.c);
+          state.response = state.c.body(changeStream(this.changeFeed, this.db!, entityName, state.input ?? null, view), 200, {
+            'Content-Type': STREAM_CONTENT_TYPE,
+            'Cache-Control': 'no-cache',
+          });
+          return next();
+        },
+      },
+    }));
+    
+    // GET /{entity}/{id} - Get by ID
+    router.get('/:id', handle<{ includes: IncludeNode[] }>({
+      operation: 'get',
+      stages: {
+        parse: (state, next) => {
+          recordParams(state);
+          state.input = { includes: this.includeParser.parse(state.c.req.query('include'), entityName, state.requestId) };
+          return next();
+        },
+        authorize: may('read'),
+        hooks: this.hookStage('read'),
+        persist: async (state, next) => {
+          const item = await this.target(state);
+          await relationStore.attach(entityName, [item]);
+          computed.attach([item]);
+          await this.createRelationLoader(state.permissions, state.c).expand(entityName, [item], state.input!.includes);
+          state.result = access(state).redact(item);
+          await next();
+        },
+        serialize: (state, next) => {
+          state.c.header('ETag', getETag(state.record!));
+          state.response = state.c.json(state.responses.success(state.result));
+          return next();
+        },
+      },
+    }));
+    
+    // POST /{entity} - Create new; bulk and import requests create records the same way
+    const create: OperationDefinition<Record<string, unknown>, Record<string, unknown>> = {
+      operation: 'create',
+      transactional: true,
+      inserted: idempotent,
+      stages: {
+        parse: async (state, next) => {
+          state.input = await readJson(state);
+          await next();
+        },
+        authorize: (state, next) => {
+          this.assertAllowed(state, null, 'create');
+          return next();
+        },
+        validate: async (state, next) => {
+          const data = await this.validateAndSanitizeInput(access(state).restrictInput(state.input!, null), entity);
+          // Records remember who created them
+          if (state.auth.user && this.hasOwnershipField(entity)) {
+            data.createdBy = state.auth.user.id;
+          }
+          state.data = data;
+          await next();
+        },
+        hooks: this.hookStage('create'),
+        persist: async (state, next) => {
+          state.result = await this.insertRecord(state.tx!, entityName, entity, state.data!, this.changeContext(state));
+          await next();
+        },
+        emit: emitted('create'),
+        serialize: writtenRecord(201),
+      },
+    };
+    router.post('/', handle(create));
+    
+    // One update of a bulk or import request; fields left out keep their values
+    const update: OperationDefinition<Record<string, unknown>, Record<string, unknown>> = {
+      operation: 'update',
+      stages: {
+        authorize: may('update'),
+        validate: async (state, next) => {
+          const data = await this.validateAndSanitizeInput(access(state).restrictInput(state.input!, state.record!), entity, true);
+          // Updates cannot hand a record to someone else
+          if (this.hasOwnershipField(entity)) {
+            data.createdBy = state.record!.createdBy;
+          }
+          state.data = data;
+          await next();
+        },
+        hooks: this.hookStage('update'),
+        persist: async (state, next) => {
+          await this.updateRecord(state.tx!, entityName, entity, state.id!, state.data!, this.changeContext(state));
+          state.result = (await this.findRecord(entityName, state.id!, state.tx))!;
+          await next();
+        },
+      },
+    };
+    
+    // DELETE /{entity}/{id} - Delete; bulk requests delete records the same way
+    const remove: OperationDefinition<unknown, Record<string, unknown>> = {
+      operation: 'delete',
+      transactional: true,
+      stages: {
+        parse: parseRecord,
+        authorize: may('delete'),
+        validate: ifMatches,
+        hooks: this.hookStage('delete'),
+        persist: async (state, next) => {
+          await this.deleteRecord(state.tx!, entityName, state.id!, this.changeContext(state));
+          state.result = state.record!;
+          await next();
+        },
+        emit: emitted('delete'),
+        serialize: message('Record deleted successfully'),
+      },
+      failure: referenced,
+    };
 
-    // PUT /{entity}/{id} - Update
-    router.put('/:id', async (c) => {
-      try {
-        const id = c.req.param('id');
-        const body = await c.req.json();
-        const data = await this.validateAndSanitizeInput(body, entity, true);
-        
-        const fields = Object.keys(data);
-        const values = Object.values(data);
-        const setClause = fields.map(field => `${field} = ?`).join(', ');
-        
-        await this.db.execute(
-          `UPDATE ${tableName} SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-          [...values, id]
-        );
-        
-        // Fetch the updated record
-        const updated = await this.db.execute(
-          `SELECT * FROM ${tableName} WHERE id = ?`,
-          [id]
-        );
-        
-        if (!updated.rows || updated.rows.length === 0) {
-          return c.json({ error: 'Record not found' }, 404);
-        }
-        
-        return c.json({ data: updated.rows[0] });
-      } catch (error) {
-        console.error(`Error updating ${entityName}:`, error);
-        return c.json({ error: error.message || 'Failed to update record' }, 400);
-      }
-    });
+    // POST /{entity}/_bulk - Creates, updates and deletes in one transaction,
+    // each run through the same stages as its single-record route
+    router.post('/_bulk', handle<BulkRequest, BulkOutcome>({
+      operation: 'bulk',
+      inserted: idempotent,
+      stages: {
+        parse: async (state, next) => {
+          state.input = parseBulkRequest(await readJson(state), state.requestId);
+          await next();
+        },
+        persist: async (state, next) => {
+          const outcome = await runBulk(this.db!, state.input!, {
+            create: (tx, input) => this.pipeline!.runItem(state, create, tx, { input }),
+            update: (tx, id, input) => this.pipeline!.runItem(state, update, tx, { id, input }),
+            delete: (tx, id) => this.pipeline!.runItem(state, remove, tx, { id }),
+          });
+          
+          if (!outcome.committed) {
+            throw new BulkOperationError(entityName, outcome.summary.failed, outcome.results.length, outcome.results, state.requestId);
+          }
+          
+          const written = outcome.results.filter(result => result.op !== 'delete' && result.data).map(result => result.data!);
+          await relationStore.attach(entityName, written);
+          computed.attach(written);
+          for (const result of outcome.results) {
+            if (result.data) [result.data] = await this.hooks.afterRead(entityName, [access(state).redact(result.data)], state.c);
+          }
+          state.result = outcome;
+          await next();
+        },
+        emit: async (state, next) => {
+          if (this.eventEmitter) {
+            for (const { event, data } of bulkEvents(entityName, state.result!)) {
+              await this.eventEmitter.emit(event, { ...data, user: state.auth.user?.id });
+            }
+          }
+          await next();
+        },
+      },
+    }));
+    
+    // POST /{entity}/_import - Load CSV, NDJSON or JSON rows, e.g. ?upsert=email&dryRun=true
+    router.post('/_import', handle<{ options: ImportOptions; rows: AsyncIterable<ImportRow> }, ImportOutcome>({
+      operation: 'import',
+      stages: {
+        parse: (state, next) => {
+          const format = parseImportFormat(state.c.req.query('format'), state.c.req.header('Content-Type'), state.requestId);
+          state.input = {
+            options: parseImportOptions({ dryRun: state.c.req.query('dryRun'), upsert: state.c.req.query('upsert') }, entity, state.requestId),
+            rows: readImportRows(state.c.req.raw.body, format, entity, state.requestId),
+          };
+          return next();
+        },
+        persist: async (state, next) => {
+          // Rows go through the same stages as single creates and bulk updates
+          state.result = await runImport(this.db!, state.input!.rows, state.input!.options, {
+            find: async (tx, field, value) => {
+              const existing = await tx.execute(`SELECT ${selectColumns(this.app, entityName)} FROM ${tableName} WHERE ${field} = ?${live}`, [value]);
+              return existing.rows?.[0] ?? null;
+            },
+            create: (tx, input) => this.pipeline!.runItem(state, create, tx, { input }),
+            update: (tx, existing, input) => this.pipeline!.runItem(state, update, tx, { id: String(existing.id), record: existing, input }),
+          }, state.requestId);
+          await next();
+        },
+        emit: async (state, next) => {
+          if (this.eventEmitter) {
+            const records = state.result!.changes.map(change => ({ ...change, record: access(state).redact(change.record) }));
+            for (const { event, data } of importEvents(entityName, records)) {
+              await this.eventEmitter.emit(event, { ...data, user: state.auth.user?.id });
+            }
+          }
+          await next();
+        },
+        serialize: (state, next) => {
+          state.response = state.c.json(state.responses.success(state.result!.report));
+          return next();
+        },
+      },
+    }));
 
-    // DELETE /{entity}/{id} - Delete
-    router.delete('/:id', async (c) => {
-      try {
-        const id = c.req.param('id');
-        
-        const result = await this.db.execute(
-          `DELETE FROM ${tableName} WHERE id = ?`,
-          [id]
-        );
-        
-        if (result.changes === 0) {
-          return c.json({ error: 'Record not found' }, 404);
-        }
-        
-        return c.json({ message: 'Record deleted successfully' });
-      } catch (error) {
-        console.error(`Error deleting ${entityName}:`, error);
-        return c.json({ error: 'Failed to delete record' }, 500);
-      }
-    });
+    // PUT /{entity}/{id} - Replace; fields left out are cleared or reset to their default
+    router.put('/:id', handle<Record<string, unknown>, Record<string, unknown>>({
+      operation: 'replace',
+      transactional: true,
+      stages: {
+        parse: async (state, next) => {
+          recordParams(state);
+          state.input = await readJson(state);
+          await next();
+        },
+        authorize: may('update'),
+        validate: async (state, next) => {
+          await checkIfMatch(state);
+          await withLinks(state);
+          state.data = await replacement(state, state.input!);
+          await next();
+        },
+        hooks: this.hookStage('update'),
+        persist: replace,
+        emit: emitted('update'),
+        serialize: writtenRecord(200),
+      },
+    }));
 
-    // Generate behavior endpoints
-    if (entity.behaviors) {
-      for (const [behaviorName, behavior] of Object.entries(entity.behaviors)) {
-        router.post(`/:id/${behaviorName}`, async (c) => {
-          try {
-            const id = c.req.param('id');
+    // PATCH /{entity}/{id} - Partial update from a merge patch or JSON Patch
+    router.patch('/:id', handle<{ format: PatchFormat; patch: unknown }, Record<string, unknown>>({
+      operation: 'patch',
+      transactional: true,
+      stages: {
+        parse: async (state, next) => {
+          recordParams(state);
+          const format = getPatchFormat(state.c.req.header('content-type'));
+          if (!format) {
+            const error = new InvalidRequestDataError(
+              'Content-Type',
+              state.c.req.header('content-type'),
+              `Send ${MERGE_PATCH_TYPE} or ${JSON_PATCH_TYPE}`,
+              undefined,
+              state.requestId
+            );
+            state.response = state.c.json(state.responses.error(error), 415);
+            return;
+          }
+          state.input = { format, patch: await readJson(state) };
+          await next();
+        },
+        authorize: may('update'),
+        validate: async (state, next) => {
+          await checkIfMatch(state);
+          
+          // The patched document is validated and stored like a PUT body.
+          // Patches only see, and can only copy or test, fields the caller may read.
+          await withLinks(state);
+          const document = access(state).redact(toPatchDocument(entity, state.record!), state.record!);
+          state.data = await replacement(state, applyPatch(state.input!.format, document, state.input!.patch, state.requestId));
+          await next();
+        },
+        hooks: this.hookStage('update'),
+        persist: replace,
+        emit: emitted('update'),
+        serialize: writtenRecord(200),
+      },
+    }));
+
+    router.delete('/:id', handle(remove));
+
+    if (isSoftDelete(entity)) {
+      // POST /{entity}/{id}/restore - Take a record back out of the trash
+      router.post('/:id/restore', handle<unknown, Record<string, unknown>>({
+        operation: 'restore',
+        transactional: true,
+        stages: {
+          parse: parseRecord,
+          authorize: may('restore', trashed),
+          validate: ifMatches,
+          persist: async (state, next) => {
+            // Taken while the record is still in the trash
+            const before = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            await state.tx!.execute(`UPDATE ${tableName} SET ${DELETED_AT_COLUMN} = NULL WHERE id = ?`, [state.id]);
+            const after = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            await this.recordChange(state.tx!, entityName, state.id!, 'restore', before, after, this.changeContext(state));
+            state.result = (await this.findRecord(entityName, state.id!, state.tx))!;
+            await next();
+          },
+          serialize: writtenRecord(200),
+        },
+      }));
+      
+      // DELETE /{entity}/{id}/purge - Remove a record for good, whether trashed or not
+      router.delete('/:id/purge', handle({
+        operation: 'purge',
+        transactional: true,
+        stages: {
+          parse: parseRecord,
+          authorize: may('purge', stored),
+          validate: ifMatches,
+          hooks: this.hookStage('delete'),
+          persist: async (state, next) => {
+            await this.purgeRecord(state.tx!, entityName, state.id!, this.changeContext(state));
+            state.result = state.record;
+            await next();
+          },
+          serialize: message('Record permanently deleted'),
+        },
+        failure: referenced,
+      }));
+    }
+    
+    if (isAudited(entity)) {
+      // GET /{entity}/{id}/history - Audit entries for a record, newest first
+      router.get('/:id/history', handle({
+        operation: 'history',
+        stages: {
+          parse: parseRecord,
+          authorize: may('read', storedRow),
+          persist: async (state, next) => {
+            const history = await this.auditLog.history(this.db!, entityName, state.id!, state.c.req.query(), state.requestId);
+            const items = redactEntries(history.items, access(state), state.record!);
+            for (const item of items) {
+              item.changes = await this.hooks.afterReadChanges(entityName, state.id!, item.changes, state.c);
+            }
+            state.result = { ...history, items };
+            await next();
+          },
+        },
+      }));
+    }
+    
+    if (isVersioned(entity)) {
+      // GET /{entity}/{id}/versions - Snapshots of a record, newest first
+      router.get('/:id/versions', handle({
+        operation: 'versions',
+        stages: {
+          parse: parseRecord,
+          authorize: may('read', storedRow),
+          persist: async (state, next) => {
+            state.result = await this.versionStore.list(this.db!, entityName, state.id!, state.c.req.query(), state.requestId);
+            await next();
+          },
+        },
+      }));
+      
+      // GET /{entity}/{id}/versions/{n} - One snapshot with its data
+      router.get('/:id/versions/:n', handle<number>({
+        operation: 'version',
+        stages: {
+          parse: (state, next) => {
+            recordParams(state);
+            state.input = parseVersionNumber('version', state.c.req.param('n'), state.requestId);
+            return next();
+          },
+          authorize: may('read', storedRow),
+          persist: async (state, next) => {
+            const version = await this.versionStore.get(this.db!, entityName, state.id!, state.input!);
+            if (!version) {
+              throw new EntityNotFoundError(`${entityName} version`, `${state.id}@${state.input}`, undefined, state.requestId);
+            }
             
-            // Apply modifications
-            if (behavior.fields) {
-              const fields = Object.keys(behavior.fields);
-              const values = Object.values(behavior.fields).map(value => 
-                value === 'now' ? new Date().toISOString() : value
-              );
-              const setClause = fields.map(field => `${field} = ?`).join(', ');
-              
-              await this.db.execute(
-                `UPDATE ${tableName} SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-                [...values, id]
-              );
+            // Field rules are checked against the record as it is now
+            const data = version.data && (await this.hooks.afterRead(entityName, [access(state).redact(version.data, state.record!)], state.c))[0];
+            state.result = { ...version, data };
+            await next();
+          },
+        },
+      }));
+      
+      // GET /{entity}/{id}/versions/{from}/diff/{to} - Fields that differ between two snapshots
+      router.get('/:id/versions/:from/diff/:to', handle<{ from: number; to: number }>({
+        operation: 'diff',
+        stages: {
+          parse: (state, next) => {
+            recordParams(state);
+            state.input = {
+              from: parseVersionNumber('from', state.c.req.param('from'), state.requestId),
+              to: parseVersionNumber('to', state.c.req.param('to'), state.requestId),
+            };
+            return next();
+          },
+          authorize: may('read', storedRow),
+          persist: async (state, next) => {
+            const { from, to } = state.input!;
+            const [older, newer] = await Promise.all([from, to].map(number => this.versionStore.get(this.db!, entityName, state.id!, number)));
+            if (!older || !newer) {
+              throw new EntityNotFoundError(`${entityName} version`, `${state.id}@${older ? to : from}`, undefined, state.requestId);
             }
             
-            // Fetch updated record
-            const updated = await this.db.execute(
-              `SELECT * FROM ${tableName} WHERE id = ?`,
-              [id]
-            );
+            const changes = access(state).redact(diffRecords(entity, older.data ?? null, newer.data ?? null), state.record!) as FieldChanges;
+            state.result = { from, to, changes: await this.hooks.afterReadChanges(entityName, state.id!, changes, state.c) };
+            await next();
+          },
+        },
+      }));
+      
+      // POST /{entity}/{id}/versions/{n}/restore - Roll a record back to a snapshot
+      router.post('/:id/versions/:n/restore', handle<number, Record<string, unknown>>({
+        operation: 'rollback',
+        transactional: true,
+        stages: {
+          parse: (state, next) => {
+            recordParams(state);
+            state.input = parseVersionNumber('version', state.c.req.param('n'), state.requestId);
+            return next();
+          },
+          // Rolling back is an update like any other
+          authorize: may('update'),
+          validate: async (state, next) => {
+            const version = await this.versionStore.get(state.tx!, entityName, state.id!, state.input!);
+            if (!version) {
+              throw new EntityNotFoundError(`${entityName} version`, `${state.id}@${state.input}`, undefined, state.requestId);
+            }
+            if (!version.data) {
+              throw new InvalidRequestDataError('version', state.input, 'This version has no data to restore', undefined, state.requestId);
+            }
+            
+            await checkIfMatch(state);
+            
+            // The snapshot is validated and stored like a PUT body
+            await withLinks(state);
+            state.data = await replacement(state, toPatchDocument(entity, version.data));
+            await next();
+          },
+          persist: async (state, next) => {
+            const change = { ...this.changeContext(state), restoredFrom: state.input };
+            await this.replaceRecord(state.tx!, entityName, entity, state.id!, state.data!, change);
+            state.result = (await this.findRecord(entityName, state.id!, state.tx))!;
+            await next();
+          },
+          serialize: writtenRecord(200),
+        },
+        }));
+    }
+    
+    // Many relation sub-routes: list, link and unlink related records
+    for (const [fieldName, relation] of getManyRelations(entity)) {
+      const targetEntity = this.app.entities[relation.to];
+      const links = async (state: Operation, counts: Record<string, number>) => {
+        const linked = (await relationStore.links(entityName, fieldName, [state.id!])).get(state.id!) || [];
+        state.response = state.c.json(state.responses.success({ [fieldName]: linked, ...counts }));
+      };
+      
+      // GET /{entity}/{id}/{relation} - Related records the caller may read
+      router.get(`/:id/${fieldName}`, handle({
+        operation: 'related',
+        stages: {
+          parse: parseRecord,
+          authorize: may('read'),
+          persist: async (state, next) => {
+            const items = (await relationStore.related(entityName, fieldName, state.id!))
+              .filter(linked => !targetEntity || state.permissions.can(targetEntity, linked, 'read'));
+            const redacted = targetEntity ? this.fieldAccess(state.permissions, targetEntity).redactAll(items) : items;
+            state.result = { items: await this.hooks.afterRead(relation.to, redacted, state.c) };
+            await next();
+          },
+        },
+      }));
+      
+      // POST /{entity}/{id}/{relation} - Link records, body: { ids: [...] }
+      router.post(`/:id/${fieldName}`, handle<string[], number>({
+        operation: 'link',
+        transactional: true,
+        stages: {
+          parse: async (state, next) => {
+            recordParams(state);
+            const body = await readJson(state);
+            const ids = body?.ids ?? (body?.id !== undefined ? [body.id] : undefined);
             
+            if (!Array.isArray(ids) || ids.length === 0 || ids.some(value => typeof value !== 'string' || value === '')) {
+              throw new InvalidRequestDataError('ids', ids, 'Expected a non-empty array of ids', undefined, state.requestId);
+            }
+            state.input = ids;
+            await next();
+          },
+          // Linking changes the owning record
+          authorize: may('update'),
+          persist: async (state, next) => {
+            const before = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            state.result = await new ManyRelationStore(this.app, state.tx!).add(entityName, state.id!, fieldName, state.input!, state.requestId);
+            const after = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            await this.recordChange(state.tx!, entityName, state.id!, 'update', before, after, this.changeContext(state));
+            await next();
+          },
+          serialize: async (state, next) => {
+            await links(state, { added: state.result! });
+            await next();
+          },
+        },
+      }));
+      
+      // DELETE /{entity}/{id}/{relation}/{targetId} - Unlink a record
+      router.delete(`/:id/${fieldName}/:targetId`, handle<string, number>({
+        operation: 'unlink',
+        transactional: true,
+        stages: {
+          parse: (state, next) => {
+            recordParams(state);
+            state.input = state.c.req.param('targetId');
+            return next();
+          },
+          authorize: may('update'),
+          persist: async (state, next) => {
+            const before = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            state.result = await new ManyRelationStore(this.app, state.tx!).remove(entityName, state.id!, fieldName, [state.input!]);
+            if (state.result === 0) {
+              throw new EntityNotFoundError(relation.to, state.input!, undefined, state.requestId);
+            }
+            const after = await this.auditLog.snapshot(state.tx!, entityName, state.id!);
+            await this.recordChange(state.tx!, entityName, state.id!, 'update', before, after, this.changeContext(state));
+            await next();
+          },
+          serialize: async (state, next) => {
+            await links(state, { removed: state.result! });
+            await next();
+          },
+        },
+      }));
+    }
+
+    // Generate behavior endpoints
+    if (entity.behaviors) {
+      for (const [behaviorName, behavior] of Object.entries(entity.behaviors)) {
+        router.post(`/:id/${behaviorName}`, handle<Record<string, unknown>, Record<string, unknown>>({
+          operation: 'behavior',
+          behavior: behaviorName,
+          transactional: true,
+          inserted: idempotent,
+          stages: {
+            parse: async (state, next) => {
+              recordParams(state);
+              state.input = hasBehaviorInput(behavior) ? await state.c.req.json().catch(() => ({})) : {};
+              await next();
+            },
+            // Behaviors change the record, so they need update permission
+            authorize: may('update'),
+            validate: async (state, next) => {
+              if (hasBehaviorInput(behavior)) {
+                state.input = await this.validateAndSanitizeInput(state.input!, behaviorInputEntity(behavior));
+              }
+              await checkIfMatch(state);
+              
+              // requires and guard see the record as it is inside the transaction
+              const scope = {
+                ...this.permissionEvaluator.buildEvaluationContext(PermissionEvaluator.createContext(state.auth, state.record!, behaviorName)),
+                entity: state.record!,
+                input: state.input!,
+              };
+              assertBehaviorAllowed(entityName, behaviorName, behavior, scope, state.requestId);
+              state.data = behaviorAssignments(behaviorName, behavior, scope, state.requestId);
+              await next();
+            },
+            persist: async (state, next) => {
+              const tx = state.tx!;
+              const before = await this.auditLog.snapshot(tx, entityName, state.id!);
+              if (Object.keys(state.data!).length > 0) {
+                const setClause = Object.keys(state.data!).map(field => `${field} = ?`).join(', ');
+                
+                await tx.execute(
+                  `UPDATE ${tableName} SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = ?${live}`,
+                  [...Object.values(state.data!), state.id]
+                );
+              }
+              const after = await this.auditLog.snapshot(tx, entityName, state.id!);
+              await this.recordChange(tx, entityName, state.id!, 'update', before, after, this.changeContext(state));
+              
+              const record = (await this.findRecord(entityName, state.id!, tx))!;
+              await relationStore.attach(entityName, [record]);
+              computed.attach([record]);
+              state.result = record;
+              await next();
+            },
             // Emit events for workflows
-            if (behavior.emits && this.eventEmitter) {
-              const events = Array.isArray(behavior.emits) ? behavior.emits : [behavior.emits];
-              for (const event of events) {
-                await this.eventEmitter.emit(event, {
-                  entity: entityName,
-                  entityId: id,
-                  behavior: behaviorName,
-                  data: updated.rows?.[0] || {},
-                  timestamp: new Date().toISOString()
-                });
+            emit: async (state, next) => {
+              if (behavior.emits && this.eventEmitter) {
+                const events = Array.isArray(behavior.emits) ? behavior.emits : [behavior.emits];
+                for (const event of events) {
+                  await this.eventEmitter.emit(event, {
+                    entity: entityName,
+                    entityId: state.id!,
+                    behavior: behaviorName,
+                    ...(hasBehaviorInput(behavior) && { input: state.input }),
+                    data: access(state).redact(state.result!),
+                    timestamp: new Date().toISOString(),
+                    user: state.auth.user?.id
+                  });
+                }
               }
-            }
-            
-            return c.json({ 
-              data: updated.rows?.[0],
-              behavior: behaviorName,
-              message: `${behaviorName} executed successfully`
-            });
-          } catch (error) {
-            console.error(`Error executing behavior ${behaviorName}:`, error);
-            return c.json({ error: 'Failed to execute behavior' }, 500);
-          }
-        });
+              await next();
+            },
+            serialize: async (state, next) => {
+              state.c.header('ETag', getETag(state.result!));
+              const [data] = await this.hooks.afterRead(entityName, [access(state).redact(state.result!)], state.c);
+              state.response = state.c.json(state.responses.success({ 
+                data,
+                behavior: behaviorName,
+                message: `${behaviorName} executed successfully`
+              }));
+              await next();
+            },
+          },
+        }));
       }
     }
 
     return router;
   }
 
-  private async validateAndSanitizeInput(data: any, entity: EntityDefinition, isUpdate = false): Promise<Record<string, any>> {
+  /**
+   * The authenticate stage: who is calling, and what they may do
+   */
+  private async authenticate(state: Operation, next: () => Promise<void>): Promise<void> {
+    state.auth = await this.caller(state.c);
+    state.permissions = this.permissions(state.auth);
+    await next();
+  }
+
+  private async caller(c: Context): Promise<AuthContext> {
+    const middleware = await this.authMiddleware.authenticate();
+    await middleware(c, () => Promise.resolve());
+    return AuthMiddleware.getAuthContext(c);
+  }
+
+  /**
+   * Entity permissions and field rules, evaluated for one caller
+   */
+  private permissions(auth: AuthContext): Permissions {
+    return {
+      can: (entity, record, action) => this.checkPermission(auth, entity, record, action),
+      readFilter: (entity, tableName, rollups) => this.readFilter(auth, entity, tableName, rollups),
+      fieldRules: (expression, record, action) =>
+        this.permissionEvaluator.evaluate(expression, PermissionEvaluator.createContext(auth, record, action)),
+    };
+  }
+
+  /**
+   * Check if user has permission for an action on an entity
+   */
+  private checkPermission(
+    auth: AuthContext, 
+    entity: EntityDefinition, 
+    item: Record<string, unknown> | null, 
+    action: string
+  ): boolean {
+    // If no permissions defined, default to allow (for backward compatibility)
+    if (!entity.permissions) {
+      return true;
+    }
+    
+    // Trash actions without a rule of their own are governed by delete
+    const permission = entity.permissions[action as keyof typeof entity.permissions]
+      ?? (action === 'restore' || action === 'purge' ? entity.permissions.delete : undefined);
+    if (!permission) {
+      return true; // No permission rule means allow
+    }
+    
+    const context = PermissionEvaluator.createContext(auth, item, action);
+    
+    return this.permissionEvaluator.evaluate(permission, context);
+  }
+
+  /**
+   * The entity's read rule as a list query predicate for the current user.
+   * Rollups are compared through their subqueries.
+   */
+  private readFilter(
+    auth: AuthContext,
+    entity: EntityDefinition,
+    tableName: string,
+    rollups: Record<string, QueryableComputedField>
+  ): SQLTranslation {
+    const permission = entity.permissions?.read;
+    if (!permission) {
+      return { predicate: true, exact: true };
+    }
+    
+    const columns = [
+      'id', 'created_at', 'updated_at', VERSION_COLUMN,
+      ...(isSoftDelete(entity) ? [DELETED_AT_COLUMN] : []),
+      ...Object.entries(entity.fields).filter(([, field]) => !isManyRelation(field)).map(([fieldName]) => fieldName),
+    ];
+    
+    return this.permissionEvaluator.toSQLFilter(
+      permission,
+      PermissionEvaluator.createContext(auth, null, 'read'),
+      tableName,
+      columns,
+      Object.fromEntries(Object.entries(rollups).map(([name, rollup]) => [name, rollup.sql]))
+    );
+  }
+
+  /**
+   * Throw PermissionError unless the caller may do `action` on `record`
+   */
+  private assertAllowed(state: Operation, record: Record<string, unknown> | null, action: string): void {
+    if (!state.permissions.can(state.entity, record, action)) {
+      throw new PermissionError(action, state.entityName, state.auth.user?.id, undefined, state.requestId);
+    }
+  }
+
+  /**
+   * The record an operation is about, looked up once and kept in state.record;
+   * by default a record that is not in the trash, read in the write's transaction
+   */
+  private async target(
+    state: Operation,
+    find: (state: Operation) => Promise<Record<string, unknown> | null> = (state) => this.findRecord(state.entityName, state.id!, state.tx)
+  ): Promise<Record<string, unknown>> {
+    if (state.record === undefined) {
+      state.record = await find(state);
+    }
+    if (!state.record) {
+      throw new EntityNotFoundError(state.entityName, state.id!, undefined, state.requestId);
+    }
+    return state.record;
+  }
+
+  /**
+   * The hooks stage for `kind`: the extension hooks before and after persist
+   */
+  private hookStage(kind: 'create' | 'update' | 'delete' | 'read'): Stage {
+    switch (kind) {
+      case 'create':
+        return async (state, next) => {
+          state.data = await this.hooks.beforeCreate(state.entityName, state.data!, state.c);
+          await next();
+          await this.hooks.afterCreate(state.entityName, state.data, state.result as Record<string, unknown>, state.c);
+        };
+      case 'update':
+        return async (state, next) => {
+          state.data = await this.hooks.beforeUpdate(state.entityName, state.id!, state.data!, state.c);
+          await next();
+          await this.hooks.afterUpdate(state.entityName, state.id!, state.data, state.result as Record<string, unknown>, state.c);
+        };
+      case 'delete':
+        return async (state, next) => {
+          await this.hooks.beforeDelete(state.entityName, state.id!, state.c);
+          await next();
+          await this.hooks.afterDelete(state.entityName, state.id!, state.c);
+        };
+      case 'read':
+        // Single records are read under their id, lists with a null id
+        return async (state, next) => {
+          await this.hooks.beforeRead(state.entityName, state.id ?? null, state.c);
+          await next();
+          if (state.id === undefined) {
+            const page = state.result as { items: Record<string, unknown>[] };
+            page.items = await this.hooks.afterRead(state.entityName, page.items, state.c);
+          } else {
+            [state.result] = await this.hooks.afterRead(state.entityName, [state.result as Record<string, unknown>], state.c);
+          }
+        };
+    }
+  }
+
+  /**
+   * Relation loader that only embeds records the caller may read, as the
+   * read hooks show them
+   */
+  private createRelationLoader(permissions: Permissions, c: Context): RelationLoader {
+    return new RelationLoader(
+      this.app,
+      this.db!,
+      (_entityName, entity, record) => permissions.can(entity, record, 'read'),
+      permissions.fieldRules,
+      (entityName, records) => this.hooks.afterRead(entityName, records, c)
+    );
+  }
+
+  /**
+   * Field-level access for the caller: hidden and write-only fields plus
+   * the read/write expressions declared on individual fields
+   */
+  private fieldAccess(permissions: Permissions, entity: EntityDefinition): FieldAccessPolicy {
+    return new FieldAccessPolicy(entity, permissions.fieldRules);
+  }
+
+  /**
+   * An entity's change events as a subscriber sees them: only records they
+   * may read, without the fields they may not, as the read hooks show them
+   */
+  private changeView(permissions: Permissions, entityName: string, c: Context): ChangeView {
+    const entity = this.app.entities[entityName];
+    const access = this.fieldAccess(permissions, entity);
+    const computed = new ComputedFields(entity);
+    
+    return async (event) => {
+      if (!event.data || !permissions.can(entity, event.data, 'read')) return null;
+      const record = { ...event.data };
+      computed.attach([record]);
+      const [data] = await this.hooks.afterRead(entityName, [access.redact(record, event.data)], c);
+      return { ...event, data };
+    };
+  }
+
+  /**
+   * Who is making a change, for the audit log
+   */
+  private changeContext(state: Operation): ChangeContext {
+    return { requestId: state.requestId, userId: state.auth.user?.id ?? null, behavior: state.behavior };
+  }
+
+  /**
+   * Refuse a write whose If-Match no longer matches the stored record; the
+   * error carries the current record so the client can reconcile
+   */
+  private async assertIfMatch(
+    tx: QueryExecutor,
+    entityName: string,
+    record: Record<string, unknown>,
+    ifMatch: string | undefined,
+    access: FieldAccessPolicy,
+    requestId?: string
+  ): Promise<void> {
+    if (matchesIfMatch(ifMatch, record)) return;
+    
+    await new ManyRelationStore(this.app, tx).attach(entityName, [record]);
+    new ComputedFields(this.app.entities[entityName]).attach([record]);
+    throw new PreconditionFailedError(entityName, String(record.id), ifMatch!, access.redact(record), getETag(record), requestId);
+  }
+
+  /**
+   * The stored row whether trashed or not, for routes that read a record's past
+   */
+  private async findStoredRecord(entityName: string, id: string): Promise<Record<string, unknown> | null> {
+    const result = await this.db!.execute(`SELECT * FROM ${entityName.toLowerCase()} WHERE id = ?`, [id]);
+    return result.rows?.[0] || null;
+  }
+
+  /**
+   * A record that is not in the trash, or null
+   */
+  private async findRecord(entityName: string, id: string, db: QueryExecutor = this.db!): Promise<Record<string, unknown> | null> {
+    const result = await db.execute(
+      `SELECT ${selectColumns(this.app, entityName)} FROM ${entityName.toLowerCase()} WHERE id = ?${liveRecordFilter(this.app.entities[entityName])}`,
+      [id]
+    );
+    return result.rows?.[0] || null;
+  }
+
+  private async insertRecord(
+    tx: QueryExecutor,
+    entityName: string,
+    entity: EntityDefinition,
+    data: Record<string, unknown>,
+    change: ChangeContext = {}
+  ): Promise<Record<string, unknown>> {
+    const tableName = entityName.toLowerCase();
+    
+    // Add default values for fields not provided
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (['id', 'created_at', 'updated_at', 'createdAt', 'updatedAt'].includes(fieldName)) continue;
+      if (data[fieldName] === undefined && field.default !== undefined && field.default !== 'auto' && field.default !== 'now') {
+        data[fieldName] = field.default;
+      }
+    }
+    
+    // Filter out undefined values
+    const cleanData = Object.fromEntries(
+      Object.entries(data).filter(([_, value]) => value !== undefined)
+    );
+    
+    // Many relations go to their join tables once the row exists
+    const { columns, links } = splitManyRelations(entity, serializeJsonFields(entity, cleanData));
+    
+    const fields = Object.keys(columns);
+    const values = Object.values(columns);
+    const placeholders = fields.map(() => '?').join(', ');
+    
+    const inserted = await tx.execute(
+      fields.length > 0
+        ? `INSERT INTO ${tableName} (${fields.join(', ')}) VALUES (${placeholders})`
+        : `INSERT INTO ${tableName} DEFAULT VALUES`,
+      values
+    );
+    
+    const created = await tx.execute(`SELECT ${selectColumns(this.app, entityName)} FROM ${tableName} WHERE rowid = ?`, [inserted.lastInsertRowId]);
+    const id = String(created.rows[0].id);
+    await new ManyRelationStore(this.app, tx).write(entityName, id, links, change.requestId);
+    
+    await this.recordChange(tx, entityName, id, 'create', null, await this.auditLog.snapshot(tx, entityName, id), change);
+    
+    return created.rows[0];
+  }
+
+  /**
+   * Apply validated input to a record; false when there is no such record
+   */
+  private async updateRecord(
+    tx: QueryExecutor,
+    entityName: string,
+    entity: EntityDefinition,
+    id: string,
+    data: Record<string, unknown>,
+    change: ChangeContext = {}
+  ): Promise<boolean> {
+    const before = await this.auditLog.snapshot(tx, entityName, id);
+    
+    // Fields left out of the input keep their stored values
+    const provided = Object.fromEntries(
+      Object.entries(data).filter(([_, value]) => value !== undefined)
+    );
+    const { columns, links } = splitManyRelations(entity, serializeJsonFields(entity, provided));
+    
+    const fields = Object.keys(columns);
+    const values = Object.values(columns);
+    const setClause = [...fields.map(field => `${field} = ?`), 'updated_at = CURRENT_TIMESTAMP'].join(', ');
+    
+    const result = await tx.execute(
+      `UPDATE ${entityName.toLowerCase()} SET ${setClause} WHERE id = ?${liveRecordFilter(entity)}`,
+      [...values, id]
+    );
+    
+    if (result.changes === 0) {
+      return false;
+    }
+    
+    await new ManyRelationStore(this.app, tx).write(entityName, id, links, change.requestId);
+    await this.recordChange(tx, entityName, id, 'update', before, await this.auditLog.snapshot(tx, entityName, id), change);
+    return true;
+  }
+
+  /**
+   * Overwrite every client-editable field with validated input. Fields left
+   * out go back to their default, or are cleared; false when there is no such record.
+   */
+  private replaceRecord(
+    tx: QueryExecutor,
+    entityName: string,
+    entity: EntityDefinition,
+    id: string,
+    data: Record<string, unknown>,
+    change: ChangeContext = {}
+  ): Promise<boolean> {
+    const replacement: Record<string, unknown> = {};
+    
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (['id', 'created_at', 'updated_at', 'createdAt', 'updatedAt'].includes(fieldName)) continue;
+      
+      if (data[fieldName] !== undefined) {
+        replacement[fieldName] = data[fieldName];
+      } else if (field.default === 'auto' || field.default === 'now') {
+        // Generated values are kept
+        continue;
+      } else if (field.default !== undefined) {
+        replacement[fieldName] = field.default;
+      } else {
+        replacement[fieldName] = isManyRelation(field) ? [] : null;
+      }
+    }
+    
+    return this.updateRecord(tx, entityName, entity, id, replacement, change);
+  }
+
+  /**
+   * Audit entry, version snapshot and change feed event for a change that has just been made on `tx`
+   */
+  private async recordChange(
+    tx: QueryExecutor,
+    entityName: string,
+    id: string,
+    action: AuditAction,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    change: ChangeContext
+  ): Promise<void> {
+    await this.auditLog.record(tx, entityName, id, action, before, after, change);
+    await this.versionStore.capture(tx, entityName, id, action, change);
+    await this.changeFeed.record(tx, entityName, id, action, before, change);
+  }
+
+  /**
+   * Delete a record; false when there is no such record. Soft-delete entities
+   * only move it to the trash, otherwise it is purged.
+   */
+  private async deleteRecord(tx: QueryExecutor, entityName: string, id: string, change: ChangeContext = {}): Promise<boolean> {
+    if (isSoftDelete(this.app.entities[entityName])) {
+      const before = await this.auditLog.snapshot(tx, entityName, id);
+      
+      // References and links stay in place so a restore brings everything back
+      const trashed = await tx.execute(
+        `UPDATE ${entityName.toLowerCase()} SET ${DELETED_AT_COLUMN} = CURRENT_TIMESTAMP WHERE id = ? AND ${DELETED_AT_COLUMN} IS NULL`,
+        [id]
+      );
+      if ((trashed.changes ?? 0) > 0) {
+        await this.recordChange(tx, entityName, id, 'delete', before, null, change);
+      }
+      return (trashed.changes ?? 0) > 0;
+    }
+    
+    return this.purgeRecord(tx, entityName, id, change);
+  }
+
+  /**
+   * Remove a record and its links for good; false when there is no such record.
+   * Throws ReferenceConflictError while restrict relations still point at it.
+   */
+  private async purgeRecord(tx: QueryExecutor, entityName: string, id: string, change: ChangeContext = {}): Promise<boolean> {
+    // Relations with onDelete 'restrict' keep the record alive
+    await new ReferenceGuard(this.app, tx).assertDeletable(entityName, id, change.requestId);
+    // Taken whether audited or not; the change feed sends it once the record is gone
+    const before = await readSnapshot(this.app, tx, entityName, id);
+    
+    const deleted = await tx.execute(
+      `DELETE FROM ${entityName.toLowerCase()} WHERE id = ?`,
+      [id]
+    );
+    
+    // Drop join table rows pointing at or from the deleted record
+    if ((deleted.changes ?? 0) > 0) {
+      await new ManyRelationStore(this.app, tx).unlink(entityName, id);
+      // A plain delete of an entity without a trash is still a delete
+      const action = isSoftDelete(this.app.entities[entityName]) ? 'purge' : 'delete';
+      await this.recordChange(tx, entityName, id, action, before, null, change);
+    }
+    
+    return (deleted.changes ?? 0) > 0;
+  }
+
+  /**
+   * Check if entity has ownership field (createdBy)
+   */
+  private hasOwnershipField(entity: EntityDefinition): boolean {
+    return 'createdBy' in entity.fields;
+  }
+
+  private async validateAndSanitizeInput(data: Record<string, unknown>, entity: EntityDefinition, isUpdate = false): Promise<Record<string, unknown>> {
     // Generate validation schema for this entity
     const validationSchema = this.validationGenerator.generateEntitySchema(entity);
     
@@ -290,7 +1474,7 @@ export class APIGenerator implements Generator<Hono> {
       throw new InvalidRequestDataError(`Validation failed: ${errorMessages}`, { errors: result.errors });
     }
     
-    const sanitized: Record<string, any> = result.sanitizedData || {};
+    const sanitized: Record<string, unknown> = result.sanitizedData || {};
     
     // Filter out system fields and auto-generated fields
     for (const [fieldName, field] of Object.entries(entity.fields)) {
@@ -309,7 +1493,7 @@ export class APIGenerator implements Generator<Hono> {
       
       // Check required fields (only for create), but allow default values
       if (!isUpdate && field.required && (value === undefined || value === null) && field.default === undefined) {
-        throw new Error(`Field '${fieldName}' is required`);
+        throw new InvalidRequestDataError(fieldName, value, 'This field is required');
       }
       
       // Skip undefined values in updates
@@ -317,12 +1501,27 @@ export class APIGenerator implements Generator<Hono> {
         continue;
       }
       
-      // Only add defined values (validation already handled by validator)
+      // Only add defined values
       if (value !== undefined) {
+        // Validate enum values
+        if (field.type === 'enum' && field.values) {
+          if (!field.values.includes(value)) {
+            throw new InvalidRequestDataError(fieldName, value, `Must be one of: ${field.values.join(', ')}`);
+          }
+        }
+        
+        // Validate string length
+        if (field.type === 'string' && typeof value === 'string') {
+          if (field.maxLength && value.length > field.maxLength) {
+            throw new InvalidRequestDataError(fieldName, value, `Exceeds maximum length of ${field.maxLength}`);
+          }
+        }
+        
         sanitized[fieldName] = value;
       }
     }
     
     return sanitized;
   }
-}
\ No newline at end of file
+}
+
@@ -1,8 +1,17 @@
 import { AppDefinition, EntityDefinition, FieldDefinition } from '../types/index.ts';
+import { generateSearchSchema } from '../query/search.ts';
+import { generateJoinTableSchema, getManyRelations, isManyRelation } from '../query/relations.ts';
+import { getForeignKeys } from '../query/references.ts';
+import { VERSION_COLUMN } from '../query/concurrency.ts';
+import { DELETED_AT_COLUMN, isSoftDelete } from '../query/soft-delete.ts';
+import { generateAuditSchema } from '../query/audit.ts';
+import { generateVersionSchema } from '../query/versions.ts';
+import { generateIdempotencySchema } from '../query/idempotency.ts';
+import { generateChangeFeedSchema } from '../query/changes.ts';
 
 export interface SchemaGenerator {
   generateSchema(app: AppDefinition): string[];
-  generateTableSchema(entityName: string, entity: EntityDefinition): string;
+  generateTableSchema(entityName: string, entity: EntityDefinition, app?: AppDefinition): string;
   getSQLType(field: FieldDefinition): string;
 }
 
@@ -12,14 +21,70 @@ export class SQLiteSchemaGenerator implements SchemaGenerator {
     
     // Generate table schemas for each entity
     for (const [entityName, entity] of Object.entries(app.entities)) {
-      statements.push(this.generateTableSchema(entityName, entity));
+      statements.push(...this.generateTableStatements(entityName, entity, app));
+      statements.push(...generateSearchSchema(entityName.toLowerCase(), entity));
+      statements.push(...generateVersionSchema(entityName.toLowerCase(), entity));
+      
+      // Many relations are stored in join tables, not columns
+      for (const [fieldName, relation] of getManyRelations(entity)) {
+        statements.push(...generateJoinTableSchema(entityName.toLowerCase(), fieldName, relation));
+      }
     }
     
+    statements.push(...generateAuditSchema(app));
+    statements.push(...generateIdempotencySchema());
+    statements.push(...generateChangeFeedSchema());
     return statements;
   }
 
-  generateTableSchema(entityName: string, entity: EntityDefinition): string {
+  generateTableSchema(entityName: string, entity: EntityDefinition, app?: AppDefinition): string {
+    return this.generateTableStatements(entityName, entity, app).join('\n');
+  }
+
+  /**
+   * The table, its updated_at trigger and its indexes as separate statements,
+   * since the database client runs one statement per call
+   */
+  generateTableStatements(entityName: string, entity: EntityDefinition, app?: AppDefinition): string[] {
+    const tableName = entityName.toLowerCase();
+    const statements = [this.generateCreateTable(tableName, entity, app)];
+
+    // Add update trigger
+    statements.push(this.generateUpdateTrigger(tableName));
+
+    // Add indexes
+    if (entity.indexes) {
+      for (const indexFields of entity.indexes) {
+        const indexName = `idx_${tableName}_${indexFields.join('_')}`;
+        statements.push(`CREATE INDEX IF NOT EXISTS ${indexName} ON ${tableName} (${indexFields.join(', ')});`);
+      }
+    }
+
+    return statements;
+  }
+
+  /**
+   * Stamps updated_at and bumps the version that ETags are derived from on
+   * every update, whichever code path made it
+   */
+  generateUpdateTrigger(tableName: string): string {
+    return `
+CREATE TRIGGER IF NOT EXISTS ${tableName}_updated_at
+AFTER UPDATE ON ${tableName}
+BEGIN
+  UPDATE ${tableName} 
+  SET updated_at = CURRENT_TIMESTAMP, ${VERSION_COLUMN} = OLD.${VERSION_COLUMN} + 1
+  WHERE id = NEW.id;
+END;`;
+  }
+
+  /**
+   * CREATE TABLE for an entity. With the app definition, single relations to
+   * its entities become foreign keys.
+   */
+  generateCreateTable(tableName: string, entity: EntityDefinition, app?: AppDefinition): string {
     const columns: string[] = [];
+    const foreignKeys = new Map((app ? getForeignKeys(app, entity) : []).map(key => [key.field, key]));
     
     // Add default ID column if not defined
     if (!entity.fields.id) {
@@ -28,38 +93,28 @@ export class SQLiteSchemaGenerator implements SchemaGenerator {
     
     // Generate columns for each field
     for (const [fieldName, field] of Object.entries(entity.fields)) {
-      columns.push(this.generateColumnDefinition(fieldName, field));
+      if (isManyRelation(field)) continue;
+      
+      let column = this.generateColumnDefinition(fieldName, field);
+      const foreignKey = foreignKeys.get(fieldName);
+      if (foreignKey) {
+        column += ` REFERENCES ${foreignKey.targetTable}(id) ON DELETE ${foreignKey.action}`;
+      }
+      columns.push(column);
     }
     
     // Add audit columns
     columns.push('created_at DATETIME DEFAULT CURRENT_TIMESTAMP');
     columns.push('updated_at DATETIME DEFAULT CURRENT_TIMESTAMP');
+    columns.push(`${VERSION_COLUMN} INTEGER NOT NULL DEFAULT 1`);
+    if (isSoftDelete(entity)) {
+      columns.push(`${DELETED_AT_COLUMN} DATETIME`);
+    }
     
-    const createTable = `
-CREATE TABLE IF NOT EXISTS ${entityName.toLowerCase()} (
+    return `
+CREATE TABLE IF NOT EXISTS ${tableName} (
   ${columns.join(',\n  ')}
 );`;
-
-    // Add update trigger
-    const updateTrigger = `
-CREATE TRIGGER IF NOT EXISTS ${entityName.toLowerCase()}_updated_at
-AFTER UPDATE ON ${entityName.toLowerCase()}
-BEGIN
-  UPDATE ${entityName.toLowerCase()} 
-  SET updated_at = CURRENT_TIMESTAMP
-  WHERE id = NEW.id;
-END;`;
-
-    // Add indexes
-    let indexes = '';
-    if (entity.indexes) {
-      for (const indexFields of entity.indexes) {
-        const indexName = `idx_${entityName.toLowerCase()}_${indexFields.join('_')}`;
-        indexes += `\nCREATE INDEX IF NOT EXISTS ${indexName} ON ${entityName.toLowerCase()} (${indexFields.join(', ')});`;
-      }
-    }
-
-    return createTable + updateTrigger + indexes;
   }
 
   private generateColumnDefinition(fieldName: string, field: FieldDefinition): string {
@@ -0,0 +1,607 @@
+// GraphQL endpoint served alongside REST at /api/graphql
+//
+// Resolvers are answered by the generated REST routes, dispatched in process
+// with the caller's credentials, so a GraphQL request goes through the same
+// permission checks, field access rules, validation and events as the
+// equivalent REST calls. Related records are batched: every id one level of a
+// query needs from an entity is fetched with a single `id[in]=` list request.
+
+import { Context, Hono } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
+import {
+  getOperationAST,
+  graphql,
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFieldConfig,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+  printSchema,
+  valueFromASTUntyped,
+} from 'graphql';
+import { AppDefinition, EntityDefinition, FieldDefinition, FieldType, RelationFieldDefinition } from '../types/index.ts';
+import { GeneratorError } from './types.ts';
+import {
+  behaviorInputEntity,
+  computedFieldDefinition,
+  getComputedFields,
+  getRollups,
+  hasBehaviorInput,
+  isHiddenField,
+  isManyRelation,
+  isSoftDelete,
+  isWriteOnlyField,
+  MERGE_PATCH_TYPE,
+  rollupFieldDefinition,
+  VERSION_COLUMN,
+} from '../query/index.ts';
+
+// Most ids one batched list request asks for; the list endpoint's page limit
+const BATCH_SIZE = 1000;
+
+// Request headers that carry the caller's identity to the REST routes
+const FORWARDED_HEADERS = ['authorization', 'cookie'];
+
+const SYSTEM_FIELDS = ['id', 'created_at', 'updated_at', VERSION_COLUMN];
+
+const VALID_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  serialize: value => value,
+  parseValue: value => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+const SCALARS: Record<FieldType, GraphQLScalarType> = {
+  string: GraphQLString,
+  text: GraphQLString,
+  number: GraphQLFloat,
+  integer: GraphQLInt,
+  boolean: GraphQLBoolean,
+  date: GraphQLString,
+  datetime: GraphQLString,
+  json: JSONScalar,
+  uuid: GraphQLID,
+  enum: GraphQLString,
+  relation: GraphQLID,
+};
+
+const Pagination = new GraphQLObjectType({
+  name: 'Pagination',
+  fields: {
+    limit: { type: new GraphQLNonNull(GraphQLInt) },
+    offset: { type: new GraphQLNonNull(GraphQLInt) },
+    total: { type: GraphQLInt, description: 'Null when the read rule is checked per record' },
+    hasMore: { type: new GraphQLNonNull(GraphQLBoolean) },
+    nextCursor: { type: GraphQLString, description: 'Pass as `after` to fetch the next page' },
+  },
+});
+
+// Per-request state shared by the resolvers
+interface GraphQLContext {
+  rest: RESTDispatcher;
+  records: RecordLoader;
+}
+
+type Resolved = Record<string, unknown>;
+
+export class GraphQLGenerator {
+  private api: Hono | null = null;
+  private schema: GraphQLSchema | null = null;
+  private enums = new Map<string, GraphQLEnumType>();
+  private objectTypes = new Map<string, GraphQLObjectType>();
+
+  constructor(private app: AppDefinition) {}
+
+  /**
+   * The generated REST routes that answer GraphQL requests
+   */
+  setAPI(api: Hono): void {
+    this.api = api;
+  }
+
+  generate(): Hono {
+    if (!this.api) {
+      throw new GeneratorError('GraphQLGenerator', 'REST API not configured. Call setAPI() before generating the endpoint');
+    }
+    
+    const schema = this.getSchema();
+    const router = new Hono();
+    
+    // POST /graphql - { query, variables?, operationName? }
+    router.post('/', async (c) => {
+      const body = await c.req.json().catch(() => null);
+      if (!body || typeof body.query !== 'string') {
+        return c.json({ errors: [{ message: 'Expected a JSON body with a query string' }] }, 400);
+      }
+      return this.execute(c, schema, body.query, body.variables, body.operationName);
+    });
+    
+    // GET /graphql?query=... - queries only, so links and caches never change data
+    router.get('/', (c) => {
+      const query = c.req.query('query');
+      if (!query) {
+        return c.json({ errors: [{ message: 'Missing query parameter' }] }, 400);
+      }
+      
+      let variables: Record<string, unknown> | undefined;
+      try {
+        variables = c.req.query('variables') ? JSON.parse(c.req.query('variables')!) : undefined;
+      } catch {
+        return c.json({ errors: [{ message: 'variables must be JSON' }] }, 400);
+      }
+      
+      const operationName = c.req.query('operationName');
+      try {
+        if (getOperationAST(parse(query), operationName)?.operation === 'mutation') {
+          return c.json({ errors: [{ message: 'Mutations must be sent with POST' }] }, 405);
+        }
+      } catch {
+        // Syntax errors are reported by execute()
+      }
+      return this.execute(c, schema, query, variables, operationName);
+    });
+    
+    // GET /graphql/schema.graphql - the schema in SDL
+    router.get('/schema.graphql', (c) => c.text(printSchema(schema)));
+    
+    console.log(`[GraphQLGenerator] Generated schema for ${Object.keys(this.app.entities).length} entities`);
+    return router;
+  }
+
+  getSchema(): GraphQLSchema {
+    if (this.schema) return this.schema;
+    
+    if (!this.app.entities) {
+      throw new GeneratorError('GraphQLGenerator', 'No entities defined in app');
+    }
+    
+    const query: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+    const mutation: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+    
+    for (const [entityName, entity] of Object.entries(this.app.entities)) {
+      Object.assign(query, this.queryFields(entityName, entity));
+      Object.assign(mutation, this.mutationFields(entityName, entity));
+    }
+    
+    this.schema = new GraphQLSchema({
+      query: new GraphQLObjectType({ name: 'Query', fields: query }),
+      mutation: new GraphQLObjectType({ name: 'Mutation', fields: mutation }),
+    });
+    return this.schema;
+  }
+
+  private async execute(
+    c: Context,
+    schema: GraphQLSchema,
+    source: string,
+    variables: Record<string, unknown> | undefined,
+    operationName: string | undefined
+  ): Promise<Response> {
+    const rest = new RESTDispatcher(this.api!, c.req.raw.headers);
+    const contextValue: GraphQLContext = { rest, records: new RecordLoader(rest) };
+    
+    const result = await graphql({ schema, source, variableValues: variables, operationName, contextValue });
+    
+    // Requests that never ran, e.g. syntax errors or unknown fields
+    return c.json(result, result.data === undefined ? 400 : 200);
+  }
+
+  // Types
+
+  private objectType(entityName: string): GraphQLObjectType {
+    const existing = this.objectTypes.get(entityName);
+    if (existing) return existing;
+    
+    const entity = this.app.entities[entityName];
+    const type = new GraphQLObjectType<Resolved, GraphQLContext>({
+      name: entityName,
+      // Relations refer to types that may not exist yet
+      fields: () => this.recordFields(entityName, entity),
+    });
+    this.objectTypes.set(entityName, type);
+    return type;
+  }
+
+  /**
+   * Fields of a record: the columns the caller may read, relations resolved to
+   * records, then computed and rollup values
+   */
+  private recordFields(entityName: string, entity: EntityDefinition): GraphQLFieldConfigMap<Resolved, GraphQLContext> {
+    const fields: GraphQLFieldConfigMap<Resolved, GraphQLContext> = {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      created_at: { type: new GraphQLNonNull(GraphQLString) },
+      updated_at: { type: new GraphQLNonNull(GraphQLString) },
+      [VERSION_COLUMN]: { type: new GraphQLNonNull(GraphQLInt), description: 'Incremented on every write; pass it as `version` to mutations' },
+    };
+    if (isSoftDelete(entity)) {
+      fields.deleted_at = { type: GraphQLString };
+    }
+    
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (SYSTEM_FIELDS.includes(fieldName)) continue;
+      if (isHiddenField(field) || isWriteOnlyField(fieldName, field)) continue;
+      
+      const alwaysPresent = field.required === true && !field.permissions?.read;
+      const description = field.description;
+      
+      if (field.type === 'relation') {
+        const target = (field as RelationFieldDefinition).to;
+        if (!this.app.entities[target]) continue;
+        
+        if (isManyRelation(field)) {
+          fields[fieldName] = {
+            type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(this.objectType(target)))),
+            description,
+            resolve: async (record, _args, context) => {
+              const ids = (record[fieldName] as string[] | undefined) || [];
+              const related = await Promise.all(ids.map(id => context.records.load(target, id)));
+              // Records the caller may not read are left out
+              return related.filter(item => item !== null);
+            },
+          };
+          continue;
+        }
+        
+        fields[fieldName] = {
+          type: alwaysPresent ? new GraphQLNonNull(this.objectType(target)) : this.objectType(target),
+          description,
+          resolve: (record, _args, context) =>
+            record[fieldName] === null || record[fieldName] === undefined ? null : context.records.load(target, String(record[fieldName])),
+        };
+        if (!entity.fields[`${fieldName}Id`]) {
+          fields[`${fieldName}Id`] = {
+            type: GraphQLID,
+            description: `Id of the ${target}, also when it cannot be read`,
+            resolve: record => record[fieldName] ?? null,
+          };
+        }
+        continue;
+      }
+      
+      const type = this.scalarType(entityName, fieldName, field);
+      fields[fieldName] = { type: alwaysPresent ? new GraphQLNonNull(type) : type, description };
+    }
+    
+    for (const [name, expression] of getComputedFields(entity)) {
+      fields[name] = { type: SCALARS[computedFieldDefinition(entity, expression).type] || GraphQLString, description: `Computed: ${expression}` };
+    }
+    for (const [name, rollup] of getRollups(entity)) {
+      fields[name] = {
+        type: SCALARS[rollupFieldDefinition(this.app, rollup).type] || GraphQLFloat,
+        description: `${rollup.aggregate} of ${rollup.from} via ${rollup.via}`,
+      };
+    }
+    
+    return fields;
+  }
+
+  private scalarType(entityName: string, fieldName: string, field: FieldDefinition): GraphQLScalarType | GraphQLEnumType {
+    if (field.type !== 'enum') {
+      return SCALARS[field.type] || GraphQLString;
+    }
+    
+    const name = `${entityName}${capitalize(fieldName)}`;
+    const existing = this.enums.get(name);
+    if (existing) return existing;
+    
+    const options = ('options' in field && field.options) || ('values' in field && field.values) || [];
+    // Options that are not valid GraphQL names are exchanged as strings
+    if (options.length === 0 || options.some(option => !VALID_NAME.test(option) || ['true', 'false', 'null'].includes(option))) {
+      return GraphQLString;
+    }
+    
+    const type = new GraphQLEnumType({
+      name,
+      values: Object.fromEntries(options.map(option => [option, { value: option }])),
+    });
+    this.enums.set(name, type);
+    return type;
+  }
+
+  /**
+   * Input object for record data; `partial` leaves every field optional, as
+   * for merge patches where null clears a field
+   */
+  private inputType(name: string, entityName: string, entity: EntityDefinition, partial = false): GraphQLInputObjectType {
+    const fields: GraphQLInputFieldConfigMap = {};
+    
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (SYSTEM_FIELDS.includes(fieldName) || isHiddenField(field)) continue;
+      
+      let type: GraphQLInputType = field.type === 'relation'
+        ? (isManyRelation(field) ? new GraphQLList(new GraphQLNonNull(GraphQLID)) : GraphQLID)
+        : this.scalarType(entityName, fieldName, field);
+      if (!partial && field.required) {
+        type = new GraphQLNonNull(type);
+      }
+      
+      fields[fieldName] = { type, description: field.description };
+    }
+    
+    return new GraphQLInputObjectType({ name, fields });
+  }
+
+  // Operations
+
+  private queryFields(entityName: string, entity: EntityDefinition): GraphQLFieldConfigMap<unknown, GraphQLContext> {
+    const path = `/${entityName.toLowerCase()}s`;
+    const single = lowerFirst(entityName);
+    const page = new GraphQLObjectType({
+      name: `${entityName}Page`,
+      fields: {
+        items: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(this.objectType(entityName)))) },
+        pagination: { type: new GraphQLNonNull(Pagination) },
+      },
+    });
+    
+    const fields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+      [single]: {
+        type: this.objectType(entityName),
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: async (_source, args, context) => {
+          const { status, body } = await context.rest.send('GET', `${path}/${encodeURIComponent(args.id)}`);
+          if (status === 404) return null;
+          return unwrap(status, body);
+        },
+      },
+      [`${single}s`]: this.listField(page, path),
+    };
+    if (isSoftDelete(entity)) {
+      fields[`trashed${entityName}s`] = this.listField(page, `${path}/_trash`);
+    }
+    
+    return fields;
+  }
+
+  private listField(page: GraphQLObjectType, path: string): GraphQLFieldConfig<unknown, GraphQLContext> {
+    return {
+      type: new GraphQLNonNull(page),
+      args: {
+        filter: { type: JSONScalar, description: 'Filters as on the REST list, e.g. { status: "todo", "estimate[gte]": 3 }' },
+        q: { type: GraphQLString, description: 'Full-text search' },
+        sort: { type: GraphQLString, description: 'Comma-separated fields, prefixed with - for descending' },
+        limit: { type: GraphQLInt },
+        offset: { type: GraphQLInt },
+        after: { type: GraphQLString, description: 'nextCursor of the previous page' },
+      },
+      resolve: (_source, args, context) => {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(args.filter || {})) {
+          for (const item of Array.isArray(value) ? value : [value]) {
+            if (item !== null && item !== undefined) params.append(key, String(item));
+          }
+        }
+        for (const key of ['q', 'sort', 'limit', 'offset', 'after']) {
+          if (args[key] !== undefined && args[key] !== null) params.set(key, String(args[key]));
+        }
+        
+        const search = params.toString();
+        return context.rest.request('GET', search ? `${path}?${search}` : path);
+      },
+    };
+  }
+
+  private mutationFields(entityName: string, entity: EntityDefinition): GraphQLFieldConfigMap<unknown, GraphQLContext> {
+    const path = `/${entityName.toLowerCase()}s`;
+    const record = new GraphQLNonNull(this.objectType(entityName));
+    const id = { type: new GraphQLNonNull(GraphQLID) };
+    const version = { type: GraphQLInt, description: 'Only apply while the record is still at this version' };
+    const ifMatch = (args: Record<string, unknown>): Record<string, string> =>
+      args.version === undefined || args.version === null ? {} : { 'If-Match': `"${args.version}"` };
+    
+    const fields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+      [`create${entityName}`]: {
+        type: record,
+        args: { input: { type: new GraphQLNonNull(this.inputType(`${entityName}Input`, entityName, entity)) } },
+        resolve: async (_source, args, context) => {
+          const { status, body } = await context.rest.send('POST', path, args.input);
+          return unwrap(status, body);
+        },
+      },
+      [`update${entityName}`]: {
+        type: record,
+        args: { id, input: { type: new GraphQLNonNull(this.inputType(`${entityName}Patch`, entityName, entity, true)) }, version },
+        resolve: (_source, args, context) => context.rest.request('PATCH', `${path}/${encodeURIComponent(args.id)}`, args.input, {
+          'Content-Type': MERGE_PATCH_TYPE,
+          ...ifMatch(args),
+        }),
+      },
+      [`delete${entityName}`]: {
+        type: new GraphQLNonNull(GraphQLBoolean),
+        args: { id, version },
+        resolve: async (_source, args, context) => {
+          await context.rest.request('DELETE', `${path}/${encodeURIComponent(args.id)}`, undefined, ifMatch(args));
+          return true;
+        },
+      },
+    };
+    
+    if (isSoftDelete(entity)) {
+      fields[`restore${entityName}`] = {
+        type: record,
+        args: { id, version },
+        resolve: (_source, args, context) =>
+          context.rest.request('POST', `${path}/${encodeURIComponent(args.id)}/restore`, undefined, ifMatch(args)),
+      };
+    }
+    
+    for (const [behaviorName, behavior] of Object.entries(entity.behaviors || {})) {
+      const name = `${behaviorName}${entityName}`;
+      if (fields[name]) {
+        console.warn(`[GraphQLGenerator] Behavior ${entityName}.${behaviorName} is not exposed; ${name} is taken`);
+        continue;
+      }
+      
+      const args: GraphQLFieldConfigArgumentMap = { id, version };
+      if (hasBehaviorInput(behavior)) {
+        const inputName = `${entityName}${capitalize(behaviorName)}Input`;
+        args.input = { type: new GraphQLNonNull(this.inputType(inputName, `${entityName}${capitalize(behaviorName)}`, behaviorInputEntity(behavior))) };
+      }
+      
+      fields[name] = {
+        type: record,
+        description: behavior.description || behavior.label,
+        args,
+        resolve: async (_source, args, context) => {
+          const result = await context.rest.request(
+            'POST',
+            `${path}/${encodeURIComponent(args.id)}/${behaviorName}`,
+            args.input ?? {},
+            ifMatch(args)
+          ) as { data: Resolved };
+          return result.data;
+        },
+      };
+    }
+    
+    return fields;
+  }
+}
+
+/**
+ * Sends requests to the REST routes on behalf of the GraphQL caller
+ */
+class RESTDispatcher {
+  private headers: Record<string, string> = {};
+
+  constructor(private api: Hono, incoming: Headers) {
+    for (const name of FORWARDED_HEADERS) {
+      const value = incoming.get(name);
+      if (value !== null) this.headers[name] = value;
+    }
+  }
+
+  async send(
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; body: unknown }> {
+    const response = await this.api.request(path, {
+      method,
+      headers: {
+        ...this.headers,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+
+  /**
+   * The response's data, or a GraphQL error carrying the REST error
+   */
+  async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+    const response = await this.send(method, path, body, headers);
+    return unwrap(response.status, response.body);
+  }
+}
+
+/**
+ * Loads records by id, batching the ids requested in the same tick into one
+ * list request per entity. Records that do not exist or cannot be read load as null.
+ */
+class RecordLoader {
+  private cache = new Map<string, Promise<Resolved | null>>();
+  private pending = new Map<string, Map<string, { resolve: (record: Resolved | null) => void; reject: (error: unknown) => void }>>();
+
+  constructor(private rest: RESTDispatcher) {}
+
+  load(entityName: string, id: string): Promise<Resolved | null> {
+    const key = `${entityName}:${id}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    
+    if (this.pending.size === 0) {
+      queueMicrotask(() => this.flush());
+    }
+    
+    const promise = new Promise<Resolved | null>((resolve, reject) => {
+      const batch = this.pending.get(entityName) || new Map();
+      batch.set(id, { resolve, reject });
+      this.pending.set(entityName, batch);
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  private async flush(): Promise<void> {
+    const batches = this.pending;
+    this.pending = new Map();
+    
+    await Promise.all([...batches].map(async ([entityName, batch]) => {
+      try {
+        const found = await this.fetch(entityName, [...batch.keys()]);
+        for (const [id, { resolve }] of batch) resolve(found.get(id) ?? null);
+      } catch (error) {
+        for (const { reject } of batch.values()) reject(error);
+      }
+    }));
+  }
+
+  private async fetch(entityName: string, ids: string[]): Promise<Map<string, Resolved>> {
+    const path = `/${entityName.toLowerCase()}s`;
+    const found = new Map<string, Resolved>();
+    
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const chunk = ids.slice(start, start + BATCH_SIZE);
+      const params = new URLSearchParams({ 'id[in]': chunk.join(','), limit: String(chunk.length) });
+      const { status, body } = await this.rest.send('GET', `${path}?${params}`);
+      
+      // ui.list.filterable can rule out filtering on id; then look records up one by one
+      if (status === 400) {
+        for (const id of chunk) {
+          const record = await this.rest.send('GET', `${path}/${encodeURIComponent(id)}`);
+          if (record.status !== 403 && record.status !== 404) found.set(id, unwrap(record.status, record.body) as Resolved);
+        }
+        continue;
+      }
+      
+      for (const item of (unwrap(status, body) as { items: Resolved[] }).items) found.set(String(item.id), item);
+    }
+    
+    return found;
+  }
+}
+
+/**
+ * Data of a REST response, unwrapping the success envelope where there is one
+ */
+function unwrap(status: number, body: unknown): unknown {
+  const envelope = (body ?? {}) as { success?: boolean; data?: unknown; error?: unknown };
+  if (status >= 400) {
+    const error = envelope.error;
+    if (error && typeof error === 'object') {
+      const { message, code, details } = error as { message: string; code?: string; details?: unknown };
+      throw new GraphQLError(message, { extensions: { code, status, details } });
+    }
+    throw new GraphQLError(typeof error === 'string' ? error : `Request failed with status ${status}`, { extensions: { status } });
+  }
+
+  return envelope.success === true && 'data' in envelope ? envelope.data : body;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
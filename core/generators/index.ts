@@ -4,6 +4,8 @@ export * from './api.ts';
 export * from './ui.ts';
 export * from './component.ts';
 export * from './model.ts';
+export * from './openapi.ts';
+export * from './graphql.ts';
 export * from './router.ts';
 export * from './client.ts';
 export * from './ui-manager.ts';
@@ -4,6 +4,9 @@
 import { AppDefinition, EntityDefinition } from '../../core/types/index.ts'
 import { logger } from '../../runtime/utils/logger.ts'
 import { PathResolver } from '../utils/path-resolver.ts'
+import { isSoftDelete } from '../query/soft-delete.ts'
+import { computedFieldDefinition, getComputedFields } from '../query/computed.ts'
+import { getRollups, rollupFieldDefinition } from '../query/rollup.ts'
 
 export class ModelGenerator {
   constructor(
@@ -52,9 +55,33 @@ export class ModelGenerator {
 
 const API_BASE = window.location.origin
 
+// Error for a failed response; error.reason is the server's explanation, e.g.
+// why a behavior cannot run. A 412 means the record changed since it was
+// read; error.conflict then holds the record as it is now and its ETag.
+async function apiError(response) {
+  const errorText = await response.text()
+  const error = new Error(\`API Error: \${response.status} \${response.statusText} - \${errorText}\`)
+  error.status = response.status
+  
+  let body = null
+  try {
+    body = JSON.parse(errorText)
+  } catch {
+    // Not JSON
+  }
+  error.reason = body?.error?.message || (typeof body?.error === 'string' ? body.error : undefined)
+  
+  if (response.status === 412) {
+    const details = body?.error?.details || {}
+    error.conflict = { current: details.current, etag: details.etag }
+  }
+  
+  return error
+}
+
 export const apiClient = {
   async get(url, options = {}) {
-    const { params, ...fetchOptions } = options
+    const { params, headers, ...fetchOptions } = options
     
     let fullUrl = API_BASE + url
     if (params) {
@@ -73,70 +100,89 @@ export const apiClient = {
       method: 'GET',
       headers: { 
         'Content-Type': 'application/json',
-        ...fetchOptions.headers 
+        ...headers 
       },
       ...fetchOptions
     })
     
     if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(\`API Error: \${response.status} \${response.statusText} - \${errorText}\`)
+      throw await apiError(response)
     }
     
     return response.json()
   },
 
   async post(url, data, options = {}) {
+    const { headers, ...fetchOptions } = options
     const response = await fetch(API_BASE + url, {
       method: 'POST',
       headers: { 
         'Content-Type': 'application/json',
-        ...options.headers 
+        ...headers 
       },
       body: JSON.stringify(data),
-      ...options
+      ...fetchOptions
     })
     
     if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(\`API Error: \${response.status} \${response.statusText} - \${errorText}\`)
+      throw await apiError(response)
     }
     
     return response.json()
   },
 
   async put(url, data, options = {}) {
+    const { headers, ...fetchOptions } = options
     const response = await fetch(API_BASE + url, {
       method: 'PUT',
       headers: { 
         'Content-Type': 'application/json',
-        ...options.headers 
+        ...headers 
+      },
+      body: JSON.stringify(data),
+      ...fetchOptions
+    })
+    
+    if (!response.ok) {
+      throw await apiError(response)
+    }
+    
+    return response.json()
+  },
+
+  // Partial update; data is a merge patch unless another patch type is given
+  async patch(url, data, options = {}) {
+    const { headers, ...fetchOptions } = options
+    const response = await fetch(API_BASE + url, {
+      method: 'PATCH',
+      headers: { 
+        'Content-Type': 'application/merge-patch+json',
+        ...headers 
       },
       body: JSON.stringify(data),
-      ...options
+      ...fetchOptions
     })
     
     if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(\`API Error: \${response.status} \${response.statusText} - \${errorText}\`)
+      throw await apiError(response)
     }
     
     return response.json()
   },
 
   async delete(url, options = {}) {
+    const { headers, ...fetchOptions } = options
     const response = await fetch(API_BASE + url, {
       method: 'DELETE',
       headers: { 
         'Content-Type': 'application/json',
-        ...options.headers 
+        ...headers 
       },
-      ...options
+      ...fetchOptions
     })
     
     if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(\`API Error: \${response.status} \${response.statusText} - \${errorText}\`)
+      throw await apiError(response)
     }
     
     return response.json()
@@ -172,6 +218,17 @@ export const apiClient = {
     const customPath = this.getModelsPath(`${entityLower}.js`)
     const runtimePath = this.getRuntimePath(`models/${entityLower}.js`)
     
+    const computed = Object.fromEntries(getComputedFields(entityDef).map(([fieldName, expression]) => [
+      fieldName,
+      { ...computedFieldDefinition(entityDef, expression), expression, readOnly: true }
+    ]))
+    const hasComputed = Object.keys(computed).length > 0
+    const rollups = Object.fromEntries(getRollups(entityDef).map(([fieldName, rollup]) => [
+      fieldName,
+      { ...rollupFieldDefinition(this.app, rollup), ...rollup, readOnly: true }
+    ]))
+    const hasRollups = Object.keys(rollups).length > 0
+    
     const modelCode = `// Generated ${entityName} Model
 // Always regenerated from truth file - do not edit
 import { apiClient } from '../api/client.js'
@@ -179,10 +236,15 @@ import { apiClient } from '../api/client.js'
 // Entity schema
 export const ${entityName}Schema = {
   name: '${entityName}',
-  fields: ${JSON.stringify(entityDef.fields, null, 2)}
+  fields: ${JSON.stringify(entityDef.fields, null, 2)}${hasComputed ? `,
+  // Evaluated by the server on every read; writes ignore them
+  computed: ${JSON.stringify(computed, null, 2)}` : ''}${hasRollups ? `,
+  // Aggregated by the server from related records on every read; writes ignore them
+  rollups: ${JSON.stringify(rollups, null, 2)}` : ''}
 }
 
-// Data hook for fetching ${entityName} entities
+// Data hook for fetching ${entityName} entities. With { live: true } changes
+// made elsewhere are applied as they happen, see /api/${entityLower}s/_stream
 export function use${entityName}s(options = {}) {
   // Access global hooks and utilities
   const { useState, useEffect, useCallback } = window
@@ -236,19 +298,24 @@ export function use${entityName}s(options = {}) {
   }
   
   const [data, setData] = useState([])
+  const [pagination, setPagination] = useState(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState(null)
+  const { live, ...params } = options
 
-  const fetchData = useCallback(async () => {
+  // In the background the current items stay on screen until the new ones arrive
+  const fetchData = useCallback(async (background = false) => {
     try {
-      setLoading(true)
+      if (!background) setLoading(true)
       setError(null)
       
-      const response = await apiClient.get('/api/${entityLower}s', { params: options })
+      const response = await apiClient.get('/api/${entityLower}s', { params })
       
       // Handle different response formats
       const items = response.data?.items || response.items || response.data || response
       setData(Array.isArray(items) ? items : [])
+      // { limit, offset, total, hasMore, nextCursor } - pass nextCursor back as options.after
+      setPagination(response.data?.pagination || response.pagination || null)
       
     } catch (err) {
       console.error('Error fetching ${entityLower}s:', err)
@@ -257,18 +324,46 @@ export function use${entityName}s(options = {}) {
     } finally {
       setLoading(false)
     }
-  }, [JSON.stringify(options)])
+  }, [JSON.stringify(params)])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
+  // Updates and deletes are applied to the loaded items. New and restored
+  // records are fetched again, as only the server knows where they belong in
+  // a filtered, sorted page. The browser reconnects by itself and resumes
+  // after the last event it received; a reset means events were missed.
+  useEffect(() => {
+    if (!live || typeof EventSource === 'undefined') return
+    
+    const source = new EventSource('/api/${entityLower}s/_stream', { withCredentials: true })
+    const applyChange = (message) => {
+      const change = JSON.parse(message.data)
+      const removed = change.type === 'delete' || change.type === 'purge'
+      setData(items => removed
+        ? items.filter(item => item.id !== change.entityId)
+        : items.map(item => item.id === change.entityId ? { ...item, ...change.data } : item))
+    }
+    
+    source.addEventListener('update', applyChange)
+    source.addEventListener('behavior', applyChange)
+    source.addEventListener('delete', applyChange)
+    source.addEventListener('purge', applyChange)
+    source.addEventListener('create', () => fetchData(true))
+    source.addEventListener('restore', () => fetchData(true))
+    source.addEventListener('reset', () => fetchData(true))
+    
+    return () => source.close()
+  }, [live, fetchData])
+
   const refetch = useCallback(() => {
     fetchData()
   }, [fetchData])
 
   return { 
     data, 
+    pagination,
     loading, 
     error, 
     refetch,
@@ -285,33 +380,89 @@ export function use${entityName}Mutations() {
       return result.data || result
     },
 
-    update${entityName}: async (id, data) => {
-      const result = await apiClient.put(\`/api/${entityLower}s/\${id}\`, data)
+    // Single-record writes take { ifMatch: get${entityName}ETag(record) } to fail
+    // with error.conflict instead of overwriting someone else's changes
+
+    // Changes only the fields in data; null clears a field
+    update${entityName}: async (id, data, { ifMatch } = {}) => {
+      const result = await apiClient.patch(\`/api/${entityLower}s/\${id}\`, data, {
+        headers: ifMatch ? { 'If-Match': ifMatch } : {}
+      })
+      return result.data || result
+    },
+
+    // Replaces the whole record; fields left out are cleared
+    replace${entityName}: async (id, data, { ifMatch } = {}) => {
+      const result = await apiClient.put(\`/api/${entityLower}s/\${id}\`, data, {
+        headers: ifMatch ? { 'If-Match': ifMatch } : {}
+      })
       return result.data || result
     },
 
-    delete${entityName}: async (id) => {
-      await apiClient.delete(\`/api/${entityLower}s/\${id}\`)
+    // RFC 6902 operations, e.g. [{ op: 'add', path: '/watchers/-', value: personId }]
+    patch${entityName}: async (id, operations, { ifMatch } = {}) => {
+      const result = await apiClient.patch(\`/api/${entityLower}s/\${id}\`, operations, {
+        headers: { 'Content-Type': 'application/json-patch+json', ...(ifMatch && { 'If-Match': ifMatch }) }
+      })
+      return result.data || result
     },
 
-    // Batch operations
-    createMany${entityName}s: async (items) => {
-      const results = await Promise.all(
-        items.map(item => apiClient.post('/api/${entityLower}s', item))
-      )
-      return results.map(r => r.data || r)
+${isSoftDelete(entityDef) ? `    // Moves the record to the trash, see restore${entityName} and purge${entityName}
+` : ''}    delete${entityName}: async (id, { ifMatch } = {}) => {
+      await apiClient.delete(\`/api/${entityLower}s/\${id}\`, {
+        headers: ifMatch ? { 'If-Match': ifMatch } : {}
+      })
+    },
+${isSoftDelete(entityDef) ? `
+    restore${entityName}: async (id) => {
+      const result = await apiClient.post(\`/api/${entityLower}s/\${id}/restore\`)
+      return result.data || result
     },
 
-    deleteMany${entityName}s: async (ids) => {
-      await Promise.all(
-        ids.map(id => apiClient.delete(\`/api/${entityLower}s/\${id}\`))
-      )
+    // Permanent; works on trashed and live records alike
+    purge${entityName}: async (id, { ifMatch } = {}) => {
+      await apiClient.delete(\`/api/${entityLower}s/\${id}/purge\`, {
+        headers: ifMatch ? { 'If-Match': ifMatch } : {}
+      })
+    },
+` : ''}${entityDef.behaviors ? `
+    // Runs a behavior such as ${Object.keys(entityDef.behaviors)[0]}; input holds its parameters.
+    // Fails with status 403 or 409 and error.reason when it is not allowed now.
+    run${entityName}Behavior: async (id, behavior, input = {}, { ifMatch } = {}) => {
+      const result = await apiClient.post(\`/api/${entityLower}s/\${id}/\${behavior}\`, input, {
+        headers: ifMatch ? { 'If-Match': ifMatch } : {}
+      })
+      return result.data || result
+    },
+` : ''}
+    // Batch operations - one request, applied in a single transaction.
+    // With atomic: false, items that fail are reported and the rest are saved.
+    bulk${entityName}s: async (operations, { atomic = true } = {}) => {
+      const result = await apiClient.post('/api/${entityLower}s/_bulk', { atomic, operations })
+      return result.data || result
+    },
+
+    createMany${entityName}s: async (items, options = {}) => {
+      const result = await apiClient.post('/api/${entityLower}s/_bulk', {
+        atomic: options.atomic ?? true,
+        operations: items.map(data => ({ op: 'create', data }))
+      })
+      return (result.data?.results || []).map(r => r.data || r)
+    },
+
+    deleteMany${entityName}s: async (ids, options = {}) => {
+      const result = await apiClient.post('/api/${entityLower}s/_bulk', {
+        atomic: options.atomic ?? true,
+        operations: ids.map(id => ({ op: 'delete', id }))
+      })
+      return result.data || result
     }
   }
 }
 
 // Individual ${entityName} hook (for detail views)
-export function use${entityName}(id) {
+// options.include embeds related records, e.g. { include: 'assignedTo' }
+export function use${entityName}(id, options = {}) {
   // Access global hooks and utilities
   const { useState, useEffect } = window
   
@@ -337,7 +488,7 @@ export function use${entityName}(id) {
         setLoading(true)
         setError(null)
         
-        const response = await apiClient.get(\`/api/${entityLower}s/\${id}\`)
+        const response = await apiClient.get(\`/api/${entityLower}s/\${id}\`, { params: options })
         setData(response.data || response)
         
       } catch (err) {
@@ -350,7 +501,7 @@ export function use${entityName}(id) {
     }
 
     fetchItem()
-  }, [id])
+  }, [id, JSON.stringify(options)])
 
   return { data, loading, error }
 }
@@ -375,13 +526,35 @@ export function validate${entityName}(data) {
   }
 }
 
+// Grouped statistics, e.g. { groupBy: 'status', metrics: 'count,avg:estimate' };
+// takes the same filters as the list endpoint
+export async function fetch${entityName}Aggregate(params = {}) {
+  const response = await apiClient.get('/api/${entityLower}s/_aggregate', { params })
+  return response.data?.groups || []
+}
+
+${isSoftDelete(entityDef) ? `// Soft-deleted ${entityName}s, most recently deleted first; takes the same
+// params as the list endpoint
+export async function fetch${entityName}Trash(params = {}) {
+  const response = await apiClient.get('/api/${entityLower}s/_trash', { params })
+  return {
+    items: response.data?.items || [],
+    pagination: response.data?.pagination || null
+  }
+}
+
+` : ''}// ETag of a loaded record (the server's is its quoted version), for If-Match
+export function get${entityName}ETag(record) {
+  return record?.version != null ? \`"\${record.version}"\` : undefined
+}
+
 // Field metadata helpers
 export function get${entityName}Fields() {
   return Object.keys(${entityName}Schema.fields)
 }
 
 export function get${entityName}FieldType(fieldName) {
-  return ${entityName}Schema.fields[fieldName]?.type
+  return ${entityName}Schema.fields[fieldName]?.type${hasComputed ? ` ?? ${entityName}Schema.computed[fieldName]?.type` : ''}${hasRollups ? ` ?? ${entityName}Schema.rollups[fieldName]?.type` : ''}
 }
 
 export function get${entityName}FieldOptions(fieldName) {
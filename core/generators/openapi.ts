@@ -0,0 +1,1267 @@
+// OpenAPI 3.1 description of the generated REST API, served at /api/openapi.json
+//
+// The document is derived from the truth file the same way the API generators
+// derive their routes: one tag per entity with its list, aggregate, export,
+// import, bulk and record routes, trash routes for soft-delete entities, history
+// for audited ones, version routes for versioned ones, link routes for many
+// relations and one operation per behavior. Field constraints come from the validation schemas, so the contract
+// matches what the API accepts.
+
+import { AppDefinition, BehaviorDefinition, EntityDefinition, FieldDefinition, RelationFieldDefinition } from '../types/index.ts';
+import { GeneratorError } from './types.ts';
+import { ValidationSchemaGenerator } from '../validation/schema-generator.ts';
+import { FieldValidation } from '../validation/types.ts';
+import {
+  behaviorInputEntity,
+  computedFieldDefinition,
+  DELETED_AT_COLUMN,
+  FilterParser,
+  getComputedFields,
+  getManyRelations,
+  getQueryableRollups,
+  getRollups,
+  hasBehaviorInput,
+  isAudited,
+  isHiddenField,
+  isManyRelation,
+  isSoftDelete,
+  isVersioned,
+  isWriteOnlyField,
+  JSON_PATCH_TYPE,
+  MAX_IMPORT_ROWS,
+  MERGE_PATCH_TYPE,
+  rollupFieldDefinition,
+  SortParser,
+  TRANSFER_FORMATS,
+  VERSION_COLUMN,
+} from '../query/index.ts';
+
+export interface JSONSchema {
+  description?: string;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+}
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers: { url: string }[];
+  tags: { name: string; description?: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: {
+    schemas: Record<string, JSONSchema>;
+    parameters: Record<string, unknown>;
+    headers: Record<string, unknown>;
+    responses: Record<string, unknown>;
+    securitySchemes?: Record<string, unknown>;
+  };
+  security?: Record<string, string[]>[];
+}
+
+export interface OpenAPIGeneratorOptions {
+  authenticated?: boolean;  // Describe the authenticated API; defaults to settings.auth.enabled
+  serverUrl?: string;       // Where the API is mounted; defaults to /api
+}
+
+// Columns every table has, returned with each record
+const RECORD_COLUMNS = ['id', 'created_at', 'updated_at', VERSION_COLUMN];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+export class OpenAPIGenerator {
+  private validationGenerator = new ValidationSchemaGenerator();
+  private filterParser = new FilterParser();
+  private sortParser = new SortParser();
+  private authenticated: boolean;
+  private serverUrl: string;
+
+  constructor(private app: AppDefinition, options: OpenAPIGeneratorOptions = {}) {
+    this.authenticated = options.authenticated ?? this.app.settings?.auth?.enabled === true;
+    this.serverUrl = options.serverUrl ?? '/api';
+  }
+
+  generate(): OpenAPIDocument {
+    if (!this.app.entities) {
+      throw new GeneratorError('OpenAPIGenerator', 'No entities defined in app');
+    }
+    
+    const document: OpenAPIDocument = {
+      openapi: '3.1.0',
+      info: {
+        title: this.app.name,
+        version: this.app.version || '1.0.0',
+        ...(this.app.description && { description: this.app.description }),
+      },
+      servers: [{ url: this.serverUrl }],
+      tags: [],
+      paths: {},
+      components: {
+        schemas: this.sharedSchemas(),
+        parameters: this.sharedParameters(),
+        headers: {
+          ETag: {
+            description: 'Version of the record; send it back in If-Match to update only that version',
+            schema: { type: 'string' },
+          },
+        },
+        responses: this.sharedResponses(),
+      },
+    };
+    
+    for (const [entityName, entity] of Object.entries(this.app.entities)) {
+      document.tags.push({ name: entityName });
+      Object.assign(document.components.schemas, this.entitySchemas(entityName, entity));
+      Object.assign(document.paths, this.entityPaths(entityName, entity));
+    }
+    document.tags.push({ name: 'Changes', description: 'Live change feeds' });
+    Object.assign(document.paths, this.changeFeedPaths());
+    
+    if (this.authenticated) {
+      document.components.securitySchemes = {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        cookieAuth: { type: 'apiKey', in: 'cookie', name: 'auth_token' },
+      };
+      document.security = [{ bearerAuth: [] }, { cookieAuth: [] }];
+      document.tags.push({ name: 'Auth', description: 'Sessions and the current user' });
+      Object.assign(document.components.schemas, this.authSchemas());
+      Object.assign(document.paths, this.authPaths());
+    }
+    
+    return document;
+  }
+
+  // Schemas
+
+  private sharedSchemas(): Record<string, JSONSchema> {
+    const errorResponse: JSONSchema = {
+      type: 'object',
+      required: ['success', 'error', 'meta'],
+      properties: {
+        success: { const: false },
+        error: {
+          type: 'object',
+          required: ['code', 'message', 'timestamp'],
+          properties: {
+            code: { type: 'string', description: 'Framework error code, e.g. E2001' },
+            message: { type: 'string' },
+            details: {},
+            suggestions: { type: 'array', items: { type: 'string' } },
+            timestamp: { type: 'string', format: 'date-time' },
+            requestId: { type: 'string' },
+          },
+        },
+        meta: ref('ResponseMeta'),
+      },
+    };
+    
+    const schemas: Record<string, JSONSchema> = {
+      ResponseMeta: {
+        type: 'object',
+        required: ['timestamp', 'requestId', 'version'],
+        properties: {
+          timestamp: { type: 'string', format: 'date-time' },
+          requestId: { type: 'string' },
+          version: { type: 'string' },
+          duration: { type: 'integer', description: 'Milliseconds spent on the request' },
+        },
+      },
+      ErrorResponse: errorResponse,
+      Pagination: {
+        type: 'object',
+        required: ['limit', 'offset', 'total', 'hasMore', 'nextCursor'],
+        properties: {
+          limit: { type: 'integer' },
+          offset: { type: 'integer' },
+          total: { type: ['integer', 'null'], description: 'Null when the read rule is checked per record' },
+          hasMore: { type: 'boolean' },
+          nextCursor: { type: ['string', 'null'], description: 'Pass as `after` to fetch the next page' },
+        },
+      },
+      AggregateGroup: {
+        type: 'object',
+        required: ['key', 'metrics'],
+        properties: {
+          key: { type: 'object', description: 'Grouped field values; empty without groupBy', additionalProperties: true },
+          metrics: { type: 'object', description: 'Metric values keyed as requested, e.g. avg:estimate', additionalProperties: true },
+        },
+      },
+      JsonPatch: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['op', 'path'],
+          properties: {
+            op: { enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+            path: { type: 'string', description: 'JSON Pointer, e.g. /title' },
+            from: { type: 'string' },
+            value: {},
+          },
+        },
+      },
+      BulkRequest: {
+        type: 'object',
+        required: ['operations'],
+        properties: {
+          atomic: { type: 'boolean', default: true, description: 'Roll everything back when one operation fails' },
+          operations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['op'],
+              properties: {
+                op: { enum: ['create', 'update', 'delete'] },
+                id: { type: 'string', description: 'Record to update or delete' },
+                data: { type: 'object', description: 'Record data for create and update' },
+              },
+            },
+          },
+        },
+      },
+      BulkOutcome: {
+        type: 'object',
+        required: ['atomic', 'committed', 'results', 'summary'],
+        properties: {
+          atomic: { type: 'boolean' },
+          committed: { type: 'boolean' },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['index', 'op', 'status'],
+              properties: {
+                index: { type: 'integer' },
+                op: { enum: ['create', 'update', 'delete'] },
+                status: { type: 'integer' },
+                id: { type: 'string' },
+                data: { type: 'object' },
+                error: { type: 'object' },
+              },
+            },
+          },
+          summary: {
+            type: 'object',
+            properties: {
+              created: { type: 'integer' },
+              updated: { type: 'integer' },
+              deleted: { type: 'integer' },
+              failed: { type: 'integer' },
+            },
+          },
+        },
+      },
+      ImportReport: {
+        type: 'object',
+        required: ['dryRun', 'committed', 'summary', 'errors'],
+        properties: {
+          dryRun: { type: 'boolean' },
+          committed: { type: 'boolean', description: 'False for dry runs, which write nothing' },
+          summary: {
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              created: { type: 'integer' },
+              updated: { type: 'integer' },
+              failed: { type: 'integer' },
+            },
+          },
+          errors: {
+            type: 'array',
+            description: 'Rows that were skipped, numbered from 1 without the CSV header',
+            items: {
+              type: 'object',
+              required: ['row', 'code', 'message'],
+              properties: {
+                row: { type: 'integer' },
+                code: { type: 'string' },
+                message: { type: 'string' },
+                errors: {
+                  type: 'array',
+                  items: { type: 'object', properties: { field: { type: 'string' }, message: { type: 'string' }, code: { type: 'string' } } },
+                },
+              },
+            },
+          },
+        },
+      },
+      FieldChanges: {
+        type: 'object',
+        description: 'Old and new value of each changed field',
+        additionalProperties: { type: 'object', required: ['old', 'new'], properties: { old: {}, new: {} } },
+      },
+      AuditEntry: {
+        type: 'object',
+        required: ['id', 'action', 'behavior', 'changes', 'userId', 'requestId', 'timestamp'],
+        properties: {
+          id: { type: 'integer' },
+          action: { enum: ['create', 'update', 'delete', 'restore', 'purge'] },
+          behavior: { type: ['string', 'null'], description: 'Set when the change was made by a behavior' },
+          changes: ref('FieldChanges'),
+          userId: { type: ['string', 'null'] },
+          requestId: { type: ['string', 'null'] },
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+      },
+      RecordVersion: {
+        type: 'object',
+        required: ['version', 'action', 'userId', 'requestId', 'restoredFrom', 'timestamp'],
+        properties: {
+          version: { type: 'integer', minimum: 1 },
+          action: { enum: ['create', 'update', 'delete', 'restore', 'purge'] },
+          userId: { type: ['string', 'null'] },
+          requestId: { type: ['string', 'null'] },
+          restoredFrom: { type: ['integer', 'null'], description: 'Version this one rolled the record back to' },
+          timestamp: { type: 'string', format: 'date-time' },
+          data: { type: ['object', 'null'], description: 'The record as stored; null once it was removed for good' },
+        },
+      },
+      ChangeEvent: {
+        type: 'object',
+        required: ['id', 'entity', 'entityId', 'type', 'behavior', 'data', 'timestamp'],
+        properties: {
+          id: { type: 'integer', description: 'Increases with every change; send the last one received as Last-Event-ID' },
+          entity: { type: 'string' },
+          entityId: { type: 'string' },
+          type: { enum: ['create', 'update', 'delete', 'restore', 'purge', 'behavior'] },
+          behavior: { type: ['string', 'null'], description: 'Set when type is behavior' },
+          data: { type: ['object', 'null'], description: 'The record after the change; for deletes, as it was' },
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+      },
+    };
+    
+    return schemas;
+  }
+
+  private entitySchemas(entityName: string, entity: EntityDefinition): Record<string, JSONSchema> {
+    const schemas: Record<string, JSONSchema> = {
+      [entityName]: this.recordSchema(entity),
+      [`${entityName}Input`]: this.inputSchema(entity),
+      [`${entityName}Patch`]: this.inputSchema(entity, true),
+    };
+    
+    for (const [behaviorName, behavior] of Object.entries(entity.behaviors || {})) {
+      if (hasBehaviorInput(behavior)) {
+        schemas[this.behaviorSchemaName(entityName, behaviorName)] = this.inputSchema(behaviorInputEntity(behavior));
+      }
+    }
+    
+    return schemas;
+  }
+
+  /**
+   * A record as responses return it: stored columns, many relations as id
+   * lists, then computed and rollup values. Hidden and write-only fields are
+   * never returned; fields with read rules may be left out for some callers.
+   */
+  private recordSchema(entity: EntityDefinition): JSONSchema {
+    const properties: Record<string, JSONSchema> = {
+      id: { type: 'string', readOnly: true },
+      created_at: { type: 'string', format: 'date-time', readOnly: true },
+      updated_at: { type: 'string', format: 'date-time', readOnly: true },
+      [VERSION_COLUMN]: { type: 'integer', readOnly: true, description: 'Incremented on every write' },
+    };
+    const required = [...RECORD_COLUMNS];
+    
+    if (isSoftDelete(entity)) {
+      properties[DELETED_AT_COLUMN] = { type: ['string', 'null'], format: 'date-time', readOnly: true };
+    }
+    
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (RECORD_COLUMNS.includes(fieldName)) continue;
+      if (isHiddenField(field) || isWriteOnlyField(fieldName, field)) continue;
+      
+      const schema = this.fieldSchema(field);
+      properties[fieldName] = isManyRelation(field) || field.required ? schema : nullable(schema);
+      if (field.permissions?.read) {
+        properties[fieldName].description = joinSentences(properties[fieldName].description, 'Left out for callers who may not read it.');
+      } else if (field.required || isManyRelation(field)) {
+        required.push(fieldName);
+      }
+    }
+    
+    for (const [name, expression] of getComputedFields(entity)) {
+      properties[name] = { ...nullable(this.fieldSchema(computedFieldDefinition(entity, expression))), readOnly: true, description: `Computed: ${expression}` };
+    }
+    for (const [name, rollup] of getRollups(entity)) {
+      const description = `${rollup.aggregate} of ${rollup.from}${rollup.field ? `.${rollup.field}` : ''} via ${rollup.via}${rollup.where ? ` where ${rollup.where}` : ''}`;
+      // Counts and sums of nothing are 0; the other aggregates are null
+      const schema = this.fieldSchema(rollupFieldDefinition(this.app, rollup));
+      const valued = rollup.aggregate === 'count' || rollup.aggregate === 'sum';
+      properties[name] = { ...(valued ? schema : nullable(schema)), readOnly: true, description };
+    }
+    
+    return { type: 'object', required, properties };
+  }
+
+  /**
+   * Request body for create and replace, with the constraints the validator
+   * enforces; `partial` leaves everything optional and nullable for merge patches
+   */
+  private inputSchema(entity: EntityDefinition, partial = false): JSONSchema {
+    const validation = this.validationGenerator.generateEntitySchema(entity);
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+    
+    for (const [fieldName, field] of Object.entries(entity.fields)) {
+      if (RECORD_COLUMNS.includes(fieldName) || isHiddenField(field)) continue;
+      
+      const schema = withConstraints(this.fieldSchema(field), validation.fields[fieldName]);
+      if (field.default !== undefined && field.default !== 'auto' && field.default !== 'now') {
+        schema.default = field.default;
+      }
+      if (isWriteOnlyField(fieldName, field)) {
+        schema.writeOnly = true;
+      }
+      if (field.permissions?.write) {
+        schema.description = joinSentences(schema.description, 'Ignored for callers who may not write it.');
+      }
+      
+      properties[fieldName] = partial ? nullable(schema) : schema;
+      if (!partial && validation.fields[fieldName]?.required) {
+        required.push(fieldName);
+      }
+    }
+    
+    return {
+      type: 'object',
+      ...(required.length > 0 && { required }),
+      properties,
+    };
+  }
+
+  private fieldSchema(field: FieldDefinition): JSONSchema {
+    const schema: JSONSchema = (() => {
+      switch (field.type) {
+        case 'number':
+          return { type: 'number' };
+        case 'integer':
+          return { type: 'integer' };
+        case 'boolean':
+          return { type: 'boolean' };
+        case 'date':
+          return { type: 'string', format: 'date' };
+        case 'datetime':
+          return { type: 'string', format: 'date-time' };
+        case 'uuid':
+          return { type: 'string', format: 'uuid' };
+        case 'enum': {
+          const options = ('options' in field && field.options) || ('values' in field && field.values) || [];
+          return { type: 'string', enum: [...options] };
+        }
+        case 'relation': {
+          const target = (field as RelationFieldDefinition).to;
+          return isManyRelation(field)
+            ? { type: 'array', items: { type: 'string' }, description: `Ids of ${target} records.` }
+            : { type: 'string', description: `Id of a ${target}.` };
+        }
+        case 'json':
+          return {};
+        default:
+          return { type: 'string' };
+      }
+    })();
+    
+    if (field.description) {
+      schema.description = joinSentences(field.description, schema.description);
+    }
+    return schema;
+  }
+
+  private behaviorSchemaName(entityName: string, behaviorName: string): string {
+    return `${entityName}${capitalize(behaviorName)}Input`;
+  }
+
+  // Paths
+
+  private entityPaths(entityName: string, entity: EntityDefinition): Record<string, Record<string, unknown>> {
+    const base = `/${entityName.toLowerCase()}s`;
+    const record = `${base}/{id}`;
+    const tags = [entityName];
+    const paths: Record<string, Record<string, unknown>> = {};
+    const recordResponse = (description: string, extra: Record<string, unknown> = {}) =>
+      this.jsonResponse(description, this.envelope(ref(entityName)), {
+        headers: { ETag: { $ref: '#/components/headers/ETag' } },
+        ...extra,
+      });
+    const messageResponse = (description: string) =>
+      this.jsonResponse(description, this.envelope({ type: 'object', required: ['message'], properties: { message: { type: 'string' } } }));
+    const idempotencyKey = { $ref: '#/components/parameters/IdempotencyKey' };
+    const idempotencyResponses = {
+      409: { $ref: '#/components/responses/IdempotencyKeyInUse' },
+      422: { $ref: '#/components/responses/IdempotencyKeyReused' },
+    };
+    
+    paths[base] = {
+      get: {
+        tags,
+        operationId: `list${entityName}s`,
+        summary: `List ${entityName} records`,
+        parameters: [...this.listParameters(entityName, entity), { $ref: '#/components/parameters/include' }],
+        responses: {
+          200: this.jsonResponse(`A page of ${entityName} records`, this.listSchema(entityName)),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+      post: {
+        tags,
+        operationId: `create${entityName}`,
+        summary: `Create a ${entityName}`,
+        parameters: [idempotencyKey],
+        requestBody: this.jsonBody(ref(`${entityName}Input`)),
+        responses: {
+          201: recordResponse('Created'),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          ...idempotencyResponses,
+        },
+      },
+    };
+    
+    if (isSoftDelete(entity)) {
+      paths[`${base}/_trash`] = {
+        get: {
+          tags,
+          operationId: `list${entityName}Trash`,
+          summary: `List trashed ${entityName} records`,
+          parameters: [...this.listParameters(entityName, entity), { $ref: '#/components/parameters/include' }],
+          responses: {
+            200: this.jsonResponse(`A page of trashed ${entityName} records`, this.listSchema(entityName)),
+            400: { $ref: '#/components/responses/BadRequest' },
+            ...this.authResponses(),
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+    }
+    
+    paths[`${base}/_aggregate`] = {
+      get: {
+        tags,
+        operationId: `aggregate${entityName}s`,
+        summary: `Grouped statistics over ${entityName} records`,
+        parameters: [
+          { $ref: '#/components/parameters/groupBy' },
+          { $ref: '#/components/parameters/metrics' },
+          ...this.listParameters(entityName, entity).filter(parameter => !this.isPagingParameter(parameter)),
+        ],
+        responses: {
+          200: this.jsonResponse('Groups with their metrics', this.envelope({
+            type: 'object',
+            required: ['groups'],
+            properties: { groups: { type: 'array', items: ref('AggregateGroup') } },
+          })),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    paths[`${base}/_bulk`] = {
+      post: {
+        tags,
+        operationId: `bulk${entityName}s`,
+        summary: `Create, update and delete ${entityName} records in one request`,
+        parameters: [idempotencyKey],
+        requestBody: this.jsonBody(ref('BulkRequest')),
+        responses: {
+          200: this.jsonResponse('Every operation was applied', this.envelope(ref('BulkOutcome'))),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          ...idempotencyResponses,
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    paths[`${base}/_export`] = {
+      get: {
+        tags,
+        operationId: `export${entityName}s`,
+        summary: `Download every matching ${entityName} record`,
+        parameters: [
+          { name: 'format', in: 'query', schema: { enum: [...TRANSFER_FORMATS], default: 'csv' } },
+          ...this.listParameters(entityName, entity)
+            .filter(parameter => parameter.name === 'sort' || !this.isPagingParameter(parameter)),
+        ],
+        responses: {
+          200: {
+            description: 'The records; CSV columns follow the record schema',
+            content: {
+              'text/csv': { schema: { type: 'string' } },
+              'application/x-ndjson': { schema: { type: 'string', description: 'One record per line' } },
+              'application/json': { schema: { type: 'array', items: ref(entityName) } },
+            },
+          },
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    paths[`${base}/_stream`] = {
+      get: {
+        tags,
+        operationId: `stream${entityName}Changes`,
+        summary: `Server-Sent Events for every change to ${entityName} records${this.authenticated ? ' the caller may read' : ''}`,
+        parameters: [
+          {
+            name: 'Last-Event-ID',
+            in: 'header',
+            description: 'Id of the last event received; the events after it are sent first',
+            schema: { type: 'integer', minimum: 0 },
+          },
+          { name: 'lastEventId', in: 'query', description: 'Same as Last-Event-ID, for the first connection', schema: { type: 'integer', minimum: 0 } },
+        ],
+        responses: {
+          200: {
+            description: 'Events named after their type. ' +
+              'A reset event means the events since Last-Event-ID are no longer kept; reload instead.',
+            content: { 'text/event-stream': { schema: { type: 'string', description: 'data lines hold a ChangeEvent as JSON' } } },
+          },
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    const unique = Object.entries(entity.fields)
+      .filter(([, field]) => field.unique === true && !isHiddenField(field) && !isManyRelation(field))
+      .map(([fieldName]) => fieldName);
+    paths[`${base}/_import`] = {
+      post: {
+        tags,
+        operationId: `import${entityName}s`,
+        summary: `Create or update ${entityName} records from a file; rows that fail are reported and skipped`,
+        parameters: [
+          { name: 'format', in: 'query', description: 'Defaults to the Content-Type', schema: { enum: [...TRANSFER_FORMATS] } },
+          { name: 'dryRun', in: 'query', description: 'Validate and report without writing', schema: { type: 'boolean' } },
+          {
+            name: 'upsert',
+            in: 'query',
+            description: 'Update the record with the same value of this field instead of creating one',
+            schema: { enum: ['id', ...unique] },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'text/csv': { schema: { type: 'string', description: 'Header row of field names; empty cells are left out' } },
+            'application/x-ndjson': { schema: { type: 'string', description: 'One record per line' } },
+            'application/json': { schema: { type: 'array', maxItems: MAX_IMPORT_ROWS, items: ref(`${entityName}Input`) } },
+          },
+        },
+        responses: {
+          200: this.jsonResponse('Rows were read; see the report for any that failed', this.envelope(ref('ImportReport'))),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    const ifMatch = { $ref: '#/components/parameters/IfMatch' };
+    paths[record] = {
+      parameters: [{ $ref: '#/components/parameters/id' }],
+      get: {
+        tags,
+        operationId: `get${entityName}`,
+        summary: `Get a ${entityName}`,
+        parameters: [{ $ref: '#/components/parameters/include' }],
+        responses: {
+          200: this.jsonResponse(`The ${entityName}`, this.envelope(ref(entityName)), {
+            headers: { ETag: { $ref: '#/components/headers/ETag' } },
+          }),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          404: { $ref: '#/components/responses/NotFound' },
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+      put: {
+        tags,
+        operationId: `replace${entityName}`,
+        summary: `Replace a ${entityName}; fields left out are cleared or reset to their default`,
+        parameters: [ifMatch],
+        requestBody: this.jsonBody(ref(`${entityName}Input`)),
+        responses: {
+          200: recordResponse(`The updated ${entityName}`),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          404: { $ref: '#/components/responses/NotFound' },
+          412: { $ref: '#/components/responses/PreconditionFailed' },
+        },
+      },
+      patch: {
+        tags,
+        operationId: `patch${entityName}`,
+        summary: `Update some fields of a ${entityName}`,
+        parameters: [ifMatch],
+        requestBody: {
+          required: true,
+          content: {
+            [MERGE_PATCH_TYPE]: { schema: ref(`${entityName}Patch`) },
+            [JSON_PATCH_TYPE]: { schema: ref('JsonPatch') },
+          },
+        },
+        responses: {
+          200: recordResponse(`The updated ${entityName}`),
+          400: { $ref: '#/components/responses/BadRequest' },
+          ...this.authResponses(),
+          404: { $ref: '#/components/responses/NotFound' },
+          412: { $ref: '#/components/responses/PreconditionFailed' },
+          415: this.jsonResponse(`Content-Type is neither ${MERGE_PATCH_TYPE} nor ${JSON_PATCH_TYPE}`, ref('ErrorResponse')),
+        },
+      },
+      delete: {
+        tags,
+        operationId: `delete${entityName}`,
+        summary: isSoftDelete(entity) ? `Move a ${entityName} to the trash` : `Delete a ${entityName}`,
+        parameters: [ifMatch],
+        responses: {
+          200: messageResponse('Deleted'),
+          ...this.authResponses(),
+          404: { $ref: '#/components/responses/NotFound' },
+          409: { $ref: '#/components/responses/Conflict' },
+          412: { $ref: '#/components/responses/PreconditionFailed' },
+          500: { $ref: '#/components/responses/ServerError' },
+        },
+      },
+    };
+    
+    if (isSoftDelete(entity)) {
+      paths[`${record}/restore`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        post: {
+          tags,
+          operationId: `restore${entityName}`,
+          summary: `Take a ${entityName} back out of the trash`,
+          parameters: [ifMatch],
+          responses: {
+            200: recordResponse(`The restored ${entityName}`),
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            412: { $ref: '#/components/responses/PreconditionFailed' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+      paths[`${record}/purge`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        delete: {
+          tags,
+          operationId: `purge${entityName}`,
+          summary: `Remove a ${entityName} for good, whether trashed or not`,
+          parameters: [ifMatch],
+          responses: {
+            200: messageResponse('Permanently deleted'),
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/Conflict' },
+            412: { $ref: '#/components/responses/PreconditionFailed' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+    }
+    
+    if (isAudited(entity)) {
+      paths[`${record}/history`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        get: {
+          tags,
+          operationId: `get${entityName}History`,
+          summary: `Changes made to a ${entityName}, newest first`,
+          parameters: [{ $ref: '#/components/parameters/limit' }, { $ref: '#/components/parameters/offset' }],
+          responses: {
+            200: this.jsonResponse('Audit entries', this.envelope({
+              type: 'object',
+              required: ['items', 'pagination'],
+              properties: { items: { type: 'array', items: ref('AuditEntry') }, pagination: ref('Pagination') },
+            })),
+            400: { $ref: '#/components/responses/BadRequest' },
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+    }
+    
+    if (isVersioned(entity)) {
+      const versionParameter = (name: string) => ({ name, in: 'path', required: true, schema: { type: 'integer', minimum: 1 } });
+      const readResponses = {
+        400: { $ref: '#/components/responses/BadRequest' },
+        ...this.authResponses(),
+        404: { $ref: '#/components/responses/NotFound' },
+        500: { $ref: '#/components/responses/ServerError' },
+      };
+      
+      paths[`${record}/versions`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        get: {
+          tags,
+          operationId: `list${entityName}Versions`,
+          summary: `Snapshots of a ${entityName}, newest first`,
+          parameters: [{ $ref: '#/components/parameters/limit' }, { $ref: '#/components/parameters/offset' }],
+          responses: {
+            200: this.jsonResponse('Versions without their data', this.envelope({
+              type: 'object',
+              required: ['items', 'pagination'],
+              properties: { items: { type: 'array', items: ref('RecordVersion') }, pagination: ref('Pagination') },
+            })),
+            ...readResponses,
+          },
+        },
+      };
+      paths[`${record}/versions/{n}`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }, versionParameter('n')],
+        get: {
+          tags,
+          operationId: `get${entityName}Version`,
+          summary: `One snapshot of a ${entityName}`,
+          responses: {
+            200: this.jsonResponse('The version with its data', this.envelope(ref('RecordVersion'))),
+            ...readResponses,
+          },
+        },
+      };
+      paths[`${record}/versions/{from}/diff/{to}`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }, versionParameter('from'), versionParameter('to')],
+        get: {
+          tags,
+          operationId: `diff${entityName}Versions`,
+          summary: `Fields that differ between two snapshots of a ${entityName}`,
+          responses: {
+            200: this.jsonResponse('Old and new value of each changed field', this.envelope({
+              type: 'object',
+              required: ['from', 'to', 'changes'],
+              properties: {
+                from: { type: 'integer' },
+                to: { type: 'integer' },
+                changes: ref('FieldChanges'),
+              },
+            })),
+            ...readResponses,
+          },
+        },
+      };
+      paths[`${record}/versions/{n}/restore`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }, versionParameter('n')],
+        post: {
+          tags,
+          operationId: `restore${entityName}Version`,
+          summary: `Roll a ${entityName} back to a snapshot, checked and validated like an update`,
+          parameters: [ifMatch],
+          responses: {
+            200: recordResponse(`The ${entityName} as restored`),
+            ...readResponses,
+            412: { $ref: '#/components/responses/PreconditionFailed' },
+          },
+        },
+      };
+    }
+    
+    for (const [fieldName, relation] of getManyRelations(entity)) {
+      const links = {
+        type: 'object',
+        required: [fieldName],
+        properties: { [fieldName]: { type: 'array', items: { type: 'string' } } },
+      };
+      
+      paths[`${record}/${fieldName}`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        get: {
+          tags,
+          operationId: `list${entityName}${capitalize(fieldName)}`,
+          summary: `${relation.to} records linked through ${fieldName}`,
+          responses: {
+            200: this.jsonResponse(`Linked ${relation.to} records`, this.envelope({
+              type: 'object',
+              required: ['items'],
+              properties: { items: { type: 'array', items: ref(relation.to) } },
+            })),
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+        post: {
+          tags,
+          operationId: `link${entityName}${capitalize(fieldName)}`,
+          summary: `Link ${relation.to} records through ${fieldName}`,
+          requestBody: this.jsonBody({
+            type: 'object',
+            required: ['ids'],
+            properties: { ids: { type: 'array', items: { type: 'string' }, minItems: 1 } },
+          }),
+          responses: {
+            200: this.jsonResponse('The linked ids afterwards', this.envelope({
+              ...links,
+              properties: { ...links.properties, added: { type: 'integer' } },
+            })),
+            400: { $ref: '#/components/responses/BadRequest' },
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+      paths[`${record}/${fieldName}/{targetId}`] = {
+        parameters: [
+          { $ref: '#/components/parameters/id' },
+          { name: 'targetId', in: 'path', required: true, schema: { type: 'string' }, description: `Id of the linked ${relation.to}` },
+        ],
+        delete: {
+          tags,
+          operationId: `unlink${entityName}${capitalize(fieldName)}`,
+          summary: `Unlink a ${relation.to} from ${fieldName}`,
+          responses: {
+            200: this.jsonResponse('The linked ids afterwards', this.envelope({
+              ...links,
+              properties: { ...links.properties, removed: { type: 'integer' } },
+            })),
+            ...this.authResponses(),
+            404: { $ref: '#/components/responses/NotFound' },
+            500: { $ref: '#/components/responses/ServerError' },
+          },
+        },
+      };
+    }
+    
+    for (const [behaviorName, behavior] of Object.entries(entity.behaviors || {})) {
+      paths[`${record}/${behaviorName}`] = {
+        parameters: [{ $ref: '#/components/parameters/id' }],
+        post: this.behaviorOperation(entityName, behaviorName, behavior),
+      };
+    }
+    
+    return paths;
+  }
+
+  private behaviorOperation(entityName: string, behaviorName: string, behavior: BehaviorDefinition): Record<string, unknown> {
+    const notes = [
+      behavior.description,
+      behavior.requires && `Requires: \`${behavior.requires}\`.`,
+      behavior.guard && `Only when: \`${behavior.guard}\`.`,
+      behavior.emits && `Emits: ${[behavior.emits].flat().join(', ')}.`,
+    ].filter(Boolean);
+    
+    return {
+      tags: [entityName],
+      operationId: `${behaviorName}${entityName}`,
+      summary: behavior.label || `Run ${behaviorName} on a ${entityName}`,
+      ...(notes.length > 0 && { description: notes.join('\n\n') }),
+      parameters: [{ $ref: '#/components/parameters/IfMatch' }, { $ref: '#/components/parameters/IdempotencyKey' }],
+      ...(hasBehaviorInput(behavior) && {
+        requestBody: this.jsonBody(ref(this.behaviorSchemaName(entityName, behaviorName))),
+      }),
+      responses: {
+        200: this.jsonResponse(`The ${entityName} afterwards`, this.envelope({
+          type: 'object',
+          required: ['data', 'behavior', 'message'],
+          properties: { data: ref(entityName), behavior: { const: behaviorName }, message: { type: 'string' } },
+        }), { headers: { ETag: { $ref: '#/components/headers/ETag' } } }),
+        400: { $ref: '#/components/responses/BadRequest' },
+        403: this.jsonResponse('The caller may not run it', ref('ErrorResponse')),
+        404: { $ref: '#/components/responses/NotFound' },
+        409: this.jsonResponse('The record is not in a state where it can run, or the Idempotency-Key is in use', ref('ErrorResponse')),
+        412: { $ref: '#/components/responses/PreconditionFailed' },
+        422: { $ref: '#/components/responses/IdempotencyKeyReused' },
+        500: { $ref: '#/components/responses/ServerError' },
+      },
+    };
+  }
+
+  /**
+   * Paging, sorting, search and one filter parameter per filterable field
+   */
+  private listParameters(entityName: string, entity: EntityDefinition): Record<string, unknown>[] {
+    const rollups = getQueryableRollups(this.app, entityName);
+    const sortable = Object.keys(this.sortParser.getSortableFields(entity, rollups));
+    const filterable = this.filterParser.getFilterableFields(entity, rollups);
+    
+    const parameters: Record<string, unknown>[] = [
+      { $ref: '#/components/parameters/limit' },
+      { $ref: '#/components/parameters/offset' },
+      { $ref: '#/components/parameters/after' },
+      { $ref: '#/components/parameters/q' },
+    ];
+    if (sortable.length > 0) {
+      parameters.push({
+        name: 'sort',
+        in: 'query',
+        description: `Comma-separated fields, prefixed with - for descending. Sortable: ${sortable.join(', ')}`,
+        schema: { type: 'string' },
+      });
+    }
+    
+    for (const [fieldName, field] of Object.entries(filterable)) {
+      const operators = this.filterParser.getOperators(field).filter(operator => operator !== 'eq');
+      parameters.push({
+        name: fieldName,
+        in: 'query',
+        description: `Equal to; repeat for any of several values. Also ${operators.map(operator => `${fieldName}[${operator}]`).join(', ')}`,
+        schema: field.type === 'json' ? { type: 'string' } : this.fieldSchema({ ...field, description: undefined }),
+      });
+    }
+    
+    return parameters;
+  }
+
+  private isPagingParameter(parameter: Record<string, unknown>): boolean {
+    return parameter.name === 'sort' || ['limit', 'offset', 'after'].some(name => parameter.$ref === `#/components/parameters/${name}`);
+  }
+
+  private sharedParameters(): Record<string, unknown> {
+    return {
+      id: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      IfMatch: {
+        name: 'If-Match',
+        in: 'header',
+        description: 'ETag of the version being changed; the request fails with 412 when the record has changed since',
+        schema: { type: 'string' },
+      },
+      IdempotencyKey: {
+        name: 'Idempotency-Key',
+        in: 'header',
+        description: 'Unique per logical request; retries with the same key replay the first response instead of running again',
+        schema: { type: 'string', minLength: 1, maxLength: 255 },
+      },
+      limit: { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } },
+      offset: { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0 } },
+      after: { name: 'after', in: 'query', description: 'nextCursor of the previous page; takes precedence over offset', schema: { type: 'string' } },
+      q: { name: 'q', in: 'query', description: 'Full-text search; results carry their rank and snippet under _search', schema: { type: 'string' } },
+      include: { name: 'include', in: 'query', description: 'Relations to embed, e.g. assignedTo,project.owner', schema: { type: 'string' } },
+      groupBy: {
+        name: 'groupBy',
+        in: 'query',
+        description: 'Comma-separated fields; date fields can be bucketed with field:day|week|month|year',
+        schema: { type: 'string' },
+      },
+      metrics: {
+        name: 'metrics',
+        in: 'query',
+        description: 'Comma-separated count and count|sum|avg|min|max:field; defaults to count',
+        schema: { type: 'string' },
+      },
+    };
+  }
+
+  // Responses
+
+  private sharedResponses(): Record<string, unknown> {
+    const response = (description: string) => this.jsonResponse(description, ref('ErrorResponse'));
+    
+    return {
+      BadRequest: response('The request is invalid'),
+      Forbidden: response('The caller may not do this'),
+      NotFound: response('No such record'),
+      Conflict: response('Other records still reference this one'),
+      PreconditionFailed: response('If-Match does not match the current version'),
+      IdempotencyKeyInUse: response('A request with this Idempotency-Key is still being processed'),
+      IdempotencyKeyReused: response('The Idempotency-Key was already used for a different request'),
+      ServerError: response('Unexpected error'),
+    };
+  }
+
+  private authResponses(): Record<string, unknown> {
+    return this.authenticated ? { 403: { $ref: '#/components/responses/Forbidden' } } : {};
+  }
+
+  private listSchema(entityName: string): JSONSchema {
+    return this.envelope({
+      type: 'object',
+      required: ['items', 'pagination'],
+      properties: {
+        items: { type: 'array', items: ref(entityName) },
+        pagination: ref('Pagination'),
+      },
+    });
+  }
+
+  // Every success is wrapped in the same envelope
+  private envelope(data: JSONSchema): JSONSchema {
+    return {
+      type: 'object',
+      required: ['success', 'data', 'meta'],
+      properties: { success: { const: true }, data, meta: ref('ResponseMeta') },
+    };
+  }
+
+  private jsonResponse(description: string, schema: JSONSchema, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    return { description, ...extra, content: { 'application/json': { schema } } };
+  }
+
+  private jsonBody(schema: JSONSchema): Record<string, unknown> {
+    return { required: true, content: { 'application/json': { schema } } };
+  }
+
+  // Authentication routes, mounted under /auth when auth is enabled
+
+  private authSchemas(): Record<string, JSONSchema> {
+    return {
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string' },
+          role: { type: 'string' },
+        },
+      },
+      AuthTokens: {
+        type: 'object',
+        properties: {
+          accessToken: { type: 'string' },
+          expiresIn: { type: 'integer', description: 'Seconds until the token expires' },
+        },
+      },
+      AuthResult: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          user: ref('User'),
+          tokens: ref('AuthTokens'),
+          message: { type: 'string' },
+        },
+      },
+      AuthError: {
+        type: 'object',
+        required: ['success', 'error'],
+        properties: { success: { const: false }, error: { type: 'string' } },
+      },
+    };
+  }
+
+  private changeFeedPaths(): Record<string, Record<string, unknown>> {
+    return {
+      '/_stream': {
+        get: {
+          tags: ['Changes'],
+          operationId: 'streamChanges',
+          summary: 'WebSocket carrying the change feeds of several entities',
+          description: 'Send {"action": "subscribe", "entity": "Task", "lastEventId": 12} or {"action": "unsubscribe", "entity": "Task"}. ' +
+            'Messages back are {"type": "change", "event": ChangeEvent}, {"type": "reset", "entity"}, ' +
+            '{"type": "subscribed" | "unsubscribed", "entity"} and {"type": "error", "error"}.',
+          responses: {
+            101: { description: 'Switched to the WebSocket protocol' },
+            400: { $ref: '#/components/responses/BadRequest' },
+          },
+        },
+      },
+    };
+  }
+
+  private authPaths(): Record<string, Record<string, unknown>> {
+    const tags = ['Auth'];
+    const result = (description: string) => this.jsonResponse(description, ref('AuthResult'));
+    const failure = (description: string) => this.jsonResponse(description, ref('AuthError'));
+    const credentials = {
+      type: 'object',
+      required: ['email', 'password'],
+      properties: { email: { type: 'string', format: 'email' }, password: { type: 'string', writeOnly: true } },
+    };
+    
+    return {
+      '/auth/register': {
+        post: {
+          tags,
+          operationId: 'register',
+          summary: 'Create an account',
+          security: [],
+          requestBody: this.jsonBody({
+            ...credentials,
+            required: ['email', 'password', 'name'],
+            properties: {
+              ...credentials.properties,
+              password: { type: 'string', minLength: 6, writeOnly: true },
+              name: { type: 'string' },
+              role: { type: 'string', default: 'user' },
+            },
+          }),
+          responses: { 201: result('Registered'), 400: failure('Invalid registration') },
+        },
+      },
+      '/auth/login': {
+        post: {
+          tags,
+          operationId: 'login',
+          summary: 'Sign in; also sets the auth_token cookie',
+          security: [],
+          requestBody: this.jsonBody(credentials),
+          responses: { 200: result('Signed in'), 400: failure('Missing credentials'), 401: failure('Wrong credentials') },
+        },
+      },
+      '/auth/logout': {
+        post: {
+          tags,
+          operationId: 'logout',
+          summary: 'Sign out and clear the auth_token cookie',
+          responses: { 200: result('Signed out') },
+        },
+      },
+      '/auth/me': {
+        get: {
+          tags,
+          operationId: 'getCurrentUser',
+          summary: 'The signed-in user',
+          responses: { 200: result('The current user'), 401: failure('Not signed in') },
+        },
+      },
+    };
+  }
+}
+
+/**
+ * JSON Schema keywords for the validation rules of a field
+ */
+function withConstraints(schema: JSONSchema, validation: FieldValidation | undefined): JSONSchema {
+  for (const rule of validation?.rules || []) {
+    switch (rule.type) {
+      case 'minLength':
+        schema.minLength = rule.params?.min;
+        break;
+      case 'maxLength':
+        schema.maxLength = rule.params?.max;
+        break;
+      case 'min':
+        schema.minimum = rule.params?.min;
+        break;
+      case 'max':
+        schema.maximum = rule.params?.max;
+        break;
+      case 'pattern':
+        schema.pattern = rule.params?.pattern;
+        break;
+      // Not expressible in JSON Schema, but worth knowing before sending
+      case 'unique':
+      case 'relation':
+        schema.description = joinSentences(schema.description, `${rule.message}.`);
+        break;
+    }
+  }
+  return schema;
+}
+
+function nullable(schema: JSONSchema): JSONSchema {
+  if (schema.type === undefined) return schema;
+
+  return {
+    ...schema,
+    type: [schema.type, 'null'],
+    ...(schema.enum && { enum: [...schema.enum, null] }),
+  };
+}
+
+function joinSentences(...parts: (string | undefined)[]): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
@@ -0,0 +1,268 @@
+// Stages behind every generated API route
+//
+// Each operation, e.g. list, get, create or a behavior, is answered by the
+// same stages in the same order:
+//
+//   parse -> authenticate -> authorize -> validate -> hooks -> persist -> emit -> serialize
+//
+// A stage is middleware over the operation's state: it does its part and
+// calls next() for the stages after it, or sets state.response and returns to
+// answer early. Operations supply the stages they need and skip the others.
+// authenticate is only there with settings.auth.enabled; without it the
+// caller is anonymous and may do everything, and the other stages run the
+// same either way.
+//
+// For writes, authorize through persist run in one transaction, which is
+// committed before emit and serialize, so events and responses only announce
+// committed changes. Failing stages throw: a FrameworkError is answered with
+// its code and the status for it, anything else as a server error.
+//
+// Extensions add stages of their own next to a built-in one through
+// APIExtension.stages, resolved on every request so reloads take effect.
+
+import { Context } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
+import {
+  APIExtension,
+  APIOperation,
+  APIStage,
+  EntityDefinition,
+  OperationState,
+  StageExtension,
+} from '../types/index.ts';
+import { DatabaseError, ErrorCode, FrameworkError, ResponseBuilder } from '../errors/index.ts';
+import { FieldRuleEvaluator, QueryableComputedField, QueryExecutor } from '../query/index.ts';
+import { SQLTranslation } from '../expression/sql-translator.ts';
+
+// Database interface that core expects (but doesn't implement)
+export interface DatabaseClient extends QueryExecutor {
+  transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T>;
+}
+
+// Where extension stages come from; the runtime's ExtensionRegistry
+export interface APIStageSource {
+  getAPIStages(entity?: string): APIExtension[];
+}
+
+/**
+ * What the caller may do. Without authentication every check passes.
+ */
+export interface Permissions {
+  can(entity: EntityDefinition, record: Record<string, unknown> | null, action: string): boolean;
+  // The read rule as a list query predicate; rollups are compared through their subqueries
+  readFilter(entity: EntityDefinition, tableName: string, rollups: Record<string, QueryableComputedField>): SQLTranslation;
+  fieldRules?: FieldRuleEvaluator;
+}
+
+export const OPEN_PERMISSIONS: Permissions = {
+  can: () => true,
+  readFilter: () => ({ predicate: true, exact: true }),
+};
+
+/**
+ * The state built-in stages work with, beyond what extensions see
+ */
+export interface Operation<Input = unknown, Result = unknown> extends OperationState<Input, Result> {
+  responses: ResponseBuilder;
+  permissions: Permissions;
+  ifMatch?: string;
+}
+
+export type Stage<Input = unknown, Result = unknown> = (state: Operation<Input, Result>, next: () => Promise<void>) => Promise<void>;
+
+export interface OperationDefinition<Input = unknown, Result = unknown> {
+  operation: APIOperation;
+  behavior?: string;
+  // authorize through persist run in one transaction
+  transactional?: boolean;
+  stages: Partial<Record<APIStage, Stage<Input, Result>>>;
+  // Stages the generator adds next to built-in ones, placed like an extension's
+  inserted?: StageExtension[];
+  // Error to answer with when a stage fails with something other than a
+  // FrameworkError; a DatabaseError when left out or returning undefined
+  failure?: (error: unknown, state: Operation<Input, Result>) => FrameworkError | undefined;
+}
+
+type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 412 | 422 | 429 | 500;
+
+// Status for a FrameworkError; codes not listed are server errors
+const ERROR_STATUS: Partial<Record<string, ErrorStatus>> = {
+  [ErrorCode.VALIDATION_FAILED]: 400,
+  [ErrorCode.INVALID_FIELD_TYPE]: 400,
+  [ErrorCode.MISSING_REQUIRED_FIELD]: 400,
+  [ErrorCode.INVALID_ENUM_VALUE]: 400,
+  [ErrorCode.INVALID_REFERENCE]: 400,
+  [ErrorCode.FIELD_CONSTRAINT_VIOLATION]: 400,
+  [ErrorCode.INVALID_REQUEST_DATA]: 400,
+  [ErrorCode.BULK_OPERATION_FAILED]: 400,
+  [ErrorCode.AUTHENTICATION_FAILED]: 401,
+  [ErrorCode.PERMISSION_DENIED]: 403,
+  [ErrorCode.EXTENSION_PERMISSION_DENIED]: 403,
+  [ErrorCode.ENTITY_NOT_FOUND]: 404,
+  [ErrorCode.REFERENCE_CONFLICT]: 409,
+  [ErrorCode.BEHAVIOR_GUARD_FAILED]: 409,
+  [ErrorCode.IDEMPOTENCY_KEY_IN_USE]: 409,
+  [ErrorCode.PRECONDITION_FAILED]: 412,
+  [ErrorCode.IDEMPOTENCY_KEY_REUSED]: 422,
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: 429,
+};
+
+export function errorStatus(error: FrameworkError): ErrorStatus {
+  return ERROR_STATUS[error.code] ?? 500;
+}
+
+const BEFORE_TRANSACTION: APIStage[] = ['parse', 'authenticate'];
+const IN_TRANSACTION: APIStage[] = ['authorize', 'validate', 'hooks', 'persist'];
+const AFTER_TRANSACTION: APIStage[] = ['emit', 'serialize'];
+
+// Operations without a serialize stage answer with their result
+const respond: Stage = (state, next) => {
+  state.response ??= state.c.json(state.responses.success(state.result));
+  return next();
+};
+
+export class OperationPipeline {
+  /**
+   * `common` holds stages every operation runs unless it brings its own,
+   * e.g. authenticate
+   */
+  constructor(
+    private db: DatabaseClient,
+    private source: APIStageSource | null = null,
+    private common: Partial<Record<APIStage, Stage>> = {}
+  ) {}
+
+  /**
+   * Route handler running an operation on one entity
+   */
+  handler<Input, Result>(
+    entityName: string,
+    entity: EntityDefinition,
+    definition: OperationDefinition<Input, Result>
+  ): (c: Context) => Promise<Response> {
+    return async (c) => {
+      const requestId = crypto.randomUUID();
+      const state: Operation<Input, Result> = {
+        c,
+        requestId,
+        responses: new ResponseBuilder(requestId),
+        operation: definition.operation,
+        entityName,
+        entity,
+        behavior: definition.behavior,
+        auth: { authenticated: false },
+        permissions: OPEN_PERMISSIONS,
+      };
+      
+      try {
+        await this.run(state, definition);
+      } catch (error) {
+        return this.fail(state, definition, error);
+      }
+      return state.response!;
+    };
+  }
+
+  /**
+   * Run authorize through persist of `definition` for one record of a bulk or
+   * import request, in that request's transaction; returns what persist produced
+   */
+  async runItem<Input, Result>(
+    parent: Operation,
+    definition: OperationDefinition<Input, Result>,
+    tx: NonNullable<Operation['tx']>,
+    values: Partial<Operation<Input, Result>>
+  ): Promise<Result> {
+    const state: Operation<Input, Result> = {
+      ...parent,
+      operation: definition.operation,
+      tx,
+      id: undefined,
+      input: undefined,
+      data: undefined,
+      record: undefined,
+      result: undefined,
+      response: undefined,
+      ...values,
+    };
+    await compose(this.stages(state, definition, IN_TRANSACTION), state);
+    return state.result!;
+  }
+
+  private async run<Input, Result>(state: Operation<Input, Result>, definition: OperationDefinition<Input, Result>): Promise<void> {
+    await compose(this.stages(state, definition, BEFORE_TRANSACTION), state, async () => {
+      // A failed write is rolled back and answered here, so stages before it
+      // see the response it got
+      try {
+        const stages = this.stages(state, definition, IN_TRANSACTION);
+        if (definition.transactional) {
+          await this.db.transaction(async (tx) => {
+            state.tx = tx;
+            try {
+              await compose(stages, state);
+            } finally {
+              state.tx = undefined;
+            }
+          });
+        } else {
+          await compose(stages, state);
+        }
+      } catch (error) {
+        state.response = this.fail(state, definition, error);
+        return;
+      }
+      
+      await compose(this.stages(state, definition, AFTER_TRANSACTION), state);
+    });
+  }
+
+  /**
+   * The operation's stages among `names`, each with the extension stages
+   * placed before and after it
+   */
+  private stages<Input, Result>(
+    state: Operation<Input, Result>,
+    definition: OperationDefinition<Input, Result>,
+    names: APIStage[]
+  ): Stage<Input, Result>[] {
+    const inserted = [
+      ...(definition.inserted || []),
+      ...(this.source?.getAPIStages(state.entityName) || []).flatMap(extension => extension.stages || []),
+    ].filter(stage => !stage.operations || stage.operations.includes(state.operation));
+    
+    return names.flatMap((name) => {
+      const builtIn = definition.stages[name] ?? this.common[name] ?? (name === 'serialize' ? respond : undefined);
+      return [
+        ...inserted.filter(stage => stage.stage === name && stage.position === 'before').map(stage => stage.handler),
+        ...(builtIn ? [builtIn] : []),
+        ...inserted.filter(stage => stage.stage === name && stage.position !== 'before').map(stage => stage.handler),
+      ];
+    });
+  }
+
+  private fail<Input, Result>(state: Operation<Input, Result>, definition: OperationDefinition<Input, Result>, error: unknown): Response {
+    let failure: FrameworkError;
+    if (FrameworkError.isFrameworkError(error)) {
+      failure = error;
+    } else {
+      console.error(`Error running ${state.operation} on ${state.entityName}:`, error);
+      failure = definition.failure?.(error, state) ?? new DatabaseError(
+        state.operation,
+        error instanceof Error ? error : undefined,
+        undefined,
+        state.entityName.toLowerCase(),
+        state.requestId
+      );
+    }
+    return state.c.json(state.responses.error(failure), errorStatus(failure));
+  }
+}
+
+function compose<Input, Result>(
+  stages: Stage<Input, Result>[],
+  state: Operation<Input, Result>,
+  last: () => Promise<void> = () => Promise.resolve()
+): Promise<void> {
+  const dispatch = (index: number): Promise<void> =>
+    index < stages.length ? stages[index](state, () => dispatch(index + 1)) : last();
+  return dispatch(0);
+}
@@ -1,6 +1,8 @@
 // Test the simplified generator pattern
-import { APIGenerator, UIGenerator, DashboardGenerator, Generator, GeneratorError } from './index.ts';
+import { APIGenerator, UIGenerator, DashboardGenerator, OpenAPIGenerator, GraphQLGenerator, Generator, GeneratorError } from './index.ts';
 import { AppDefinition } from '../types/index.ts';
+import { getDatabase } from '../../runtime/database/client.ts';
+import { DatabaseMigrator } from '../../runtime/database/migrator.ts';
 
 // Test generator with the simplified pattern
 class TestGenerator implements Generator<string> {
@@ -18,6 +20,20 @@ class TestGenerator implements Generator<string> {
   }
 }
 
+// Migrates the app into the database and serves its generated routes
+// Names of the events the generated routes emit are pushed onto `events`
+async function generateTestAPI(app: AppDefinition, events: string[] = []) {
+  await new DatabaseMigrator().migrate(app);
+  const apiGen = new APIGenerator(app);
+  apiGen.setDatabase(getDatabase());
+  apiGen.setEventEmitter({ emit: (event) => Promise.resolve(void events.push(event)) });
+  return await apiGen.generate();
+}
+
+function jsonRequest(method: string, body: unknown, headers: Record<string, string> = {}): RequestInit {
+  return { method, headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) };
+}
+
 async function testGenerators() {
   console.log('🧪 Testing Generator Pattern...\n');
 
@@ -84,8 +100,36 @@ async function testGenerators() {
     console.error('❌ Dashboard generator failed:', error);
   }
 
-  // Test 5: Error handling
-  console.log('Test 5: Error handling');
+  // Test 5: OpenAPI Generator
+  console.log('Test 5: OpenAPI Generator');
+  try {
+    const openAPIGen = new OpenAPIGenerator(testApp);
+    const document = openAPIGen.generate();
+    const operations = Object.values(document.paths).flatMap(item => Object.keys(item).filter(key => key !== 'parameters'));
+    if (document.openapi === '3.1.0' && document.components.schemas.Task && document.paths['/tasks/{id}']) {
+      console.log(`✅ OpenAPI generator succeeded, ${operations.length} operations described`);
+    } else {
+      console.log('❌ OpenAPI document is missing the Task routes');
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ OpenAPI generator failed:', error);
+  }
+
+  // Test 6: GraphQL schema
+  console.log('Test 6: GraphQL schema');
+  try {
+    const schema = new GraphQLGenerator(testApp).getSchema();
+    const queries = Object.keys(schema.getQueryType()?.getFields() || {});
+    const mutations = Object.keys(schema.getMutationType()?.getFields() || {});
+    console.log('✅ GraphQL schema built:', [...queries, ...mutations]);
+    console.log('');
+  } catch (error) {
+    console.error('❌ GraphQL schema failed:', error);
+  }
+
+  // Test 7: Error handling
+  console.log('Test 7: Error handling');
   try {
     const emptyApp: AppDefinition = { name: 'EmptyApp' };
     const apiGen = new APIGenerator(emptyApp);
@@ -99,6 +143,148 @@ async function testGenerators() {
     }
   }
 
+  // Tests 8 and up run the generated routes against a throwaway in-memory database
+  if (!Deno.env.get('DATABASE_PATH')) {
+    Deno.env.set('DATABASE_PATH', ':memory:');
+  }
+  const writeApp: AppDefinition = {
+    name: 'WriteApp',
+    entities: {
+      Tag: { fields: { name: { type: 'string', required: true } } },
+      Note: {
+        fields: {
+          title: { type: 'string', required: true },
+          tags: { type: 'relation', to: 'Tag', many: true }
+        },
+        softDelete: true,
+        audit: true
+      }
+    }
+  };
+  const events: string[] = [];
+  const api = await generateTestAPI(writeApp, events);
+
+  // Test 8: Create through the generated routes
+  console.log('Test 8: Generated API writes');
+  try {
+    const response = await api.request('/notes', jsonRequest('POST', { title: 'Write the tests' }));
+    const created = (await response.json()).data;
+    const read = created?.id && await (await api.request(`/notes/${created.id}`)).json();
+    if (response.status === 201 && created.title === 'Write the tests' && read?.data?.id === created.id) {
+      console.log('✅ Created a record through the generated API:', created.id);
+    } else {
+      console.log('❌ Create did not return the stored record:', response.status, created);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ Generated API writes failed:', error);
+  }
+
+  // Test 9: Idempotency-Key runs the first request and replays its response to retries
+  console.log('Test 9: Idempotency-Key replay');
+  try {
+    const keyed = () => api.request('/notes', jsonRequest('POST', { title: 'Only once' }, { 'Idempotency-Key': 'test-9' }));
+    const first = await keyed();
+    const firstBody = await first.text();
+    const retry = await keyed();
+    const retryBody = await retry.text();
+    const stored = await getDatabase().execute('SELECT COUNT(*) AS count FROM note WHERE title = ?', ['Only once']);
+    if (first.status === 201 && retry.status === 201 && retry.headers.get('Idempotent-Replayed') === 'true' &&
+        retryBody === firstBody && stored.rows[0].count === 1) {
+      console.log('✅ First keyed request ran once and the retry was replayed');
+    } else {
+      console.log('❌ Keyed requests:', first.status, firstBody, retry.status, retryBody, stored.rows[0].count);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ Idempotency-Key replay failed:', error);
+  }
+
+  // Test 10: Retries may order body keys differently, and abandoned claims free their key
+  console.log('Test 10: Idempotency-Key claims');
+  try {
+    const db = getDatabase();
+    const keyed = (body: unknown, key: string) => api.request('/notes', jsonRequest('POST', body, { 'Idempotency-Key': key }));
+    const first = await keyed({ title: 'Ordered', tags: [] }, 'test-10-order');
+    const reordered = await keyed({ tags: [], title: 'Ordered' }, 'test-10-order');
+    
+    // A claim whose request died before answering, taken an hour ago
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await db.execute(
+      'INSERT INTO _idempotency (key, principal, request_hash, claimed_at, expires_at) VALUES (?, ?, ?, ?, ?)',
+      ['test-10-stale', '', 'abandoned', hourAgo, tomorrow]
+    );
+    const afterStale = await keyed({ title: 'Reclaimed' }, 'test-10-stale');
+    if (first.status === 201 && reordered.headers.get('Idempotent-Replayed') === 'true' && afterStale.status === 201) {
+      console.log('✅ Reordered retry was replayed and the stale claim was taken over');
+    } else {
+      console.log('❌ Idempotency claims:', first.status, reordered.status, reordered.headers.get('Idempotent-Replayed'), afterStale.status);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ Idempotency-Key claims failed:', error);
+  }
+
+  // Test 11: Deletes write audit history, and purges drop join table rows
+  console.log('Test 11: Soft delete and purge');
+  try {
+    const db = getDatabase();
+    const tag = (await (await api.request('/tags', jsonRequest('POST', { name: 'docs' }))).json()).data;
+    const note = (await (await api.request('/notes', jsonRequest('POST', { title: 'Trash me', tags: [tag?.id] }))).json()).data;
+    const deleted = await api.request(`/notes/${note?.id}`, { method: 'DELETE' });
+    const linksAfterDelete = await db.execute('SELECT COUNT(*) AS count FROM note_tags WHERE source_id = ?', [note?.id]);
+    const purged = await api.request(`/notes/${note?.id}/purge`, { method: 'DELETE' });
+    const linksAfterPurge = await db.execute('SELECT COUNT(*) AS count FROM note_tags WHERE source_id = ?', [note?.id]);
+    const audited = await db.execute('SELECT action FROM _audit WHERE entity = ? AND entity_id = ? ORDER BY id', ['Note', note?.id]);
+    const actions = (audited.rows || []).map((row: { action: string }) => row.action);
+    if (deleted.ok && purged.ok && JSON.stringify(actions) === '["create","delete","purge"]' &&
+        linksAfterDelete.rows[0].count === 1 && linksAfterPurge.rows[0].count === 0) {
+      console.log('✅ Delete and purge were audited, and only the purge removed links');
+    } else {
+      console.log('❌ Delete and purge:', deleted.status, purged.status, actions, linksAfterDelete.rows[0].count, linksAfterPurge.rows[0].count);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ Soft delete and purge failed:', error);
+  }
+
+  // Test 12: Single-record writes announce themselves like bulk writes do
+  console.log('Test 12: Change events');
+  try {
+    events.length = 0;
+    const note = (await (await api.request('/notes', jsonRequest('POST', { title: 'Announce me' }))).json()).data;
+    await api.request(`/notes/${note?.id}`, jsonRequest('PUT', { title: 'Announced' }));
+    await api.request(`/notes/${note?.id}`, { method: 'DELETE' });
+    const single = events.splice(0);
+    await api.request('/notes/_bulk', jsonRequest('POST', { operations: [{ op: 'create', data: { title: 'In bulk' } }] }));
+    if (JSON.stringify(single) === '["note.created","note.updated","note.deleted"]' && JSON.stringify(events) === '["note.created"]') {
+      console.log('✅ Create, replace and delete emitted the events bulk writes emit');
+    } else {
+      console.log('❌ Change events:', single, events);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ Change events failed:', error);
+  }
+
+  // Test 13: GraphQL mutations answer with the record the REST route wrote
+  console.log('Test 13: GraphQL over the generated routes');
+  try {
+    const graphQLGen = new GraphQLGenerator(writeApp);
+    graphQLGen.setAPI(api);
+    const query = 'mutation { createTag(input: { name: "graphql" }) { id name } }';
+    const result = await (await graphQLGen.generate().request('/', jsonRequest('POST', { query }))).json();
+    if (result.data?.createTag?.name === 'graphql' && result.data.createTag.id) {
+      console.log('✅ createTag returned the created record:', result.data.createTag.id);
+    } else {
+      console.log('❌ GraphQL mutation:', JSON.stringify(result));
+    }
+    console.log('');
+  } catch (error) {
+    console.error('❌ GraphQL over the generated routes failed:', error);
+  }
+
   console.log('\n🎉 Generator pattern testing complete!');
 }
 
@@ -15,6 +15,7 @@ import {
 import { generateToastJS } from '../ui/components/Feedback.ts';
 import { generateInteractionRuntime } from '../ui/runtime/interactions.ts';
 import { TemplateLoader } from '../ui/templates/template-loader.ts';
+import { isAudited } from '../query/audit.ts';
 
 export class UIGenerator implements Generator<Record<string, string>> {
   constructor(private app: AppDefinition) {}
@@ -243,11 +244,26 @@ export class UIGenerator implements Generator<Record<string, string>> {
   private generateNavigationButtons(viewType: string, entityName: string): string {
     switch (viewType) {
       case 'list':
-        return Button({ 
-          children: 'Create New',
-          variant: 'primary',
-          onClick: `window.location.href='/${entityName.toLowerCase()}s/new'`
-        });
+        return `
+          <div style="display: flex; gap: 0.5rem;">
+            <input type="file" id="import-file" accept=".csv,.ndjson,.jsonl,.json" style="display: none;">
+            ${Button({
+              children: 'Import',
+              variant: 'secondary',
+              onClick: `document.getElementById('import-file').click()`
+            })}
+            ${Button({
+              children: 'Export CSV',
+              variant: 'secondary',
+              onClick: `window.location.href='/api/${entityName.toLowerCase()}s/_export?format=csv'`
+            })}
+            ${Button({ 
+              children: 'Create New',
+              variant: 'primary',
+              onClick: `window.location.href='/${entityName.toLowerCase()}s/new'`
+            })}
+          </div>
+        `;
       case 'form':
         return Button({ 
           children: 'Back to List',
@@ -305,6 +321,51 @@ export class UIGenerator implements Generator<Record<string, string>> {
       }
       
       ${this.generateFormSubmissionHandler(entityName)}
+      ${viewType === 'list' ? this.generateImportHandler(entityName) : ''}
+    `;
+  }
+
+  // Uploads the chosen file as a dry run first, so nothing is written until
+  // the user has seen how many rows would be created, updated or rejected
+  private generateImportHandler(entityName: string): string {
+    return `
+      document.getElementById('import-file')?.addEventListener('change', async function(event) {
+        const file = event.target.files[0];
+        event.target.value = '';
+        if (!file) return;
+        
+        const extension = file.name.split('.').pop().toLowerCase();
+        const format = extension === 'csv' ? 'csv' : extension === 'json' ? 'json' : 'ndjson';
+        const upload = async (dryRun) => {
+          const response = await fetch(\`/api/${entityName.toLowerCase()}s/_import?format=\${format}&dryRun=\${dryRun}\`, {
+            method: 'POST',
+            body: file
+          });
+          const result = await response.json();
+          if (!response.ok) throw new Error(result.error?.message || 'Import failed');
+          return result.data;
+        };
+        
+        try {
+          const preview = await upload(true);
+          const { created, failed } = preview.summary;
+          const problems = preview.errors.slice(0, 5).map(error => \`Row \${error.row}: \${error.message}\`).join('\\n');
+          const message = \`\${created} ${entityName.toLowerCase()}s will be created.\` +
+            (failed > 0 ? \`\\n\${failed} rows will be skipped:\\n\${problems}\` : '');
+          if (created === 0) {
+            showToast(message, 'warning');
+            return;
+          }
+          if (!confirm(\`\${message}\\n\\nImport now?\`)) return;
+          
+          const report = await upload(false);
+          showToast(\`Imported \${report.summary.created} ${entityName.toLowerCase()}s\` +
+            (report.summary.failed > 0 ? \`, skipped \${report.summary.failed} rows\` : ''), 'success');
+          loadData();
+        } catch (error) {
+          showToast(error.message, 'error');
+        }
+      });
     `;
   }
 
@@ -449,6 +510,7 @@ export class UIGenerator implements Generator<Record<string, string>> {
           if (response.ok && result.data) {
             document.getElementById('content').innerHTML = 
               \`<div class="entity-detail">Detail view for ${entityName} ID: \${id}</div>\`;
+            ${isAudited(this.app.entities[entityName]) ? this.generateHistoryTimeline(entityName) : ''}
           } else {
             document.getElementById('content').innerHTML = 
               \`<div class="error" style="color: #dc2626; background: #fef2f2; padding: 1rem; border-radius: 0.5rem;">Item not found</div>\`;
@@ -460,6 +522,41 @@ export class UIGenerator implements Generator<Record<string, string>> {
     }
   }
 
+  // Appends the record's audit entries below the detail, newest first
+  private generateHistoryTimeline(entityName: string): string {
+    return `
+            const historyResponse = await fetch(\`/api/${entityName.toLowerCase()}s/\${id}/history\`);
+            if (historyResponse.ok) {
+              const history = (await historyResponse.json()).data;
+              const escape = (value) => String(value ?? '—').replace(/[&<>"]/g, char => \`&#\${char.charCodeAt(0)};\`);
+              const format = (value) => escape(value !== null && typeof value === 'object' ? JSON.stringify(value) : value);
+              const entries = history.items.map(entry => {
+                const changes = Object.entries(entry.changes).map(([field, change]) => \`
+                  <li><strong>\${escape(field)}</strong>: \${format(change.old)} → \${format(change.new)}</li>
+                \`).join('');
+                return \`
+                  <li style="padding: 0.75rem 0 0.75rem 1rem; border-left: 2px solid #e5e7eb;">
+                    <div style="font-weight: 500; color: #374151;">\${escape(entry.behavior || entry.action)}</div>
+                    <div style="font-size: 0.75rem; color: #6b7280;">
+                      \${new Date(entry.timestamp).toLocaleString()}\${entry.userId ? \` by \${escape(entry.userId)}\` : ''}
+                    </div>
+                    <ul style="margin: 0.25rem 0 0; padding-left: 1rem; font-size: 0.875rem; color: #4b5563;">\${changes}</ul>
+                  </li>
+                \`;
+              }).join('');
+              
+              document.getElementById('content').insertAdjacentHTML('beforeend', \`
+                <section class="entity-history" style="margin-top: 2rem;">
+                  <h2 style="font-size: 1.125rem; font-weight: 600; margin-bottom: 0.75rem;">History</h2>
+                  \${entries
+                    ? \`<ul style="list-style: none; margin: 0; padding: 0;">\${entries}</ul>\`
+                    : '<div style="color: #9ca3af;">No changes recorded yet</div>'}
+                </section>
+              \`);
+            }
+    `;
+  }
+
   private generateFormSubmissionHandler(entityName: string): string {
     return `
       // Form submission handler
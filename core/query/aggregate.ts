@@ -0,0 +1,257 @@
+// Grouped statistics: `GET /{entity}s/_aggregate?groupBy=status&metrics=count,avg:estimate`
+//
+// Records are narrowed with the list filter syntax and `q`, and the same row
+// restrictions as list queries apply, except that read rules SQL cannot fully
+// express are refused rather than checked per record. `groupBy` takes
+// comma-separated fields; date fields can be bucketed with
+// `field:day|week|month|year`. `metrics` takes `count` and
+// `count|sum|avg|min|max:field`, and defaults to `count`.
+
+import { EntityDefinition, FieldDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { FilterParser } from './filter-parser.ts';
+import { SQLFilterCompiler } from './sql-compiler.ts';
+import { sortExpression } from './sort-parser.ts';
+import { searchJoin } from './search.ts';
+import { DELETED_AT_COLUMN, isSoftDelete } from './soft-delete.ts';
+import { getQueryableComputedFields, QueryableComputedField } from './computed.ts';
+import {
+  AggregateFunction,
+  AggregateGroup,
+  AggregateMetric,
+  AggregateQuery,
+  DateBucket,
+  SQLClause,
+} from './types.ts';
+
+// First day of the bucket a date falls in; weeks start on Monday
+const DATE_BUCKETS: Record<DateBucket, (column: string) => string> = {
+  day: column => `date(${column})`,
+  week: column => `date(${column}, 'weekday 0', '-6 days')`,
+  month: column => `date(${column}, 'start of month')`,
+  year: column => `date(${column}, 'start of year')`,
+};
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+const NUMERIC_TYPES = ['number', 'integer'];
+
+export interface AggregateQueryOptions {
+  requestId?: string;
+  predicates?: SQLClause[]; // Extra conditions ANDed with the client's filters
+  rollups?: Record<string, QueryableComputedField>;
+}
+
+// One group of an aggregate response
+export interface AggregateResult {
+  key: Record<string, unknown>;      // Grouped field values; empty without groupBy
+  metrics: Record<string, unknown>;  // Keyed by metric as requested
+}
+
+export class AggregateQueryBuilder {
+  private filterParser = new FilterParser();
+  private filterCompiler = new SQLFilterCompiler();
+
+  constructor(private tableName: string, private entity: EntityDefinition) {}
+
+  /**
+   * Plan the grouped query for the given query parameters. Only fields that
+   * can be filtered on can be grouped or aggregated, so restricted fields
+   * never leak through statistics. Soft-deleted rows are left out.
+   */
+  build(query: Record<string, string[]>, options: AggregateQueryOptions = {}): AggregateQuery {
+    const { requestId, rollups = {} } = options;
+    const single = (key: string) => query[key]?.[query[key].length - 1];
+    
+    const fields = this.filterParser.getFilterableFields(this.entity, rollups);
+    const derived = { ...getQueryableComputedFields(this.entity), ...rollups };
+    const column = (name: string) => derived[name]?.sql ?? name;
+    
+    const groups = this.parseGroups(single('groupBy'), fields, column, requestId);
+    const metrics = this.parseMetrics(single('metrics'), fields, column, requestId);
+    
+    const search = single('q');
+    const join = search !== undefined
+      ? searchJoin(this.tableName, this.entity, search, requestId)
+      : { sql: '', params: [] };
+    
+    const filters = this.filterCompiler.compile(this.filterParser.parse(query, this.entity, requestId, rollups));
+    const predicates: SQLClause[] = [...(options.predicates || [])];
+    if (isSoftDelete(this.entity)) {
+      predicates.unshift({ sql: `${this.tableName}.${DELETED_AT_COLUMN} IS NULL`, params: [] });
+    }
+    if (filters.sql) {
+      predicates.push(filters);
+    }
+    const where = predicates.length > 0
+      ? {
+          sql: ` WHERE ${predicates.map(predicate => `(${predicate.sql})`).join(' AND ')}`,
+          params: predicates.flatMap(predicate => predicate.params),
+        }
+      : { sql: '', params: [] };
+    
+    const columns = [
+      ...groups.map((group, index) => `${group.sql} AS _group${index}`),
+      ...metrics.map((metric, index) => `${metric.sql} AS _metric${index}`),
+    ];
+    // Groups come out in ascending order, enums in the order of their options
+    const aliases = groups.map((_, index) => `_group${index}`);
+    const order = groups.map((group, index) => sortExpression({
+      field: group.field,
+      column: aliases[index],
+      direction: 'ASC',
+      options: group.bucket ? undefined : enumOptions(fields[group.field]),
+    }));
+    const grouping = groups.length > 0
+      ? ` GROUP BY ${aliases.join(', ')} ORDER BY ${order.map(expression => `${expression} ASC`).join(', ')}`
+      : '';
+    
+    return {
+      select: {
+        sql: `SELECT ${columns.join(', ')} FROM ${this.tableName}${join.sql}${where.sql}${grouping}`,
+        params: [...join.params, ...where.params],
+      },
+      groups,
+      metrics,
+    };
+  }
+
+  /**
+   * Result rows as groups with their key and metric values
+   */
+  format(aggregateQuery: AggregateQuery, rows: Record<string, unknown>[]): AggregateResult[] {
+    return rows.map(row => ({
+      key: Object.fromEntries(aggregateQuery.groups.map((group, index) => [group.field, row[`_group${index}`] ?? null])),
+      metrics: Object.fromEntries(aggregateQuery.metrics.map((metric, index) => [metric.name, row[`_metric${index}`] ?? null])),
+    }));
+  }
+
+  private parseGroups(
+    groupBy: string | undefined,
+    fields: Record<string, FieldDefinition>,
+    column: (name: string) => string,
+    requestId?: string
+  ): AggregateGroup[] {
+    if (groupBy === undefined || groupBy.trim() === '') return [];
+    
+    const groups: AggregateGroup[] = [];
+    for (const term of groupBy.split(',').map(part => part.trim())) {
+      const [fieldName, bucket, ...rest] = term.split(':');
+      const field = Object.hasOwn(fields, fieldName) ? fields[fieldName] : undefined;
+      
+      if (!field || field.type === 'json' || rest.length > 0) {
+        throw new InvalidRequestDataError(
+          'groupBy',
+          term,
+          `Cannot group by '${term}'. Groupable fields: ${Object.keys(fields).filter(name => fields[name].type !== 'json').join(', ')}`,
+          undefined,
+          requestId
+        );
+      }
+      if (groups.some(group => group.field === fieldName)) {
+        throw new InvalidRequestDataError('groupBy', term, `Field '${fieldName}' appears more than once`, undefined, requestId);
+      }
+      
+      if (bucket === undefined) {
+        groups.push({ field: fieldName, sql: column(fieldName) });
+        continue;
+      }
+      
+      if (field.type !== 'date' && field.type !== 'datetime') {
+        throw new InvalidRequestDataError('groupBy', term, `Only date and datetime fields can be bucketed`, undefined, requestId);
+      }
+      if (!Object.hasOwn(DATE_BUCKETS, bucket)) {
+        throw new InvalidRequestDataError(
+          'groupBy',
+          term,
+          `Unknown date bucket '${bucket}'. Use one of: ${Object.keys(DATE_BUCKETS).join(', ')}`,
+          undefined,
+          requestId
+        );
+      }
+      groups.push({
+        field: fieldName,
+        bucket: bucket as DateBucket,
+        sql: DATE_BUCKETS[bucket as DateBucket](column(fieldName)),
+      });
+    }
+    
+    return groups;
+  }
+
+  private parseMetrics(
+    metrics: string | undefined,
+    fields: Record<string, FieldDefinition>,
+    column: (name: string) => string,
+    requestId?: string
+  ): AggregateMetric[] {
+    const terms = metrics === undefined || metrics.trim() === ''
+      ? ['count']
+      : metrics.split(',').map(part => part.trim());
+    
+    const parsed: AggregateMetric[] = [];
+    for (const term of terms) {
+      const [fn, fieldName, ...rest] = term.split(':') as [AggregateFunction, string | undefined, ...string[]];
+      
+      if (!AGGREGATE_FUNCTIONS.includes(fn) || rest.length > 0) {
+        throw new InvalidRequestDataError(
+          'metrics',
+          term,
+          `Unknown metric '${term}'. Use count or ${AGGREGATE_FUNCTIONS.filter(name => name !== 'count').join('|')}:field`,
+          undefined,
+          requestId
+        );
+      }
+      if (parsed.some(metric => metric.name === term)) {
+        throw new InvalidRequestDataError('metrics', term, `Metric '${term}' appears more than once`, undefined, requestId);
+      }
+      
+      if (fieldName === undefined) {
+        if (fn !== 'count') {
+          throw new InvalidRequestDataError('metrics', term, `Metric '${fn}' needs a field, e.g. ${fn}:estimate`, undefined, requestId);
+        }
+        parsed.push({ name: term, fn, sql: 'COUNT(*)' });
+        continue;
+      }
+      
+      const field = Object.hasOwn(fields, fieldName) ? fields[fieldName] : undefined;
+      if (!field || field.type === 'json') {
+        throw new InvalidRequestDataError(
+          'metrics',
+          term,
+          `Unknown metric field '${fieldName}'. Fields: ${Object.keys(fields).filter(name => fields[name].type !== 'json').join(', ')}`,
+          undefined,
+          requestId
+        );
+      }
+      if ((fn === 'sum' || fn === 'avg') && !NUMERIC_TYPES.includes(field.type)) {
+        throw new InvalidRequestDataError('metrics', term, `Cannot ${fn} ${field.type} field '${fieldName}'`, undefined, requestId);
+      }
+      
+      parsed.push({ name: term, fn, field: fieldName, sql: metricSQL(fn, column(fieldName)) });
+    }
+    
+    return parsed;
+  }
+}
+
+function metricSQL(fn: AggregateFunction, column: string): string {
+  switch (fn) {
+    case 'count':
+      return `COUNT(${column})`;
+    // Nothing to add up is 0 rather than NULL
+    case 'sum':
+      return `COALESCE(SUM(${column}), 0)`;
+    case 'avg':
+      return `AVG(${column})`;
+    case 'min':
+      return `MIN(${column})`;
+    case 'max':
+      return `MAX(${column})`;
+  }
+}
+
+function enumOptions(field: FieldDefinition): string[] | undefined {
+  if (field.type !== 'enum') return undefined;
+  return ('options' in field && field.options) || ('values' in field && field.values) || undefined;
+}
@@ -0,0 +1,248 @@
+// Change history for entities declared with `audit: true`
+//
+// Every write through the API adds a row to the `_audit` table inside the
+// transaction that makes the change, so history and data cannot disagree. A
+// row holds the field-level diff ({ field: { old, new } }), the acting user,
+// the request id and, for behaviors, the behavior's name. Hidden and
+// write-only fields are left out of diffs. Changes SQLite makes on its own,
+// such as ON DELETE CASCADE, are not recorded.
+
+import { AppDefinition, EntityDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { getManyRelations, isManyRelation, ManyRelationStore } from './relations.ts';
+import { FieldAccessPolicy, isHiddenField, isWriteOnlyField } from './field-access.ts';
+import { ListPagination, QueryExecutor } from './types.ts';
+import { DELETED_AT_COLUMN, isSoftDelete } from './soft-delete.ts';
+
+export const AUDIT_TABLE = '_audit';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// Who is making a change and why; passed to every write
+export interface ChangeContext {
+  requestId?: string;
+  userId?: string | null;
+  behavior?: string;  // Behavior being run, e.g. complete
+  restoredFrom?: number;  // Version being rolled back to, see versions.ts
+}
+
+export type FieldChanges = Record<string, { old: unknown; new: unknown }>;
+
+export interface AuditEntry {
+  id: number;
+  action: AuditAction;
+  behavior: string | null;
+  changes: FieldChanges;
+  userId: string | null;
+  requestId: string | null;
+  timestamp: string;
+}
+
+// A row of the audit table
+interface AuditRow {
+  id: number;
+  action: AuditAction;
+  behavior: string | null;
+  changes: string;  // JSON
+  user_id: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 500;
+
+export function isAudited(entity: EntityDefinition | undefined): boolean {
+  return entity?.audit === true;
+}
+
+/**
+ * The audit table and its lookup index, when any entity is audited
+ */
+export function generateAuditSchema(app: AppDefinition): string[] {
+  if (!Object.values(app.entities).some(isAudited)) return [];
+
+  return [
+    `CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  behavior TEXT,
+  changes TEXT NOT NULL,
+  user_id TEXT,
+  request_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);`,
+    `CREATE INDEX IF NOT EXISTS idx_${AUDIT_TABLE}_record ON ${AUDIT_TABLE} (entity, entity_id, id);`,
+  ];
+}
+
+/**
+ * Old and new values of the fields that differ. Either side may be null, for
+ * creates and deletes; many relations compare as sets of ids.
+ */
+export function diffRecords(
+  entity: EntityDefinition,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChanges {
+  const changes: FieldChanges = {};
+
+  for (const [fieldName, field] of Object.entries(entity.fields)) {
+    if (isHiddenField(field) || isWriteOnlyField(fieldName, field)) continue;
+    
+    // A record with no links has an empty list, not a null one
+    const missing = isManyRelation(field) ? [] : null;
+    const oldValue = before?.[fieldName] ?? missing;
+    const newValue = after?.[fieldName] ?? missing;
+    const comparable = (value: unknown) => isManyRelation(field) && Array.isArray(value)
+      ? JSON.stringify([...value].sort())
+      : JSON.stringify(value);
+    
+    if (comparable(oldValue) !== comparable(newValue)) {
+      changes[fieldName] = { old: oldValue, new: newValue };
+    }
+  }
+
+  // Taking a record out of the trash shows as its trash stamp clearing
+  if (isSoftDelete(entity) && before && after && before[DELETED_AT_COLUMN] !== after[DELETED_AT_COLUMN]) {
+    changes[DELETED_AT_COLUMN] = { old: before[DELETED_AT_COLUMN] ?? null, new: after[DELETED_AT_COLUMN] ?? null };
+  }
+
+  return changes;
+}
+
+/**
+ * The stored row, trashed or not, with its many relations as id arrays; null
+ * when there is no such record
+ */
+export async function readSnapshot(
+  app: AppDefinition,
+  tx: QueryExecutor,
+  entityName: string,
+  id: string
+): Promise<Record<string, unknown> | null> {
+  const result = await tx.execute(`SELECT * FROM ${entityName.toLowerCase()} WHERE id = ?`, [id]);
+  const record = result.rows?.[0];
+  if (!record) return null;
+
+  if (getManyRelations(app.entities[entityName]).length > 0) {
+    await new ManyRelationStore(app, tx).attach(entityName, [record]);
+  }
+  return record;
+}
+
+export class AuditLog {
+  constructor(private app: AppDefinition) {}
+
+  /**
+   * The record as the diff sees it, trashed or not, with its many relations;
+   * null when the entity is not audited or there is no such record. Take one
+   * before and one after a change, on the transaction making it.
+   */
+  snapshot(tx: QueryExecutor, entityName: string, id: string): Promise<Record<string, unknown> | null> {
+    return isAudited(this.app.entities[entityName])
+      ? readSnapshot(this.app, tx, entityName, id)
+      : Promise.resolve(null);
+  }
+
+  /**
+   * Add an entry for a change. Updates that changed nothing are skipped
+   * unless a behavior ran, since running it is worth recording by itself.
+   */
+  async record(
+    tx: QueryExecutor,
+    entityName: string,
+    id: string,
+    action: AuditAction,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    context: ChangeContext = {}
+  ): Promise<void> {
+    const entity = this.app.entities[entityName];
+    if (!isAudited(entity)) return;
+    
+    const changes = diffRecords(entity, before, after);
+    if (action === 'update' && Object.keys(changes).length === 0 && !context.behavior) return;
+    
+    await tx.execute(
+      `INSERT INTO ${AUDIT_TABLE} (entity, entity_id, action, behavior, changes, user_id, request_id) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entityName,
+        String(id),
+        action,
+        context.behavior ?? null,
+        JSON.stringify(changes),
+        context.userId ?? null,
+        context.requestId ?? null,
+      ]
+    );
+  }
+
+  /**
+   * A record's entries, newest first
+   */
+  async history(
+    db: QueryExecutor,
+    entityName: string,
+    id: string,
+    query: { limit?: string; offset?: string } = {},
+    requestId?: string
+  ): Promise<{ items: AuditEntry[]; pagination: ListPagination }> {
+    const { limit, offset } = parseHistoryPage(query, requestId);
+    
+    const rows = await db.execute<AuditRow>(
+      `SELECT * FROM ${AUDIT_TABLE} WHERE entity = ? AND entity_id = ? ORDER BY id DESC LIMIT ? OFFSET ?`,
+      [entityName, id, limit, offset]
+    );
+    const counted = await db.execute(
+      `SELECT COUNT(*) AS total FROM ${AUDIT_TABLE} WHERE entity = ? AND entity_id = ?`,
+      [entityName, id]
+    );
+    const total = Number(counted.rows?.[0]?.total || 0);
+    
+    return {
+      items: (rows.rows || []).map(row => ({
+        id: row.id,
+        action: row.action,
+        behavior: row.behavior,
+        changes: JSON.parse(row.changes),
+        userId: row.user_id,
+        requestId: row.request_id,
+        timestamp: row.created_at,
+      })),
+      pagination: { limit, offset, total, hasMore: offset + limit < total, nextCursor: null },
+    };
+  }
+}
+
+/**
+ * Entries with the changes to fields the caller may not read taken out
+ */
+export function redactEntries(entries: AuditEntry[], access: FieldAccessPolicy, record: Record<string, unknown>): AuditEntry[] {
+  return entries.map(entry => ({
+    ...entry,
+    changes: Object.fromEntries(Object.entries(entry.changes).filter(([fieldName]) => access.canRead(fieldName, record))),
+  }));
+}
+
+/**
+ * limit and offset for a page of history, newest first
+ */
+export function parseHistoryPage(query: { limit?: string; offset?: string }, requestId?: string): { limit: number; offset: number } {
+  return {
+    limit: Math.min(toCount('limit', query.limit, DEFAULT_HISTORY_LIMIT, 1, requestId), MAX_HISTORY_LIMIT),
+    offset: toCount('offset', query.offset, 0, 0, requestId),
+  };
+}
+
+function toCount(name: string, value: string | undefined, fallback: number, min: number, requestId?: string): number {
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new InvalidRequestDataError(name, value, `Expected an integer >= ${min}`, undefined, requestId);
+  }
+  return parsed;
+}
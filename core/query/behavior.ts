@@ -0,0 +1,85 @@
+// Behavior endpoints: `POST /{entity}s/:id/{behavior}`
+//
+// A behavior can take typed input in the request body, say who may run it
+// (`requires`, 403 otherwise) and when (`guard`, 409 otherwise), and set fields
+// to constants, 'now' or expressions. Expressions see the current record as
+// `entity`, the validated body as `input` and the caller as `user`.
+
+import { BehaviorDefinition, EntityDefinition } from '../types/index.ts';
+import { BehaviorGuardError, InvalidExpressionError, PermissionError } from '../errors/index.ts';
+import { SafeExpressionParser } from '../expression/parser.ts';
+
+// Variables for a behavior's expressions; `user` is null without authentication
+export interface BehaviorScope {
+  entity: Record<string, unknown>;
+  input: Record<string, unknown>;
+  user?: { id?: string; [key: string]: unknown } | null;
+  [name: string]: unknown;
+}
+
+const expressionParser = new SafeExpressionParser();
+
+export function hasBehaviorInput(behavior: BehaviorDefinition): boolean {
+  return !!behavior.input && Object.keys(behavior.input).length > 0;
+}
+
+/**
+ * The behavior's input parameters as an entity, so request bodies are
+ * validated like record data
+ */
+export function behaviorInputEntity(behavior: BehaviorDefinition): EntityDefinition {
+  return { fields: behavior.input || {} };
+}
+
+/**
+ * Refuse to run unless `requires` and then `guard` hold for the current record.
+ * An expression that cannot be evaluated does not hold.
+ */
+export function assertBehaviorAllowed(
+  entityName: string,
+  behaviorName: string,
+  behavior: BehaviorDefinition,
+  scope: BehaviorScope,
+  requestId?: string
+): void {
+  if (behavior.requires && !expressionParser.evaluate(behavior.requires, scope).value) {
+    throw new PermissionError(behaviorName, entityName, scope.user?.id, behavior.requires, requestId);
+  }
+
+  if (behavior.guard && !expressionParser.evaluate(behavior.guard, scope).value) {
+    throw new BehaviorGuardError(entityName, String(scope.entity.id), behaviorName, behavior.guard, requestId);
+  }
+}
+
+/**
+ * Column values a behavior sets, e.g. { assignedTo: { expr: 'input.personId' } }
+ */
+export function behaviorAssignments(
+  behaviorName: string,
+  behavior: BehaviorDefinition,
+  scope: BehaviorScope,
+  requestId?: string
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const [fieldName, value] of Object.entries(behavior.fields || {})) {
+    let resolved = value === 'now' ? new Date().toISOString() : value;
+    
+    if (isExpressionValue(value)) {
+      const result = expressionParser.evaluateValue(value.expr, scope);
+      if (!result.success) {
+        throw new InvalidExpressionError(value.expr, result.error!, `behaviors.${behaviorName}.fields.${fieldName}`, requestId);
+      }
+      resolved = result.value ?? null;
+    }
+    
+    // SQLite stores booleans as 0 and 1
+    values[fieldName] = typeof resolved === 'boolean' ? Number(resolved) : resolved;
+  }
+
+  return values;
+}
+
+export function isExpressionValue(value: unknown): value is { expr: string } {
+  return value !== null && typeof value === 'object' && typeof (value as { expr?: unknown }).expr === 'string';
+}
@@ -0,0 +1,251 @@
+// Batched create/update/delete for `POST /{entity}s/_bulk`
+//
+// All operations run inside one transaction, each under its own savepoint. In
+// atomic mode any failure rolls the whole batch back; otherwise failed
+// operations are undone individually and the rest are committed.
+
+import { EventData } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { QueryExecutor } from './types.ts';
+
+// Operations accepted in one request
+export const MAX_BULK_OPERATIONS = 1000;
+
+const BULK_OPS = ['create', 'update', 'delete'] as const;
+
+const PAST_TENSE = { create: 'created', update: 'updated', delete: 'deleted' } as const;
+
+export type BulkOp = typeof BULK_OPS[number];
+
+export interface BulkOperation {
+  op: BulkOp;
+  id?: string;                      // update and delete
+  data?: Record<string, unknown>;   // create and update
+}
+
+export interface BulkRequest {
+  atomic: boolean;
+  operations: BulkOperation[];
+}
+
+export interface BulkItemError {
+  code: string;
+  message: string;
+  errors?: Array<{ field: string; message: string; code?: string }>;
+}
+
+export interface BulkItemResult {
+  index: number;
+  op: BulkOp;
+  status: 'ok' | 'failed' | 'rolledBack';
+  id?: string;
+  data?: Record<string, unknown>;  // Stored record; the removed one for deletes
+  error?: BulkItemError;
+}
+
+export interface BulkOutcome {
+  atomic: boolean;
+  committed: boolean;
+  results: BulkItemResult[];
+  summary: { created: number; updated: number; deleted: number; failed: number };
+}
+
+// Runs one operation against the transaction; returns the affected record
+export interface BulkHandlers<Tx extends QueryExecutor> {
+  create(tx: Tx, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+  update(tx: Tx, id: string, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+  delete(tx: Tx, id: string): Promise<Record<string, unknown>>;
+}
+
+interface TransactionalExecutor<Tx extends QueryExecutor> {
+  transaction<T>(fn: (tx: Tx) => Promise<T>): Promise<T>;
+}
+
+// Thrown inside the transaction to undo an atomic batch that had failures
+class BulkRollback extends Error {}
+
+/**
+ * Check the shape of a `_bulk` request body. `atomic` defaults to true.
+ */
+export function parseBulkRequest(body: unknown, requestId?: string): BulkRequest {
+  if (!isRecord(body) || !Array.isArray(body.operations)) {
+    throw new InvalidRequestDataError(
+      'operations',
+      isRecord(body) ? body.operations : undefined,
+      'Expected { operations: [{ op, id?, data? }], atomic? }',
+      undefined,
+      requestId
+    );
+  }
+
+  if (body.atomic !== undefined && typeof body.atomic !== 'boolean') {
+    throw new InvalidRequestDataError('atomic', body.atomic, 'Must be true or false', undefined, requestId);
+  }
+
+  const operations: unknown[] = body.operations;
+  if (operations.length === 0 || operations.length > MAX_BULK_OPERATIONS) {
+    throw new InvalidRequestDataError(
+      'operations',
+      operations.length,
+      `Send between 1 and ${MAX_BULK_OPERATIONS} operations`,
+      undefined,
+      requestId
+    );
+  }
+
+  return {
+    atomic: body.atomic !== false,
+    operations: operations.map((operation, index) => parseOperation(operation, index, requestId)),
+  };
+}
+
+function parseOperation(operation: unknown, index: number, requestId?: string): BulkOperation {
+  const field = `operations[${index}]`;
+
+  if (!isRecord(operation) || !BULK_OPS.includes(operation.op as BulkOp)) {
+    const op = isRecord(operation) ? operation.op : undefined;
+    throw new InvalidRequestDataError(field, op, `op must be one of: ${BULK_OPS.join(', ')}`, undefined, requestId);
+  }
+
+  if (operation.op !== 'create' && (typeof operation.id !== 'string' && typeof operation.id !== 'number' || operation.id === '')) {
+    throw new InvalidRequestDataError(field, operation.id, `${operation.op} needs the record id`, undefined, requestId);
+  }
+
+  if (operation.op !== 'delete' && !isRecord(operation.data)) {
+    throw new InvalidRequestDataError(field, operation.data, `${operation.op} needs a data object`, undefined, requestId);
+  }
+
+  return {
+    op: operation.op as BulkOp,
+    ...(operation.id !== undefined && { id: String(operation.id) }),
+    ...(isRecord(operation.data) && { data: operation.data }),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Execute a parsed batch. Nothing is visible to other connections until the
+ * transaction commits, so callers should emit events only once this resolves
+ * with `committed: true`.
+ */
+export async function runBulk<Tx extends QueryExecutor>(
+  db: TransactionalExecutor<Tx>,
+  request: BulkRequest,
+  handlers: BulkHandlers<Tx>
+): Promise<BulkOutcome> {
+  const results: BulkItemResult[] = [];
+  let committed = true;
+
+  try {
+    await db.transaction(async (tx) => {
+      for (const [index, operation] of request.operations.entries()) {
+        await tx.execute('SAVEPOINT bulk_operation');
+
+        try {
+          const record = operation.op === 'create'
+            ? await handlers.create(tx, operation.data!)
+            : operation.op === 'update'
+              ? await handlers.update(tx, operation.id!, operation.data!)
+              : await handlers.delete(tx, operation.id!);
+
+          await tx.execute('RELEASE bulk_operation');
+          results.push({
+            index,
+            op: operation.op,
+            status: 'ok',
+            id: String(record.id),
+            data: record,
+          });
+        } catch (error) {
+          await tx.execute('ROLLBACK TO bulk_operation');
+          await tx.execute('RELEASE bulk_operation');
+          results.push({ index, op: operation.op, status: 'failed', id: operation.id, error: describeItemError(error) });
+        }
+      }
+
+      // Keep going after a failure so the caller sees every problem at once
+      if (request.atomic && results.some(result => result.status === 'failed')) {
+        throw new BulkRollback();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof BulkRollback)) throw error;
+
+    committed = false;
+    for (const result of results) {
+      if (result.status === 'ok') {
+        result.status = 'rolledBack';
+        delete result.data;
+      }
+    }
+  }
+
+  const succeeded = (op: BulkOp) => results.filter(result => result.op === op && result.status === 'ok').length;
+
+  return {
+    atomic: request.atomic,
+    committed,
+    results,
+    summary: {
+      created: succeeded('create'),
+      updated: succeeded('update'),
+      deleted: succeeded('delete'),
+      failed: results.filter(result => result.status === 'failed').length,
+    },
+  };
+}
+
+/**
+ * The event for one committed write, e.g. `task.created`; single-record
+ * routes, bulk requests and imports all announce writes this way
+ */
+export function changeEvent(
+  entityName: string,
+  op: BulkOp,
+  id: string,
+  data: Record<string, unknown>,
+  timestamp = new Date().toISOString()
+): { event: string; data: EventData } {
+  return {
+    event: `${entityName.toLowerCase()}.${PAST_TENSE[op]}`,
+    data: { entity: entityName, entityId: id, data, timestamp },
+  };
+}
+
+/**
+ * Change events for a committed batch, in operation order
+ */
+export function bulkEvents(entityName: string, outcome: BulkOutcome): Array<{ event: string; data: EventData }> {
+  if (!outcome.committed) return [];
+
+  const timestamp = new Date().toISOString();
+  return outcome.results
+    .filter(result => result.status === 'ok')
+    .map(result => changeEvent(entityName, result.op, result.id!, result.data || {}, timestamp));
+}
+
+/**
+ * Per-item error, keeping validator field errors when there are any
+ */
+export function describeItemError(error: unknown): BulkItemError {
+  // Validation errors carry their field errors in context.value
+  const { code, context } = (error ?? {}) as { code?: string; context?: { value?: { errors?: unknown } } };
+  const described: BulkItemError = {
+    code: code || 'E4001',
+    message: error instanceof Error ? error.message : String(error),
+  };
+
+  const fieldErrors = context?.value?.errors;
+  if (Array.isArray(fieldErrors)) {
+    described.errors = fieldErrors.map((fieldError: NonNullable<BulkItemError['errors']>[number]) => ({
+      field: fieldError.field,
+      message: fieldError.message,
+      code: fieldError.code,
+    }));
+  }
+
+  return described;
+}
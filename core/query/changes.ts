@@ -0,0 +1,335 @@
+// Live change feed behind /{entity}s/_stream and the /_stream WebSocket
+//
+// Every write through the API appends an event to `_changes` inside the
+// transaction making it. Once a request has been answered its events are
+// committed, and the feed hands them to subscribers of the entity; what each
+// subscriber receives is decided by the generator, which drops events for
+// records the subscriber may not read. Event ids only grow, so a client that
+// reconnects with Last-Event-ID first receives the events it missed. Events
+// are kept for settings.api.changeRetention seconds, a day by default; when
+// the missed events are gone the client is told to reload instead.
+
+import { AppDefinition } from '../types/index.ts';
+import { DatabaseError, FrameworkError, InvalidRequestDataError, ResponseBuilder } from '../errors/index.ts';
+import { AuditAction, ChangeContext, readSnapshot } from './audit.ts';
+import { QueryExecutor } from './types.ts';
+
+export const CHANGES_TABLE = '_changes';
+export const DEFAULT_CHANGE_RETENTION = 24 * 60 * 60;
+export const STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export type ChangeType = AuditAction | 'behavior';
+
+export interface ChangeEvent {
+  id: number;
+  entity: string;
+  entityId: string;
+  type: ChangeType;
+  behavior: string | null;  // Set when type is behavior, e.g. complete
+  data: Record<string, unknown> | null;  // The record after the change; for deletes, as it was
+  timestamp: string;
+}
+
+// A row of the changes table
+interface ChangeRow {
+  id: number;
+  entity: string;
+  entity_id: string;
+  type: ChangeType;
+  behavior: string | null;
+  data: string | null;  // JSON
+  created_at: string;
+}
+
+// What one subscriber may see of an event, or null when it may not see it.
+// Events are shared between subscribers, so views return copies.
+export type ChangeView = (event: ChangeEvent) => ChangeEvent | null | Promise<ChangeEvent | null>;
+
+interface Subscriber {
+  entity: string;
+  lastId: number;
+  view: ChangeView;
+  send(event: ChangeEvent): void;
+  reset(): void;
+  // Views may take a while; events still reach the subscriber in order
+  sent: Promise<void>;
+}
+
+// Reconnecting after missing more than this reloads instead of replaying
+const MAX_REPLAY = 1000;
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+export function generateChangeFeedSchema(): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${CHANGES_TABLE} (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  behavior TEXT,
+  data TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);`,
+    `CREATE INDEX IF NOT EXISTS idx_${CHANGES_TABLE}_entity ON ${CHANGES_TABLE} (entity, id);`,
+    `CREATE INDEX IF NOT EXISTS idx_${CHANGES_TABLE}_created ON ${CHANGES_TABLE} (created_at);`,
+  ];
+}
+
+/**
+ * Event id a client last received, from Last-Event-ID; null for a fresh start
+ */
+export function parseLastEventId(value: string | undefined, requestId?: string): number | null {
+  if (value === undefined || value === '') return null;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidRequestDataError('Last-Event-ID', value, 'Expected an event id', undefined, requestId);
+  }
+  return parsed;
+}
+
+export class ChangeFeed {
+  private subscribers = new Set<Subscriber>();
+  // Newest event handed to subscribers; only kept up to date while there are any
+  private cursor = 0;
+  // Publishing and subscribing take turns, so no event is sent twice or skipped
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private app: AppDefinition, private retentionSeconds: number = DEFAULT_CHANGE_RETENTION) {}
+
+  /**
+   * Append the event for a change that has just been made on `tx`. `before`
+   * is the record as it was, sent with deletes once the record is gone.
+   */
+  async record(
+    tx: QueryExecutor,
+    entityName: string,
+    id: string,
+    action: AuditAction,
+    before: Record<string, unknown> | null,
+    context: ChangeContext = {}
+  ): Promise<void> {
+    const expired = new Date(Date.now() - this.retentionSeconds * 1000).toISOString();
+    await tx.execute(`DELETE FROM ${CHANGES_TABLE} WHERE created_at < ?`, [expired]);
+    
+    const data = await readSnapshot(this.app, tx, entityName, id) ?? before;
+    await tx.execute(
+      `INSERT INTO ${CHANGES_TABLE} (entity, entity_id, type, behavior, data) VALUES (?, ?, ?, ?, ?)`,
+      [
+        entityName,
+        String(id),
+        context.behavior ? 'behavior' : action,
+        context.behavior ?? null,
+        data ? JSON.stringify(data) : null,
+      ]
+    );
+  }
+
+  /**
+   * Send committed events nobody has seen yet. Call once a request's
+   * transactions are over.
+   */
+  publish(db: QueryExecutor): Promise<void> {
+    const published = this.serialized(async () => {
+      if (this.subscribers.size === 0) return;
+      
+      const events = await this.read(db, `id > ?`, [this.cursor]);
+      for (const event of events) {
+        for (const subscriber of this.subscribers) {
+          if (subscriber.entity === event.entity && event.id > subscriber.lastId) {
+            deliver(subscriber, event);
+          }
+        }
+        this.cursor = event.id;
+      }
+    });
+    // The request that made the changes has succeeded either way
+    return published.catch((error) => console.error('Publishing changes failed:', error));
+  }
+
+  /**
+   * Start sending an entity's events. With `lastEventId` the events after it
+   * are replayed first. Returns the function that ends the subscription.
+   */
+  async subscribe(
+    db: QueryExecutor,
+    entityName: string,
+    lastEventId: number | null,
+    subscriber: Omit<Subscriber, 'entity' | 'lastId' | 'sent'>
+  ): Promise<() => void> {
+    const subscription: Subscriber = { ...subscriber, entity: entityName, lastId: 0, sent: Promise.resolve() };
+    
+    await this.serialized(async () => {
+      if (this.subscribers.size === 0) {
+        const latest = await db.execute(`SELECT MAX(id) AS id FROM ${CHANGES_TABLE}`);
+        this.cursor = Number(latest.rows?.[0]?.id || 0);
+      }
+      subscription.lastId = this.cursor;
+      
+      if (lastEventId !== null && lastEventId < this.cursor) {
+        const missed = await this.read(db, `entity = ? AND id > ? AND id <= ?`, [entityName, lastEventId, this.cursor], MAX_REPLAY + 1);
+        const oldest = await db.execute(`SELECT MIN(id) AS id FROM ${CHANGES_TABLE}`);
+        
+        // Events after lastEventId were pruned, or there are too many to replay
+        if (missed.length > MAX_REPLAY || Number(oldest.rows?.[0]?.id || 0) > lastEventId + 1) {
+          subscription.reset();
+        } else {
+          for (const event of missed) deliver(subscription, event);
+        }
+      } else if (lastEventId !== null && lastEventId > this.cursor) {
+        // An id from before the database was reset
+        subscription.reset();
+      }
+      
+      this.subscribers.add(subscription);
+    });
+    
+    return () => {
+      this.subscribers.delete(subscription);
+    };
+  }
+
+  private async read(db: QueryExecutor, where: string, params: unknown[], limit?: number): Promise<ChangeEvent[]> {
+    const result = await db.execute<ChangeRow>(
+      `SELECT * FROM ${CHANGES_TABLE} WHERE ${where} ORDER BY id${limit ? ` LIMIT ${limit}` : ''}`,
+      params
+    );
+    return (result.rows || []).map(row => ({
+      id: row.id,
+      entity: row.entity,
+      entityId: row.entity_id,
+      type: row.type,
+      behavior: row.behavior,
+      data: row.data ? JSON.parse(row.data) : null,
+      timestamp: row.created_at,
+    }));
+  }
+
+  private serialized(fn: () => Promise<void>): Promise<void> {
+    const turn = this.queue.then(fn);
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+}
+
+function deliver(subscriber: Subscriber, event: ChangeEvent): void {
+  subscriber.sent = subscriber.sent
+    .then(async () => {
+      const visible = await subscriber.view(event);
+      if (visible) subscriber.send(visible);
+    })
+    .catch((error) => console.error(`Sending change ${event.id} failed:`, error));
+}
+
+/**
+ * Server-Sent Events for one entity's changes. Each event is named after its
+ * type and carries the event as JSON; `reset` means events were missed and
+ * the client should reload.
+ */
+export function changeStream(
+  feed: ChangeFeed,
+  db: QueryExecutor,
+  entityName: string,
+  lastEventId: number | null,
+  view: ChangeView
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The client went away; cancel() cleans up
+        }
+      };
+      
+      write(`retry: 3000\n\n`);
+      unsubscribe = await feed.subscribe(db, entityName, lastEventId, {
+        view,
+        send: (event) => write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+        reset: () => write(`event: reset\ndata: ${JSON.stringify({ entity: entityName })}\n\n`),
+      });
+      // Comments keep proxies from closing an idle connection
+      heartbeat = setInterval(() => write(`: heartbeat\n\n`), HEARTBEAT_INTERVAL);
+    },
+    cancel() {
+      clearInterval(heartbeat);
+      unsubscribe();
+    },
+  });
+}
+
+/**
+ * One WebSocket carrying the feeds of several entities. Clients send
+ * { action: 'subscribe', entity, lastEventId? } and { action: 'unsubscribe', entity },
+ * and receive { type: 'change', event }, { type: 'reset', entity } and
+ * { type: 'error', error }. `authorize` returns the view of an entity's events
+ * for this client, throwing when it may not subscribe.
+ */
+export function changeSocket(
+  socket: WebSocket,
+  feed: ChangeFeed,
+  db: QueryExecutor,
+  authorize: (entityName: string, requestId: string) => ChangeView
+): void {
+  const subscriptions = new Map<string, Promise<() => void>>();
+  const send = (message: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.onmessage = async (message) => {
+    const requestId = crypto.randomUUID();
+    
+    try {
+      let request: Record<string, unknown> | null;
+      try {
+        request = JSON.parse(String(message.data));
+      } catch {
+        throw new InvalidRequestDataError('message', message.data, 'Expected a JSON message', undefined, requestId);
+      }
+      
+      if (request?.action !== 'subscribe' && request?.action !== 'unsubscribe') {
+        throw new InvalidRequestDataError('action', request?.action, 'Expected subscribe or unsubscribe', undefined, requestId);
+      }
+      if (typeof request.entity !== 'string') {
+        throw new InvalidRequestDataError('entity', request.entity, 'Expected an entity name', undefined, requestId);
+      }
+      
+      let subscription: Promise<() => void> | undefined;
+      if (request.action === 'subscribe') {
+        const view = authorize(request.entity, requestId);
+        const lastEventId = parseLastEventId(request.lastEventId == null ? undefined : String(request.lastEventId), requestId);
+        subscription = feed.subscribe(db, request.entity, lastEventId, {
+          view,
+          send: (event) => send({ type: 'change', event }),
+          reset: () => send({ type: 'reset', entity: request.entity }),
+        });
+      }
+      
+      // Subscribing again replaces the earlier subscription
+      const previous = subscriptions.get(request.entity);
+      if (subscription) {
+        subscriptions.set(request.entity, subscription.catch(() => () => {}));
+      } else {
+        subscriptions.delete(request.entity);
+      }
+      (await previous)?.();
+      await subscription;
+      send({ type: `${request.action}d`, entity: request.entity });
+    } catch (error) {
+      const failure = error instanceof FrameworkError
+        ? error
+        : new DatabaseError('subscribe', error instanceof Error ? error : undefined, undefined, CHANGES_TABLE, requestId);
+      send({ type: 'error', ...new ResponseBuilder(requestId).error(failure) });
+    }
+  };
+
+  socket.onclose = async () => {
+    for (const subscription of subscriptions.values()) (await subscription)();
+    subscriptions.clear();
+  };
+}
@@ -0,0 +1,138 @@
+// Computed fields, e.g. computed: { isOverdue: 'dueDate < now() && status != "done"' }
+//
+// Values are evaluated on read over the record's own fields and are never
+// stored or accepted as input. A computed field can be filtered and sorted on
+// when its expression translates exactly into SQL over the entity's columns;
+// otherwise it only appears in responses.
+
+import { EntityDefinition, FieldDefinition } from '../types/index.ts';
+import { ASTNode, IdentifierNode, LiteralNode, SafeExpressionEvaluator, SafeExpressionParser } from '../expression/parser.ts';
+import { ExpressionSQLTranslator, inlineParams, SQLTerm, sqlLiteral } from '../expression/sql-translator.ts';
+import { SYSTEM_COLUMNS } from './types.ts';
+import { isManyRelation } from './relations.ts';
+import { hasRestrictedRead } from './field-access.ts';
+
+// A computed field that list queries can filter and sort on
+export interface QueryableComputedField {
+  field: FieldDefinition;  // Type the value is filtered and sorted as
+  sql: string;             // SQL expression with its values inlined
+}
+
+const expressionParser = new SafeExpressionParser();
+
+export function getComputedFields(entity: EntityDefinition): [string, string][] {
+  return Object.entries(entity.computed || {});
+}
+
+export class ComputedFields {
+  private evaluator = new SafeExpressionEvaluator();
+  // null for expressions that do not parse; those fields read as null
+  private expressions: [string, ASTNode | null][];
+
+  constructor(entity: EntityDefinition) {
+    this.expressions = getComputedFields(entity).map(([name, expression]) => [name, parseOrNull(expression)]);
+  }
+
+  /**
+   * Set the computed values on stored records, in place
+   */
+  attach(rows: Record<string, unknown>[]): void {
+    if (this.expressions.length === 0) return;
+    
+    for (const row of rows) {
+      const values = Object.fromEntries(
+        this.expressions.map(([name, ast]) => [name, ast ? this.evaluate(ast, row) : null])
+      );
+      Object.assign(row, values);
+    }
+  }
+
+  private evaluate(ast: ASTNode, row: Record<string, unknown>): unknown {
+    try {
+      return this.evaluator.evaluate(ast, row) ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Type of a computed field's value: the field it copies, the type of a
+ * constant, or boolean for conditions
+ */
+export function computedFieldDefinition(entity: EntityDefinition, expression: string): FieldDefinition {
+  const ast = parseOrNull(expression);
+
+  if (ast?.type === 'identifier') {
+    const name = (ast as IdentifierNode).name;
+    const field = entity.fields[name] || SYSTEM_COLUMNS[name];
+    if (field && !isManyRelation(field)) {
+      const options = ('options' in field && field.options) || ('values' in field && field.values) || undefined;
+      return options ? { type: field.type, options } as FieldDefinition : { type: field.type };
+    }
+  }
+  if (ast?.type === 'literal') {
+    const value = (ast as LiteralNode).value;
+    return { type: typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string' };
+  }
+  if (ast?.type === 'call') {
+    return { type: 'datetime' };
+  }
+
+  return { type: 'boolean' };
+}
+
+/**
+ * Computed fields whose expressions translate exactly into SQL. Fields the
+ * caller may not be allowed to read, and many relations, have no column to
+ * translate to, so expressions using them are left out.
+ */
+export function getQueryableComputedFields(entity: EntityDefinition): Record<string, QueryableComputedField> {
+  const queryable: Record<string, QueryableComputedField> = {};
+
+  for (const [name, expression] of getComputedFields(entity)) {
+    const ast = parseOrNull(expression);
+    const sql = ast && computedFieldSQL(entity, ast);
+    if (sql !== null) {
+      queryable[name] = { field: computedFieldDefinition(entity, expression), sql };
+    }
+  }
+
+  return queryable;
+}
+
+function computedFieldSQL(entity: EntityDefinition, ast: ASTNode): string | null {
+  const resolve = (name: string): SQLTerm => {
+    const field = entity.fields[name] || SYSTEM_COLUMNS[name];
+    if (!field || isManyRelation(field) || hasRestrictedRead(name, field)) {
+      return { kind: 'unknown' };
+    }
+    return { kind: 'column', column: name };
+  };
+
+  // Values rather than conditions: a copied column or a constant
+  if (ast.type === 'identifier') {
+    const term = resolve((ast as IdentifierNode).name);
+    return term.kind === 'column' ? term.column : null;
+  }
+  if (ast.type === 'literal') {
+    return sqlLiteral((ast as LiteralNode).value);
+  }
+
+  const translation = new ExpressionSQLTranslator(resolve).translate(ast);
+  if (!translation.exact) return null;
+  if (typeof translation.predicate === 'boolean') {
+    return translation.predicate ? '1' : '0';
+  }
+
+  // Inlined so the expression can stand in for a column anywhere in a query
+  return `(${inlineParams(translation.predicate)})`;
+}
+
+function parseOrNull(expression: string): ASTNode | null {
+  try {
+    return expressionParser.parse(expression);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+// Optimistic concurrency for single-record writes
+//
+// Every table carries a `version` column that its update trigger bumps, and
+// the version is exposed as the record's ETag. A write sent with If-Match only
+// goes ahead while the stored record still has one of the listed tags.
+
+export const VERSION_COLUMN = 'version';
+
+/**
+ * Strong ETag for a stored record. Rows from tables that predate the version
+ * column fall back to their updated_at timestamp.
+ */
+export function getETag(record: Record<string, unknown>): string {
+  const version = record[VERSION_COLUMN];
+  if (version !== undefined && version !== null) {
+    return `"${version}"`;
+  }
+
+  return `"${String(record.updated_at ?? '').replace(/[^0-9A-Za-z]/g, '')}"`;
+}
+
+/**
+ * Whether an If-Match header lets a write to this record proceed. A missing
+ * header always does; `*` matches any existing record. Weak tags are compared
+ * by their value, since proxies may weaken tags they pass along.
+ */
+export function matchesIfMatch(ifMatch: string | undefined, record: Record<string, unknown>): boolean {
+  if (ifMatch === undefined || ifMatch.trim() === '') return true;
+  if (ifMatch.trim() === '*') return true;
+
+  const current = getETag(record);
+  return ifMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(current);
+}
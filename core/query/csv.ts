@@ -0,0 +1,99 @@
+// CSV as spreadsheets read and write it (RFC 4180)
+//
+// Fields containing commas, quotes or line breaks are quoted, with quotes
+// doubled. The parser accepts LF or CRLF line endings and takes its input in
+// chunks, so large uploads never have to be held in memory at once.
+
+const NEEDS_QUOTES = /[",\r\n]/;
+
+/**
+ * One CSV line, CRLF-terminated. Null and undefined become empty cells;
+ * objects and arrays are written as JSON.
+ */
+export function formatCSVRow(values: unknown[]): string {
+  return values.map(formatCell).join(',') + '\r\n';
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return NEEDS_QUOTES.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export class CSVParser {
+  private row: string[] = [];
+  private cell = '';
+  private quoted = false;
+  // A quote inside a quoted cell: either half of "" or the closing quote
+  private pendingQuote = false;
+  // Skips the LF of a CRLF pair that was split across chunks
+  private afterCR = false;
+
+  /**
+   * Feed the next chunk of text; returns the rows it completed
+   */
+  push(chunk: string): string[][] {
+    const rows: string[][] = [];
+    
+    for (const char of chunk) {
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === '\n') continue;
+      }
+      
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.cell += '"';
+          continue;
+        }
+        this.quoted = false;
+      } else if (this.quoted) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.cell += char;
+        }
+        continue;
+      }
+      
+      if (char === '"' && this.cell === '') {
+        this.quoted = true;
+      } else if (char === ',') {
+        this.endCell();
+      } else if (char === '\r' || char === '\n') {
+        this.afterCR = char === '\r';
+        this.endCell();
+        rows.push(this.row);
+        this.row = [];
+      } else {
+        this.cell += char;
+      }
+    }
+    
+    return rows;
+  }
+
+  /**
+   * The last row when the input does not end with a line break
+   */
+  finish(): string[][] {
+    if (this.quoted && !this.pendingQuote) {
+      throw new Error('Unterminated quoted field at end of CSV');
+    }
+    if (this.row.length === 0 && this.cell === '' && !this.quoted) return [];
+    
+    this.endCell();
+    const row = this.row;
+    this.row = [];
+    return [row];
+  }
+
+  private endCell(): void {
+    this.row.push(this.cell);
+    this.cell = '';
+    this.quoted = false;
+    this.pendingQuote = false;
+  }
+}
@@ -0,0 +1,120 @@
+// Opaque keyset cursors for `after=` pagination
+//
+// A cursor captures the sort key values of the last row on a page. The next page
+// is everything strictly after that row in the requested order, which stays fast
+// on large tables where OFFSET has to scan and discard rows.
+
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { SortTerm, SQLClause } from './types.ts';
+import { sortExpression, sortKey } from './sort-parser.ts';
+
+interface CursorPayload {
+  s: string;     // Sort signature the cursor was issued for
+  v: unknown[];  // Sort key values of the last row, in sort term order
+}
+
+export class CursorCodec {
+  /**
+   * Build a cursor pointing just past the given row
+   */
+  encode(sort: SortTerm[], row: Record<string, unknown>): string {
+    const payload: CursorPayload = {
+      s: this.signature(sort),
+      v: sort.map(term => row[term.column] ?? null),
+    };
+    const bytes = new TextEncoder().encode(JSON.stringify(payload));
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  /**
+   * Decode a cursor and check it was issued for the same sort order
+   */
+  decode(cursor: string, sort: SortTerm[], requestId?: string): unknown[] {
+    let payload: CursorPayload;
+
+    try {
+      const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+      const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+      const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+      payload = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new InvalidRequestDataError('after', cursor, 'Malformed cursor', undefined, requestId);
+    }
+
+    if (!payload || !Array.isArray(payload.v) || payload.v.length !== sort.length) {
+      throw new InvalidRequestDataError('after', cursor, 'Malformed cursor', undefined, requestId);
+    }
+
+    if (payload.s !== this.signature(sort)) {
+      throw new InvalidRequestDataError(
+        'after',
+        cursor,
+        'Cursor was issued for a different sort order; pass the same sort parameter as the previous page',
+        undefined,
+        requestId
+      );
+    }
+
+    return payload.v;
+  }
+
+  /**
+   * Predicate selecting rows strictly after the cursor position.
+   * Expands to (a after) OR (a tied AND b after) OR ... using SQLite's ordering,
+   * where NULLs sort first ascending and last descending.
+   */
+  toPredicate(sort: SortTerm[], values: unknown[]): SQLClause {
+    const branches: string[] = [];
+    const params: unknown[] = [];
+
+    for (let i = 0; i < sort.length; i++) {
+      const parts: string[] = [];
+      const branchParams: unknown[] = [];
+
+      for (let j = 0; j < i; j++) {
+        const tie = this.tied(sortExpression(sort[j]), sortKey(sort[j], values[j]));
+        parts.push(tie.sql);
+        branchParams.push(...tie.params);
+      }
+
+      const after = this.after(sortExpression(sort[i]), sort[i].direction, sortKey(sort[i], values[i]));
+      if (after === null) continue;
+
+      parts.push(after.sql);
+      branchParams.push(...after.params);
+      branches.push(`(${parts.join(' AND ')})`);
+      params.push(...branchParams);
+    }
+
+    return {
+      sql: branches.length > 0 ? `(${branches.join(' OR ')})` : '0',
+      params,
+    };
+  }
+
+  private tied(expression: string, value: unknown): SQLClause {
+    return value === null
+      ? { sql: `${expression} IS NULL`, params: [] }
+      : { sql: `${expression} = ?`, params: [value] };
+  }
+
+  private after(expression: string, direction: SortTerm['direction'], value: unknown): SQLClause | null {
+    if (direction === 'ASC') {
+      return value === null
+        ? { sql: `${expression} IS NOT NULL`, params: [] }
+        : { sql: `${expression} > ?`, params: [value] };
+    }
+
+    // Nothing sorts after NULL when descending
+    return value === null
+      ? null
+      : { sql: `(${expression} < ? OR ${expression} IS NULL)`, params: [value] };
+  }
+
+  private signature(sort: SortTerm[]): string {
+    return sort.map(term => `${term.direction === 'DESC' ? '-' : ''}${term.field}`).join(',');
+  }
+}
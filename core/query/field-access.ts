@@ -0,0 +1,113 @@
+// Field-level read and write access
+//
+// `hidden` fields never leave the server and cannot be set through the API.
+// `writeOnly` fields are accepted on input but left out of every response;
+// fields whose name ends in a secret word (password, apiKey, accessToken, ...)
+// are write-only unless declared `writeOnly: false`. `permissions: { read, write }` expressions
+// narrow access per user and record on top of that.
+
+import { EntityDefinition, FieldDefinition } from '../types/index.ts';
+
+// Evaluates a field permission expression for the current user; the record is
+// null when there is none yet, e.g. on create
+export type FieldRuleEvaluator = (
+  expression: string,
+  record: Record<string, unknown> | null,
+  action: 'read' | 'write'
+) => boolean;
+
+const SECRET_WORDS = /^(password|secret|token|api_?key|private_?key)$/i;
+
+// Compares whole camelCase or snake_case words, so clientSecret is a secret
+// but secretNote, tokenCount and secretary are not
+function isSecretName(fieldName: string): boolean {
+  const words = fieldName.split(/_|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+  // The last word, or the last two for apiKey and private_key
+  return [1, 2].some(count => words.length >= count && SECRET_WORDS.test(words.slice(-count).join('_')));
+}
+
+export function isHiddenField(field: FieldDefinition): boolean {
+  return field.hidden === true;
+}
+
+export function isWriteOnlyField(fieldName: string, field: FieldDefinition): boolean {
+  return field.writeOnly ?? isSecretName(fieldName);
+}
+
+/**
+ * Whether some readers may not see the field. Such fields cannot be filtered,
+ * sorted or searched on, since the results would reveal their values.
+ */
+export function hasRestrictedRead(fieldName: string, field: FieldDefinition): boolean {
+  return isHiddenField(field) || isWriteOnlyField(fieldName, field) || !!field.permissions?.read;
+}
+
+export class FieldAccessPolicy {
+  /**
+   * Without an evaluator only the hidden and write-only flags apply
+   */
+  constructor(private entity: EntityDefinition, private evaluate?: FieldRuleEvaluator) {}
+
+  canRead(fieldName: string, record: Record<string, unknown> | null): boolean {
+    const field = this.entity.fields[fieldName];
+    // System columns such as id and version
+    if (!field) return true;
+
+    if (isHiddenField(field) || isWriteOnlyField(fieldName, field)) return false;
+    return this.allows(field.permissions?.read, record, 'read');
+  }
+
+  canWrite(fieldName: string, record: Record<string, unknown> | null): boolean {
+    const field = this.entity.fields[fieldName];
+    if (!field) return true;
+
+    if (isHiddenField(field)) return false;
+    return this.allows(field.permissions?.write, record, 'write');
+  }
+
+  /**
+   * Copy of a record without the fields the caller may not read. Rules are
+   * checked against `stored` when `record` is a derived view of it.
+   */
+  redact(record: Record<string, unknown>, stored: Record<string, unknown> = record): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(record).filter(([fieldName]) => this.canRead(fieldName, stored))
+    );
+  }
+
+  redactAll(records: Record<string, unknown>[]): Record<string, unknown>[] {
+    return records.map(record => this.redact(record));
+  }
+
+  /**
+   * Input without the fields the caller may not write. `record` is the stored
+   * record for updates and null for creates.
+   */
+  restrictInput(data: Record<string, unknown>, record: Record<string, unknown> | null): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([fieldName]) => this.canWrite(fieldName, record))
+    );
+  }
+
+  /**
+   * Input for a full replacement of a stored record. Fields the caller may not
+   * write, or could not read and left out, keep their stored values; `record`
+   * needs its many relations attached.
+   */
+  withProtectedValues(data: Record<string, unknown>, record: Record<string, unknown>): Record<string, unknown> {
+    const merged = this.restrictInput(data, record);
+
+    for (const fieldName of Object.keys(this.entity.fields)) {
+      if (fieldName in merged) continue;
+      if (!this.canWrite(fieldName, record) || !this.canRead(fieldName, record)) {
+        merged[fieldName] = record[fieldName];
+      }
+    }
+
+    return merged;
+  }
+
+  private allows(expression: string | undefined, record: Record<string, unknown> | null, action: 'read' | 'write'): boolean {
+    return !expression || !this.evaluate || this.evaluate(expression, record, action);
+  }
+}
@@ -0,0 +1,188 @@
+// Parses field-aware filter parameters (e.g. `status=todo`, `priority[in]=high,medium`)
+// into typed filter conditions validated against the entity definition
+
+import { EntityDefinition, FieldDefinition, FieldType } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { FilterCondition, FilterOperator, RESERVED_QUERY_PARAMS, SYSTEM_COLUMNS } from './types.ts';
+import { isManyRelation } from './relations.ts';
+import { hasRestrictedRead } from './field-access.ts';
+import { getQueryableComputedFields, QueryableComputedField } from './computed.ts';
+
+// Operators allowed for each field type
+const OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'contains', 'startsWith', 'endsWith', 'null'],
+  text: ['eq', 'ne', 'in', 'nin', 'contains', 'startsWith', 'endsWith', 'null'],
+  uuid: ['eq', 'ne', 'in', 'nin', 'null'],
+  enum: ['eq', 'ne', 'in', 'nin', 'null'],
+  relation: ['eq', 'ne', 'in', 'nin', 'null'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'null'],
+  integer: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'null'],
+  boolean: ['eq', 'ne', 'null'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'null'],
+  datetime: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'null'],
+  json: ['null'],
+};
+
+const KEY_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)(?:\[([A-Za-z]+)\])?$/;
+
+export class FilterParser {
+  /**
+   * Parse query parameters into filter conditions.
+   * Throws InvalidRequestDataError for unknown fields, unsupported operators or bad values.
+   */
+  parse(
+    query: Record<string, string[]>,
+    entity: EntityDefinition,
+    requestId?: string,
+    rollups: Record<string, QueryableComputedField> = {}
+  ): FilterCondition[] {
+    const conditions: FilterCondition[] = [];
+    const filterable = this.getFilterableFields(entity, rollups);
+    const derived = { ...getQueryableComputedFields(entity), ...rollups };
+
+    for (const [key, values] of Object.entries(query)) {
+      if (RESERVED_QUERY_PARAMS.includes(key)) continue;
+
+      const match = key.match(KEY_PATTERN);
+      if (!match) {
+        throw new InvalidRequestDataError(key, values, 'Malformed filter parameter, expected field or field[operator]', undefined, requestId);
+      }
+
+      const [, fieldName, rawOperator] = match;
+      const field = filterable[fieldName];
+      if (!field) {
+        throw new InvalidRequestDataError(
+          fieldName,
+          values,
+          `Unknown filter field. Filterable fields: ${Object.keys(filterable).join(', ')}`,
+          undefined,
+          requestId
+        );
+      }
+
+      // Repeated bare parameters (status=todo&status=done) behave like [in]
+      let operator = (rawOperator || 'eq') as FilterOperator;
+      if (!rawOperator && values.length > 1) {
+        operator = 'in';
+      }
+
+      const allowed = this.getOperators(field);
+      if (!allowed.includes(operator)) {
+        throw new InvalidRequestDataError(
+          fieldName,
+          values,
+          `Operator '${operator}' is not supported for ${field.type} fields. Allowed: ${allowed.join(', ')}`,
+          undefined,
+          requestId
+        );
+      }
+
+      conditions.push({
+        field: fieldName,
+        column: derived[fieldName]?.sql ?? fieldName,
+        operator,
+        value: this.coerceOperand(fieldName, field, operator, values, requestId),
+      });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Fields that may be filtered on, honouring `ui.list.filterable` when it lists fields.
+   * Fields with restricted reads are never filterable; computed fields are when
+   * they translate into SQL, and `rollups` (see rollup.ts) always are.
+   */
+  getFilterableFields(
+    entity: EntityDefinition,
+    rollups: Record<string, QueryableComputedField> = {}
+  ): Record<string, FieldDefinition> {
+    // Many relations have no column to compare against
+    const fields: Record<string, FieldDefinition> = Object.fromEntries([
+      ...Object.entries({ ...SYSTEM_COLUMNS, ...entity.fields })
+        .filter(([name, field]) => !isManyRelation(field) && !hasRestrictedRead(name, field)),
+      ...Object.entries({ ...getQueryableComputedFields(entity), ...rollups }).map(([name, derived]) => [name, derived.field]),
+    ]);
+    const filterable = entity.ui?.list?.filterable;
+
+    if (Array.isArray(filterable)) {
+      return Object.fromEntries(
+        Object.entries(fields).filter(([name]) => filterable.includes(name))
+      );
+    }
+
+    return fields;
+  }
+
+  /**
+   * Operators a field of this type can be filtered with
+   */
+  getOperators(field: FieldDefinition): FilterOperator[] {
+    return OPERATORS_BY_TYPE[field.type] || ['eq', 'ne', 'null'];
+  }
+
+  private coerceOperand(
+    fieldName: string,
+    field: FieldDefinition,
+    operator: FilterOperator,
+    values: string[],
+    requestId?: string
+  ): unknown {
+    if (operator === 'null') {
+      const flag = values[values.length - 1];
+      if (!['true', 'false', '1', '0'].includes(flag)) {
+        throw new InvalidRequestDataError(fieldName, flag, "The 'null' operator expects true or false", undefined, requestId);
+      }
+      return flag === 'true' || flag === '1';
+    }
+
+    if (operator === 'in' || operator === 'nin') {
+      const items = values
+        .flatMap(value => value.split(','))
+        .map(value => value.trim())
+        .filter(value => value !== '');
+      if (items.length === 0) {
+        throw new InvalidRequestDataError(fieldName, values, `The '${operator}' operator expects a comma-separated list`, undefined, requestId);
+      }
+      return items.map(item => this.coerceValue(fieldName, field, item, requestId));
+    }
+
+    return this.coerceValue(fieldName, field, values[values.length - 1], requestId);
+  }
+
+  private coerceValue(fieldName: string, field: FieldDefinition, value: string, requestId?: string): string | number {
+    switch (field.type) {
+      case 'number':
+      case 'integer': {
+        const num = Number(value);
+        if (value.trim() === '' || Number.isNaN(num) || (field.type === 'integer' && !Number.isInteger(num))) {
+          throw new InvalidRequestDataError(fieldName, value, `Expected ${field.type === 'integer' ? 'an integer' : 'a number'}`, undefined, requestId);
+        }
+        return num;
+      }
+
+      case 'boolean':
+        if (value === 'true' || value === '1') return 1;
+        if (value === 'false' || value === '0') return 0;
+        throw new InvalidRequestDataError(fieldName, value, 'Expected true or false', undefined, requestId);
+
+      case 'date':
+      case 'datetime':
+        if (Number.isNaN(Date.parse(value))) {
+          throw new InvalidRequestDataError(fieldName, value, 'Expected an ISO 8601 date', undefined, requestId);
+        }
+        return value;
+
+      case 'enum': {
+        const options = ('options' in field && field.options) || ('values' in field && field.values) || [];
+        if (options.length > 0 && !options.includes(value)) {
+          throw new InvalidRequestDataError(fieldName, value, `Must be one of: ${options.join(', ')}`, undefined, requestId);
+        }
+        return value;
+      }
+
+      default:
+        return value;
+    }
+  }
+}
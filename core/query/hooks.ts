@@ -0,0 +1,126 @@
+// Extension hooks around the generated CRUD routes
+//
+// An API extension's `hooks` apply to its `entity`, or to every entity when it
+// names none. Hooks of several extensions run one after the other in the order
+// the extensions were loaded. The generator calls them from the hooks stage of
+// an operation, which wraps persist (see core/generators/pipeline.ts):
+//
+//   create  beforeCreate -> insert -> afterCreate    POST, bulk and import creates
+//   update  beforeUpdate -> update -> afterUpdate    PUT, PATCH, bulk and import updates
+//   delete  beforeDelete -> delete -> afterDelete    DELETE, purge and bulk deletes
+//   read    beforeRead -> query -> afterRead         get by id; lists with a null id
+//
+// beforeCreate and beforeUpdate receive the validated input and may return
+// the data to store instead; afterRead may return the record to respond with,
+// and runs once per record of a list. afterRead also sees every other record
+// the API hands out: written records, exports, related and included records,
+// change events, and the values in history entries, versions and diffs.
+// Returning nothing keeps the value as it was. Write hooks run inside the
+// write's transaction, so throwing from one rolls the write back; a
+// FrameworkError thrown by a hook is answered with its own code.
+
+import { Context } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
+import { APIExtension, APIHooks } from '../types/extensions.ts';
+import { FieldChanges } from './audit.ts';
+
+// Where hooks come from; the runtime's ExtensionRegistry
+export interface APIHookSource {
+  getAPIHooks(entity?: string): APIExtension[];
+}
+
+export class APIHookRunner {
+  constructor(private source: APIHookSource | null = null) {}
+
+  async beforeCreate(entityName: string, data: Record<string, unknown>, c: Context): Promise<Record<string, unknown>> {
+    for (const hook of this.hooks(entityName, 'beforeCreate')) {
+      data = await hook(data, c) ?? data;
+    }
+    return data;
+  }
+
+  async afterCreate(entityName: string, data: Record<string, unknown>, result: Record<string, unknown>, c: Context): Promise<void> {
+    for (const hook of this.hooks(entityName, 'afterCreate')) {
+      await hook(data, result, c);
+    }
+  }
+
+  async beforeUpdate(entityName: string, id: string, data: Record<string, unknown>, c: Context): Promise<Record<string, unknown>> {
+    for (const hook of this.hooks(entityName, 'beforeUpdate')) {
+      data = await hook(id, data, c) ?? data;
+    }
+    return data;
+  }
+
+  async afterUpdate(
+    entityName: string,
+    id: string,
+    data: Record<string, unknown>,
+    result: Record<string, unknown>,
+    c: Context
+  ): Promise<void> {
+    for (const hook of this.hooks(entityName, 'afterUpdate')) {
+      await hook(id, data, result, c);
+    }
+  }
+
+  async beforeDelete(entityName: string, id: string, c: Context): Promise<void> {
+    for (const hook of this.hooks(entityName, 'beforeDelete')) {
+      await hook(id, c);
+    }
+  }
+
+  async afterDelete(entityName: string, id: string, c: Context): Promise<void> {
+    for (const hook of this.hooks(entityName, 'afterDelete')) {
+      await hook(id, c);
+    }
+  }
+
+  async beforeRead(entityName: string, id: string | null, c: Context): Promise<void> {
+    for (const hook of this.hooks(entityName, 'beforeRead')) {
+      await hook(id, c);
+    }
+  }
+
+  /**
+   * The records as the read hooks return them, one call per record
+   */
+  async afterRead(entityName: string, records: Record<string, unknown>[], c: Context): Promise<Record<string, unknown>[]> {
+    const hooks = this.hooks(entityName, 'afterRead');
+    if (hooks.length === 0) return records;
+    
+    const read: Record<string, unknown>[] = [];
+    for (let record of records) {
+      for (const hook of hooks) {
+        record = await hook(record, c) ?? record;
+      }
+      read.push(record);
+    }
+    return read;
+  }
+
+  /**
+   * Field changes, e.g. of a history entry or a version diff, with the old and
+   * new values as the read hooks show the record before and after the change
+   */
+  async afterReadChanges(entityName: string, id: string, changes: FieldChanges, c: Context): Promise<FieldChanges> {
+    if (this.hooks(entityName, 'afterRead').length === 0) return changes;
+    
+    const side = (key: 'old' | 'new') =>
+      ({ id, ...Object.fromEntries(Object.entries(changes).map(([fieldName, change]) => [fieldName, change[key]])) });
+    const [before, after] = await this.afterRead(entityName, [side('old'), side('new')], c);
+    
+    // Fields a hook removed from both sides are left out
+    return Object.fromEntries(
+      Object.keys(changes)
+        .filter(fieldName => fieldName in before || fieldName in after)
+        .map(fieldName => [fieldName, { old: before[fieldName] ?? null, new: after[fieldName] ?? null }])
+    );
+  }
+
+  // Looked up on every call, so reloaded extensions take effect
+  private hooks<K extends keyof APIHooks>(entityName: string, name: K): NonNullable<APIHooks[K]>[] {
+    return (this.source?.getAPIHooks(entityName) || [])
+      .map(extension => extension.hooks?.[name])
+      .filter((hook): hook is NonNullable<APIHooks[K]> => typeof hook === 'function');
+  }
+}
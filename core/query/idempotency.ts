@@ -0,0 +1,197 @@
+// Safe retries for create, bulk and behavior requests
+//
+// A client that sends `Idempotency-Key: <unique string>` can resend the same
+// request after a timeout without it taking effect twice. The first request
+// claims the key in `_idempotency` together with a hash of its method, path
+// and body; once it has been answered, the response is stored and replayed to
+// every retry until the key expires (settings.api.idempotencyTTL seconds, a
+// day by default). Keys are scoped to the user sending them. A retry that
+// arrives while the first request is still running gets 409, and reusing a key
+// for a different request gets 422. Server errors release the key so the
+// request can be tried again, and a claim left unanswered for longer than
+// IDEMPOTENCY_CLAIM_TIMEOUT seconds (its server went away mid-request) is
+// treated as released too.
+
+import { OperationState } from '../types/index.ts';
+import { IdempotencyKeyInUseError, IdempotencyKeyReusedError, InvalidRequestDataError } from '../errors/index.ts';
+import { QueryExecutor } from './types.ts';
+
+export const IDEMPOTENCY_TABLE = '_idempotency';
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+// Set on replayed responses so clients can tell a retry from the original
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60;
+export const IDEMPOTENCY_CLAIM_TIMEOUT = 5 * 60;
+
+const MAX_KEY_LENGTH = 255;
+const REPLAYED_HEADERS = ['content-type', 'etag', 'location'];
+
+export interface StoredResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+// A claimed key; status, body and headers are set once the request is answered
+interface IdempotencyRow {
+  request_hash: string;
+  status: number | null;
+  body: string;
+  headers: string;  // JSON
+}
+
+export function generateIdempotencySchema(): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${IDEMPOTENCY_TABLE} (
+  key TEXT NOT NULL,
+  principal TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status INTEGER,
+  body TEXT,
+  headers TEXT,
+  claimed_at TEXT,
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (key, principal)
+);`,
+    `CREATE INDEX IF NOT EXISTS idx_${IDEMPOTENCY_TABLE}_expires ON ${IDEMPOTENCY_TABLE} (expires_at);`,
+  ];
+}
+
+/**
+ * JSON with object keys sorted, so bodies that only order their keys
+ * differently serialize the same
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJSON(item ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 of what makes two requests the same request
+ */
+export async function hashRequest(method: string, path: string, body: Uint8Array): Promise<string> {
+  const prefix = new TextEncoder().encode(`${method.toUpperCase()} ${path}\n`);
+  const bytes = new Uint8Array(prefix.length + body.byteLength);
+  bytes.set(prefix);
+  bytes.set(body, prefix.length);
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class IdempotencyStore {
+  constructor(private db: QueryExecutor, private ttlSeconds: number = DEFAULT_IDEMPOTENCY_TTL) {}
+
+  /**
+   * Claim a key for a request. Returns the stored response when the request
+   * is a retry of one that has already been answered, null when it should run.
+   */
+  async claim(key: string, principal: string, hash: string, requestId?: string): Promise<StoredResponse | null> {
+    const now = new Date();
+    await this.db.execute(`DELETE FROM ${IDEMPOTENCY_TABLE} WHERE expires_at <= ?`, [now.toISOString()]);
+    
+    const expiresAt = new Date(now.getTime() + this.ttlSeconds * 1000).toISOString();
+    const claimed = await this.db.execute(
+      `INSERT OR IGNORE INTO ${IDEMPOTENCY_TABLE} (key, principal, request_hash, claimed_at, expires_at) VALUES (?, ?, ?, ?, ?)`,
+      [key, principal, hash, now.toISOString(), expiresAt]
+    );
+    if ((claimed.changes ?? 0) > 0) return null;
+    
+    // Take over a claim whose request never got answered
+    const staleBefore = new Date(now.getTime() - IDEMPOTENCY_CLAIM_TIMEOUT * 1000).toISOString();
+    const reclaimed = await this.db.execute(
+      `UPDATE ${IDEMPOTENCY_TABLE} SET request_hash = ?, claimed_at = ?, expires_at = ?
+       WHERE key = ? AND principal = ? AND status IS NULL AND (claimed_at IS NULL OR claimed_at <= ?)`,
+      [hash, now.toISOString(), expiresAt, key, principal, staleBefore]
+    );
+    if ((reclaimed.changes ?? 0) > 0) return null;
+    
+    const existing = (await this.db.execute<IdempotencyRow>(
+      `SELECT request_hash, status, body, headers FROM ${IDEMPOTENCY_TABLE} WHERE key = ? AND principal = ?`,
+      [key, principal]
+    )).rows?.[0];
+    
+    if (!existing) {
+      // Released between the insert and the read; the retry may run
+      return this.claim(key, principal, hash, requestId);
+    }
+    if (existing.request_hash !== hash) {
+      throw new IdempotencyKeyReusedError(key, requestId);
+    }
+    if (existing.status === null) {
+      throw new IdempotencyKeyInUseError(key, requestId);
+    }
+    
+    return { status: existing.status, body: existing.body, headers: JSON.parse(existing.headers) };
+  }
+
+  async complete(key: string, principal: string, response: StoredResponse): Promise<void> {
+    await this.db.execute(
+      `UPDATE ${IDEMPOTENCY_TABLE} SET status = ?, body = ?, headers = ? WHERE key = ? AND principal = ?`,
+      [response.status, response.body, JSON.stringify(response.headers), key, principal]
+    );
+  }
+
+  async release(key: string, principal: string): Promise<void> {
+    await this.db.execute(`DELETE FROM ${IDEMPOTENCY_TABLE} WHERE key = ? AND principal = ?`, [key, principal]);
+  }
+}
+
+/**
+ * Pipeline stage that honors Idempotency-Key, run once the caller is
+ * authenticated and the body parsed. Keys belong to the user sending them;
+ * without authentication all callers share one namespace.
+ */
+export function idempotency(store: IdempotencyStore): (state: OperationState, next: () => Promise<void>) => Promise<void> {
+  return async (state, next) => {
+    const key = state.c.req.header(IDEMPOTENCY_HEADER);
+    if (key === undefined) {
+      return next();
+    }
+    
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      throw new InvalidRequestDataError(IDEMPOTENCY_HEADER, key, `Expected 1 to ${MAX_KEY_LENGTH} characters`, undefined, state.requestId);
+    }
+    
+    // The body as parsed, so a retry that only formats it differently is the same request
+    const owner = state.auth.user?.id ?? '';
+    const body = new TextEncoder().encode(canonicalJSON(state.input));
+    const replay = await store.claim(key, owner, await hashRequest(state.c.req.method, state.c.req.path, body), state.requestId);
+    
+    if (replay) {
+      state.response = new Response(replay.body, {
+        status: replay.status,
+        headers: { ...replay.headers, [REPLAYED_HEADER]: 'true' },
+      });
+      return;
+    }
+    
+    try {
+      await next();
+    } catch (error) {
+      await store.release(key, owner);
+      throw error;
+    }
+    
+    const response = state.response;
+    if (!response || response.status >= 500) {
+      await store.release(key, owner);
+      return;
+    }
+    
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    await store.complete(key, owner, { status: response.status, body: await response.clone().text(), headers });
+  };
+}
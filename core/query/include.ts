@@ -0,0 +1,195 @@
+// Relation expansion for `include=assignedTo,project.owner`
+//
+// Related records are loaded with one `WHERE id IN (...)` query per relation
+// path, no matter how many rows reference them, and embedded in place of the
+// stored id (an array of records for `many` relations).
+
+import { AppDefinition, EntityDefinition, RelationFieldDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { IncludeNode, QueryExecutor } from './types.ts';
+import { ManyRelationStore } from './relations.ts';
+import { liveRecordFilter } from './soft-delete.ts';
+import { FieldAccessPolicy, FieldRuleEvaluator } from './field-access.ts';
+import { ComputedFields } from './computed.ts';
+import { selectColumns } from './rollup.ts';
+
+// Deepest nesting accepted, e.g. project.owner.team
+const MAX_INCLUDE_DEPTH = 3;
+
+// Stay well below SQLite's bound parameter limit
+const BATCH_SIZE = 500;
+
+// Decides whether a loaded related record may be shown to the caller
+export type ReadCheck = (entityName: string, entity: EntityDefinition, record: Record<string, unknown>) => boolean;
+
+// Gives the last say on embedded records, e.g. extensions' afterRead hooks
+export type ReadTransform = (entityName: string, records: Record<string, unknown>[]) => Promise<Record<string, unknown>[]>;
+
+export class IncludeParser {
+  constructor(private app: AppDefinition) {}
+
+  /**
+   * Parse a comma-separated list of dotted relation paths into a tree.
+   * Every segment must be a relation field of the entity reached so far.
+   */
+  parse(include: string | undefined, entityName: string, requestId?: string): IncludeNode[] {
+    const roots: IncludeNode[] = [];
+
+    if (!include || include.trim() === '') {
+      return roots;
+    }
+
+    for (const rawPath of include.split(',')) {
+      const path = rawPath.trim();
+      const segments = path.split('.');
+
+      if (segments.length > MAX_INCLUDE_DEPTH) {
+        throw new InvalidRequestDataError(
+          'include',
+          path,
+          `Includes can be nested at most ${MAX_INCLUDE_DEPTH} levels deep`,
+          undefined,
+          requestId
+        );
+      }
+
+      let level = roots;
+      let currentEntity = entityName;
+
+      for (const segment of segments) {
+        const field = this.app.entities[currentEntity]?.fields[segment];
+
+        if (!field || field.type !== 'relation') {
+          const relations = this.getRelationFields(currentEntity);
+          throw new InvalidRequestDataError(
+            'include',
+            path,
+            relations.length > 0
+              ? `'${segment}' is not a relation of ${currentEntity}. Relations: ${relations.join(', ')}`
+              : `${currentEntity} has no relations to include`,
+            undefined,
+            requestId
+          );
+        }
+
+        const relation = field as RelationFieldDefinition;
+        if (!this.app.entities[relation.to]) {
+          throw new InvalidRequestDataError(
+            'include',
+            path,
+            `Relation '${segment}' points to '${relation.to}', which is not an entity of this app`,
+            undefined,
+            requestId
+          );
+        }
+
+        let node = level.find(existing => existing.field === segment);
+        if (!node) {
+          node = { field: segment, entity: relation.to, many: !!relation.many, children: [] };
+          level.push(node);
+        }
+
+        level = node.children;
+        currentEntity = relation.to;
+      }
+    }
+
+    return roots;
+  }
+
+  private getRelationFields(entityName: string): string[] {
+    const entity = this.app.entities[entityName];
+    if (!entity) return [];
+
+    return Object.entries(entity.fields)
+      .filter(([, field]) => field.type === 'relation')
+      .map(([name]) => name);
+  }
+}
+
+export class RelationLoader {
+  private relationStore: ManyRelationStore;
+
+  constructor(
+    private app: AppDefinition,
+    private db: QueryExecutor,
+    private canRead?: ReadCheck,
+    private evaluateFieldRule?: FieldRuleEvaluator,
+    private transform?: ReadTransform
+  ) {
+    this.relationStore = new ManyRelationStore(app, db);
+  }
+
+  /**
+   * Replace relation ids in `rows` of `entityName` with the related records,
+   * in place. Records that do not exist or fail the read check are left out
+   * (null for single relations); embedded records lose fields the caller may not read.
+   */
+  async expand(entityName: string, rows: Record<string, unknown>[], includes: IncludeNode[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    for (const node of includes) {
+      // Many relations live in a join table rather than on the row
+      const links = node.many
+        ? await this.relationStore.links(entityName, node.field, rows.map(row => String(row.id)))
+        : null;
+      const idsOf = (row: Record<string, unknown>): string[] => {
+        if (links) return links.get(String(row.id)) || [];
+        const value = row[node.field];
+        return value === null || value === undefined || value === '' ? [] : [String(value)];
+      };
+
+      const ids = new Set<string>();
+      for (const row of rows) {
+        for (const id of idsOf(row)) {
+          ids.add(id);
+        }
+      }
+
+      const related = await this.load(node.entity, [...ids]);
+
+      if (node.children.length > 0) {
+        await this.expand(node.entity, [...related.values()], node.children);
+      }
+
+      const access = new FieldAccessPolicy(this.app.entities[node.entity], this.evaluateFieldRule);
+      const redacted = [...related.values()].map(record => access.redact(record));
+      const shown = this.transform ? await this.transform(node.entity, redacted) : redacted;
+      [...related.keys()].forEach((id, index) => related.set(id, shown[index]));
+
+      for (const row of rows) {
+        const records = idsOf(row)
+          .map(id => related.get(id))
+          .filter(record => record !== undefined);
+        row[node.field] = node.many ? records : records[0] ?? null;
+      }
+    }
+  }
+
+  private async load(entityName: string, ids: string[]): Promise<Map<string, Record<string, unknown>>> {
+    const entity = this.app.entities[entityName];
+    const tableName = entityName.toLowerCase();
+    const records = new Map<string, Record<string, unknown>>();
+
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const batch = ids.slice(start, start + BATCH_SIZE);
+      const result = await this.db.execute(
+        `SELECT ${selectColumns(this.app, entityName)} FROM ${tableName} WHERE id IN (${batch.map(() => '?').join(', ')})${liveRecordFilter(entity)}`,
+        batch
+      );
+
+      for (const record of result.rows || []) {
+        if (!this.canRead || this.canRead(entityName, entity, record)) {
+          records.set(String(record.id), { ...record });
+        }
+      }
+    }
+
+    // Loaded records show their own many relations as id lists and their
+    // computed fields, like any read
+    await this.relationStore.attach(entityName, [...records.values()]);
+    new ComputedFields(entity).attach([...records.values()]);
+
+    return records;
+  }
+}
@@ -0,0 +1,27 @@
+// Export all list query components
+export * from './types.ts';
+export * from './filter-parser.ts';
+export * from './sql-compiler.ts';
+export * from './sort-parser.ts';
+export * from './cursor.ts';
+export * from './search.ts';
+export * from './include.ts';
+export * from './relations.ts';
+export * from './references.ts';
+export * from './bulk.ts';
+export * from './patch.ts';
+export * from './concurrency.ts';
+export * from './soft-delete.ts';
+export * from './field-access.ts';
+export * from './computed.ts';
+export * from './rollup.ts';
+export * from './behavior.ts';
+export * from './list-query.ts';
+export * from './aggregate.ts';
+export * from './csv.ts';
+export * from './transfer.ts';
+export * from './audit.ts';
+export * from './versions.ts';
+export * from './idempotency.ts';
+export * from './changes.ts';
+export * from './hooks.ts';
@@ -0,0 +1,213 @@
+// Plans list endpoint queries: filters, search, sorting, offset or cursor paging and totals
+
+import { EntityDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { FilterParser } from './filter-parser.ts';
+import { SQLFilterCompiler } from './sql-compiler.ts';
+import { SortParser } from './sort-parser.ts';
+import { CursorCodec } from './cursor.ts';
+import { RANK_SORT, searchJoin } from './search.ts';
+import { DELETED_AT_COLUMN, isSoftDelete } from './soft-delete.ts';
+import { ListPagination, ListQuery, QueryExecutor, SortTerm, SQLClause } from './types.ts';
+import { QueryableComputedField } from './computed.ts';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+// Rows read at a time when the read rule is checked per record
+const SCAN_BATCH_SIZE = 500;
+
+// The trash lists the most recently deleted records first
+const TRASH_SORT: SortTerm[] = [
+  { field: DELETED_AT_COLUMN, column: DELETED_AT_COLUMN, direction: 'DESC' },
+];
+
+export interface ListQueryOptions {
+  requestId?: string;
+  predicates?: SQLClause[]; // Extra conditions ANDed with the client's filters
+  trash?: boolean;          // List soft-deleted records instead of live ones
+  // Rollups to select, which can also be filtered and sorted on (see rollup.ts)
+  rollups?: Record<string, QueryableComputedField>;
+}
+
+export class ListQueryBuilder {
+  private filterParser = new FilterParser();
+  private filterCompiler = new SQLFilterCompiler();
+  private sortParser = new SortParser();
+  private cursorCodec = new CursorCodec();
+
+  constructor(private tableName: string, private entity: EntityDefinition) {}
+
+  /**
+   * Plan the page and count queries for the given query parameters.
+   * When `after` is present it takes precedence over `offset`. With `q`, rows
+   * are restricted to full-text matches and ordered by relevance unless sorted.
+   * Soft-deleted rows are left out, or are the only rows listed with `trash`.
+   */
+  build(query: Record<string, string[]>, options: ListQueryOptions = {}): ListQuery {
+    const { requestId, trash = false, rollups = {} } = options;
+    const single = (key: string) => query[key]?.[query[key].length - 1];
+
+    const limit = this.parseInteger('limit', single('limit'), DEFAULT_LIMIT, 1, requestId);
+    const cursor = single('after');
+    const offset = cursor ? 0 : this.parseInteger('offset', single('offset'), 0, 0, requestId);
+
+    const search = single('q');
+    const join = search !== undefined
+      ? searchJoin(this.tableName, this.entity, search, requestId)
+      : { sql: '', params: [] };
+
+    const filters = this.filterCompiler.compile(this.filterParser.parse(query, this.entity, requestId, rollups));
+    const sort = search !== undefined
+      ? this.sortParser.parse(single('sort'), this.entity, requestId, [RANK_SORT], rollups)
+      : trash
+        ? this.sortParser.parse(single('sort'), this.entity, requestId, TRASH_SORT, rollups)
+        : this.sortParser.parse(single('sort'), this.entity, requestId, undefined, rollups);
+
+    const predicates: SQLClause[] = [...(options.predicates || [])];
+    if (isSoftDelete(this.entity)) {
+      predicates.unshift({
+        sql: `${this.tableName}.${DELETED_AT_COLUMN} IS ${trash ? 'NOT NULL' : 'NULL'}`,
+        params: [],
+      });
+    }
+    if (filters.sql) {
+      predicates.push(filters);
+    }
+    const where = this.combine(predicates);
+
+    const pagePredicates = [...predicates];
+    if (cursor) {
+      const values = this.cursorCodec.decode(cursor, sort, requestId);
+      pagePredicates.push(this.cursorCodec.toPredicate(sort, values));
+    }
+    const pageWhere = this.combine(pagePredicates);
+
+    // Computed sort values are selected too, since cursors are built from the last row
+    const rollupColumns = Object.entries(rollups)
+      .map(([name, rollup]) => `, ${rollup.sql} AS ${name}`)
+      .join('');
+    const computedColumns = sort
+      .filter(term => term.expression !== undefined && !Object.hasOwn(rollups, term.column))
+      .map(term => `, ${term.expression} AS ${term.column}`)
+      .join('');
+    const columns = search !== undefined
+      ? `${this.tableName}.*, _search._rank, _search._snippet${rollupColumns}${computedColumns}`
+      : rollupColumns
+        ? `${this.tableName}.*${rollupColumns}${computedColumns}`
+        : `*${computedColumns}`;
+
+    const scan = {
+      sql: `SELECT ${columns} FROM ${this.tableName}${join.sql}${pageWhere.sql} ORDER BY ${this.sortParser.toSQL(sort)}`,
+      params: [...join.params, ...pageWhere.params],
+    };
+
+    return {
+      select: {
+        sql: `${scan.sql} LIMIT ? OFFSET ?`,
+        params: [...scan.params, limit + 1, offset],
+      },
+      count: {
+        sql: `SELECT COUNT(*) AS total FROM ${this.tableName}${join.sql}${where.sql}`,
+        params: [...join.params, ...where.params],
+      },
+      scan,
+      limit,
+      offset,
+      sort,
+      cursor,
+      search,
+    };
+  }
+
+  /**
+   * Trim the extra look-ahead row and describe the page. Search results carry
+   * their relevance and highlighted snippet under `_search`.
+   */
+  paginate(
+    listQuery: ListQuery,
+    rows: Record<string, unknown>[],
+    total: number | null
+  ): { items: Record<string, unknown>[]; pagination: ListPagination } {
+    const hasMore = rows.length > listQuery.limit;
+    const page = hasMore ? rows.slice(0, listQuery.limit) : rows;
+    const nextCursor = hasMore ? this.cursorCodec.encode(listQuery.sort, page[page.length - 1]) : null;
+
+    const items = listQuery.search === undefined
+      ? page
+      : page.map(({ _rank, _snippet, ...item }) => ({ ...item, _search: { rank: _rank, snippet: _snippet } }));
+
+    return {
+      items,
+      pagination: {
+        limit: listQuery.limit,
+        offset: listQuery.offset,
+        total,
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  private combine(predicates: SQLClause[]): SQLClause {
+    if (predicates.length === 0) {
+      return { sql: '', params: [] };
+    }
+
+    return {
+      sql: ` WHERE ${predicates.map(predicate => `(${predicate.sql})`).join(' AND ')}`,
+      params: predicates.flatMap(predicate => predicate.params),
+    };
+  }
+
+  private parseInteger(
+    name: string,
+    value: string | undefined,
+    fallback: number,
+    min: number,
+    requestId?: string
+  ): number {
+    if (value === undefined || value === '') {
+      return fallback;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new InvalidRequestDataError(name, value, `Expected an integer >= ${min}`, undefined, requestId);
+    }
+
+    return name === 'limit' ? Math.min(parsed, MAX_LIMIT) : parsed;
+  }
+}
+
+/**
+ * The rows of a page, and the look-ahead row, when each record has to pass
+ * `permitted`: matching rows are read in batches, in page order, until the
+ * page is full. The offset counts permitted records only.
+ */
+export async function readPermittedPage(
+  db: QueryExecutor,
+  listQuery: ListQuery,
+  permitted: (record: Record<string, unknown>) => boolean
+): Promise<Record<string, unknown>[]> {
+  const page: Record<string, unknown>[] = [];
+  let skipped = 0;
+
+  for (let read = 0; page.length <= listQuery.limit; read += SCAN_BATCH_SIZE) {
+    const batch = (await db.execute(
+      `${listQuery.scan.sql} LIMIT ? OFFSET ?`,
+      [...listQuery.scan.params, SCAN_BATCH_SIZE, read]
+    )).rows || [];
+
+    for (const record of batch) {
+      if (page.length > listQuery.limit || !permitted(record)) continue;
+      if (skipped < listQuery.offset) {
+        skipped++;
+      } else {
+        page.push(record);
+      }
+    }
+    if (batch.length < SCAN_BATCH_SIZE) break;
+  }
+
+  return page;
+}
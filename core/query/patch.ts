@@ -0,0 +1,298 @@
+// Partial updates for `PATCH /{entity}s/:id`
+//
+// A record is turned into a plain document (json fields parsed, many relations
+// as id arrays), the patch is applied to it, and the result is validated and
+// stored as a whole. Two patch formats are understood:
+//   application/merge-patch+json  RFC 7396 - objects merge, null removes
+//   application/json-patch+json   RFC 6902 - list of add/remove/replace/move/copy/test
+
+import { EntityDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { isManyRelation } from './relations.ts';
+
+export type PatchFormat = 'merge-patch' | 'json-patch';
+
+export const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+// Columns managed by the database rather than the client
+const SYSTEM_FIELDS = ['id', 'created_at', 'updated_at', 'createdAt', 'updatedAt'];
+
+const JSON_PATCH_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+// One checked JSON Patch operation; from is set for move and copy
+interface PatchOperation {
+  op: string;
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+/**
+ * Patch format for a Content-Type header. Plain application/json is read as a
+ * merge patch; anything else is unsupported.
+ */
+export function getPatchFormat(contentType: string | undefined): PatchFormat | null {
+  const mediaType = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (mediaType === JSON_PATCH_TYPE) return 'json-patch';
+  if (mediaType === MERGE_PATCH_TYPE || mediaType === 'application/json') return 'merge-patch';
+  return null;
+}
+
+/**
+ * The client-editable part of a stored record. Many relations must already be
+ * attached as id arrays.
+ */
+export function toPatchDocument(entity: EntityDefinition, record: Record<string, unknown>): Record<string, unknown> {
+  const document: Record<string, unknown> = {};
+
+  for (const [fieldName, field] of Object.entries(entity.fields)) {
+    if (SYSTEM_FIELDS.includes(fieldName)) continue;
+
+    const value = record[fieldName];
+    if (field.type === 'json' && typeof value === 'string') {
+      try {
+        document[fieldName] = JSON.parse(value);
+      } catch {
+        document[fieldName] = value;
+      }
+    } else if (isManyRelation(field)) {
+      document[fieldName] = Array.isArray(value) ? [...value] : [];
+    } else {
+      document[fieldName] = value ?? null;
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Stringify object values of json fields so they can be bound as TEXT
+ */
+export function serializeJsonFields(entity: EntityDefinition, data: Record<string, unknown>): Record<string, unknown> {
+  const serialized = { ...data };
+
+  for (const [fieldName, value] of Object.entries(data)) {
+    if (entity.fields[fieldName]?.type === 'json' && value !== null && typeof value === 'object') {
+      serialized[fieldName] = JSON.stringify(value);
+    }
+  }
+
+  return serialized;
+}
+
+export function applyPatch(
+  format: PatchFormat,
+  document: Record<string, unknown>,
+  patch: unknown,
+  requestId?: string
+): Record<string, unknown> {
+  return format === 'json-patch'
+    ? applyJsonPatch(document, patch, requestId)
+    : applyMergePatch(document, patch, requestId);
+}
+
+/**
+ * RFC 7396 JSON Merge Patch. The patch must be an object at the top level.
+ */
+export function applyMergePatch(document: Record<string, unknown>, patch: unknown, requestId?: string): Record<string, unknown> {
+  if (!isPlainObject(patch)) {
+    throw new InvalidRequestDataError('body', patch, 'A merge patch must be a JSON object', undefined, requestId);
+  }
+
+  // Top-level fields are columns, so null clears them rather than removing them
+  const result = { ...document };
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = value === null ? null : mergeValue(result[key], value);
+  }
+
+  return result;
+}
+
+function mergeValue(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergeValue(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * RFC 6902 JSON Patch. Operations apply in order to a copy of the document;
+ * a failed `test` or a bad path rejects the whole patch.
+ */
+export function applyJsonPatch(document: Record<string, unknown>, operations: unknown, requestId?: string): Record<string, unknown> {
+  if (!Array.isArray(operations)) {
+    throw new InvalidRequestDataError('body', operations, 'A JSON Patch must be an array of operations', undefined, requestId);
+  }
+
+  let result: unknown = structuredClone(document);
+
+  operations.forEach((body: unknown, index: number) => {
+    const fail = (reason: string): never => {
+      throw new InvalidRequestDataError(`[${index}]`, body, reason, undefined, requestId);
+    };
+
+    const operation = parseOperation(body, fail);
+    const path = parsePointer(operation.path, fail);
+
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, path, structuredClone(operation.value), fail);
+        break;
+      case 'remove':
+        result = removeValue(result, path, fail).document;
+        break;
+      case 'replace':
+        result = removeValue(result, path, fail).document;
+        result = addValue(result, path, structuredClone(operation.value), fail);
+        break;
+      case 'move': {
+        const from = parsePointer(operation.from!, fail);
+        if (path.length > from.length && from.every((token, i) => token === path[i])) {
+          fail('Cannot move a value into one of its own children');
+        }
+        const removed = removeValue(result, from, fail);
+        result = addValue(removed.document, path, removed.value, fail);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, structuredClone(getValue(result, parsePointer(operation.from!, fail), fail)), fail);
+        break;
+      case 'test':
+        if (!deepEqual(getValue(result, path, fail), operation.value)) {
+          fail(`Test failed: value at ${operation.path} does not match`);
+        }
+        break;
+    }
+  });
+
+  if (!isPlainObject(result)) {
+    throw new InvalidRequestDataError('body', operations, 'The patched document must remain an object', undefined, requestId);
+  }
+
+  return result;
+}
+
+function parseOperation(operation: unknown, fail: (reason: string) => never): PatchOperation {
+  if (!isPlainObject(operation) || typeof operation.op !== 'string' || !JSON_PATCH_OPS.includes(operation.op)) {
+    return fail(`op must be one of: ${JSON_PATCH_OPS.join(', ')}`);
+  }
+  if (typeof operation.path !== 'string') {
+    return fail('path must be a JSON Pointer string');
+  }
+  if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+    return fail(`${operation.op} needs a value`);
+  }
+  if (['move', 'copy'].includes(operation.op) && typeof operation.from !== 'string') {
+    return fail(`${operation.op} needs a from pointer`);
+  }
+
+  return { op: operation.op, path: operation.path, from: operation.from as string | undefined, value: operation.value };
+}
+
+function parsePointer(pointer: string, fail: (reason: string) => never): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    fail(`'${pointer}' is not a JSON Pointer`);
+  }
+
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getValue(document: unknown, path: string[], fail: (reason: string) => never): unknown {
+  let current = document;
+
+  for (const token of path) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false, fail)];
+    } else if (isPlainObject(current) && Object.hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      fail(`Path /${path.join('/')} does not exist`);
+    }
+  }
+
+  return current;
+}
+
+function addValue(document: unknown, path: string[], value: unknown, fail: (reason: string) => never): unknown {
+  if (path.length === 0) return value;
+
+  const parent = getValue(document, path.slice(0, -1), fail);
+  const token = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(token === '-' ? parent.length : arrayIndex(parent, token, true, fail), 0, value);
+  } else if (isPlainObject(parent)) {
+    parent[token] = value;
+  } else {
+    fail(`Cannot add to /${path.join('/')}: parent is not an object or array`);
+  }
+
+  return document;
+}
+
+function removeValue(
+  document: unknown,
+  path: string[],
+  fail: (reason: string) => never
+): { document: unknown; value: unknown } {
+  if (path.length === 0) {
+    fail('Cannot remove the whole document');
+  }
+
+  const parent = getValue(document, path.slice(0, -1), fail);
+  const token = path[path.length - 1];
+  let value: unknown;
+
+  if (Array.isArray(parent)) {
+    [value] = parent.splice(arrayIndex(parent, token, false, fail), 1);
+  } else if (isPlainObject(parent) && Object.hasOwn(parent, token)) {
+    value = parent[token];
+    delete parent[token];
+  } else {
+    fail(`Path /${path.join('/')} does not exist`);
+  }
+
+  return { document, value };
+}
+
+function arrayIndex(array: unknown[], token: string, inserting: boolean, fail: (reason: string) => never): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    fail(`'${token}' is not an array index`);
+  }
+
+  const index = Number(token);
+  if (index > array.length || (!inserting && index === array.length)) {
+    fail(`Array index ${index} is out of bounds`);
+  }
+
+  return index;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
@@ -0,0 +1,138 @@
+// Foreign keys and delete policies for single relations
+//
+// A single relation column is emitted as `REFERENCES <target>(id)` with the
+// ON DELETE action chosen by the field's `onDelete` policy. Deleting a record
+// that `restrict` relations still point at is refused with a
+// ReferenceConflictError listing the blocking records.
+
+import {
+  AppDefinition,
+  EntityDefinition,
+  RelationDeletePolicy,
+  RelationFieldDefinition,
+} from '../types/index.ts';
+import { ReferenceConflictError } from '../errors/index.ts';
+import { QueryExecutor } from './types.ts';
+
+// Blocking record ids reported per relation in a conflict
+const SAMPLE_SIZE = 5;
+
+export interface ForeignKey {
+  field: string;
+  targetTable: string;
+  policy: RelationDeletePolicy;
+  action: string;   // SQL ON DELETE action
+}
+
+export interface BlockingReference {
+  entity: string;
+  field: string;
+  count: number;
+  ids: string[];
+}
+
+const FOREIGN_KEY_ACTIONS: Record<RelationDeletePolicy, string> = {
+  cascade: 'CASCADE',
+  restrict: 'RESTRICT',
+  setNull: 'SET NULL',
+};
+
+/**
+ * Policy for a relation; a required relation cannot be nulled, so it restricts by default
+ */
+export function getDeletePolicy(relation: RelationFieldDefinition): RelationDeletePolicy {
+  return relation.onDelete ?? (relation.required ? 'restrict' : 'setNull');
+}
+
+/**
+ * Whether rows of an entity can be the target of a foreign key, which needs a
+ * primary key or unique `id` column
+ */
+export function isReferenceable(app: AppDefinition, entityName: string): boolean {
+  const target = app.entities[entityName];
+  if (!target) return false;
+
+  const id = target.fields.id;
+  return !id || !!id.unique;
+}
+
+/**
+ * Foreign keys for the single relation columns of an entity, in field order
+ */
+export function getForeignKeys(app: AppDefinition, entity: EntityDefinition): ForeignKey[] {
+  const keys: ForeignKey[] = [];
+
+  for (const [fieldName, field] of Object.entries(entity.fields)) {
+    if (field.type !== 'relation') continue;
+
+    const relation = field as RelationFieldDefinition;
+    if (relation.many || !isReferenceable(app, relation.to)) continue;
+
+    const policy = getDeletePolicy(relation);
+    keys.push({
+      field: fieldName,
+      targetTable: relation.to.toLowerCase(),
+      policy,
+      action: FOREIGN_KEY_ACTIONS[policy],
+    });
+  }
+
+  return keys;
+}
+
+export class ReferenceGuard {
+  constructor(private app: AppDefinition, private db: QueryExecutor) {}
+
+  /**
+   * Records whose `restrict` relations point at the given record
+   */
+  async blocking(entityName: string, id: string): Promise<BlockingReference[]> {
+    const references: BlockingReference[] = [];
+
+    for (const [ownerName, owner] of Object.entries(this.app.entities)) {
+      for (const key of getForeignKeys(this.app, owner)) {
+        if (key.policy !== 'restrict' || (owner.fields[key.field] as RelationFieldDefinition).to !== entityName) {
+          continue;
+        }
+
+        const ownerTable = ownerName.toLowerCase();
+        const counted = await this.db.execute(
+          `SELECT COUNT(*) AS total FROM ${ownerTable} WHERE ${key.field} = ?`,
+          [id]
+        );
+        const count = Number(counted.rows?.[0]?.total || 0);
+        if (count === 0) continue;
+
+        const sample = await this.db.execute<{ id: unknown }>(
+          `SELECT id FROM ${ownerTable} WHERE ${key.field} = ? ORDER BY rowid LIMIT ${SAMPLE_SIZE}`,
+          [id]
+        );
+        references.push({
+          entity: ownerName,
+          field: key.field,
+          count,
+          ids: (sample.rows || []).map(row => String(row.id)),
+        });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Throw a ReferenceConflictError when the record is still referenced
+   */
+  async assertDeletable(entityName: string, id: string, requestId?: string): Promise<void> {
+    const references = await this.blocking(entityName, id);
+    if (references.length > 0) {
+      throw new ReferenceConflictError(entityName, id, references, requestId);
+    }
+  }
+}
+
+/**
+ * Whether a database error is SQLite refusing a change that would break a foreign key
+ */
+export function isForeignKeyViolation(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('FOREIGN KEY constraint failed');
+}
@@ -0,0 +1,260 @@
+// Many-to-many relations backed by generated join tables
+//
+// A `many: true` relation has no column on the entity table. Each link is a row
+// in `<table>_<field>` pairing the owning record (source_id) with a record of
+// the related entity (target_id).
+
+import { AppDefinition, EntityDefinition, FieldDefinition, RelationFieldDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { liveRecordFilter } from './soft-delete.ts';
+import { ComputedFields } from './computed.ts';
+import { selectColumns } from './rollup.ts';
+import { QueryExecutor } from './types.ts';
+
+// Stay well below SQLite's bound parameter limit
+const BATCH_SIZE = 500;
+
+export function isManyRelation(field: FieldDefinition): field is RelationFieldDefinition {
+  return field.type === 'relation' && !!(field as RelationFieldDefinition).many;
+}
+
+export function getManyRelations(entity: EntityDefinition): Array<[string, RelationFieldDefinition]> {
+  return Object.entries(entity.fields)
+    .filter((entry): entry is [string, RelationFieldDefinition] => isManyRelation(entry[1]));
+}
+
+export function joinTableName(tableName: string, fieldName: string): string {
+  return `${tableName}_${fieldName}`;
+}
+
+/**
+ * DDL for the join table behind a many relation, indexed both ways
+ */
+export function generateJoinTableSchema(tableName: string, fieldName: string, relation: RelationFieldDefinition): string[] {
+  const joinTable = joinTableName(tableName, fieldName);
+  const targetTable = relation.to.toLowerCase();
+
+  return [
+    `CREATE TABLE IF NOT EXISTS ${joinTable} (
+  source_id TEXT NOT NULL REFERENCES ${tableName}(id) ON DELETE CASCADE,
+  target_id TEXT NOT NULL REFERENCES ${targetTable}(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (source_id, target_id)
+);`,
+    `CREATE INDEX IF NOT EXISTS idx_${joinTable}_target ON ${joinTable} (target_id);`,
+  ];
+}
+
+/**
+ * Separate many relation values from the columns written to the entity table
+ */
+export function splitManyRelations(
+  entity: EntityDefinition,
+  data: Record<string, unknown>
+): { columns: Record<string, unknown>; links: Record<string, string[]> } {
+  const columns: Record<string, unknown> = { ...data };
+  const links: Record<string, string[]> = {};
+
+  for (const [fieldName] of getManyRelations(entity)) {
+    if (fieldName in columns) {
+      if (columns[fieldName] !== undefined) {
+        links[fieldName] = toIdList(columns[fieldName]);
+      }
+      delete columns[fieldName];
+    }
+  }
+
+  return { columns, links };
+}
+
+export class ManyRelationStore {
+  constructor(private app: AppDefinition, private db: QueryExecutor) {}
+
+  /**
+   * Linked target ids for each source id, in the order they were linked.
+   * Links to soft-deleted targets are kept so restoring a target restores them.
+   */
+  async links(entityName: string, fieldName: string, sourceIds: string[]): Promise<Map<string, string[]>> {
+    const joinTable = joinTableName(entityName.toLowerCase(), fieldName);
+    const links = new Map<string, string[]>();
+    const ids = [...new Set(sourceIds.map(String))];
+
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const batch = ids.slice(start, start + BATCH_SIZE);
+      const result = await this.db.execute<{ source_id: string; target_id: string }>(
+        `SELECT source_id, target_id FROM ${joinTable} WHERE source_id IN (${batch.map(() => '?').join(', ')}) ORDER BY rowid`,
+        batch
+      );
+
+      for (const row of result.rows || []) {
+        const targets = links.get(row.source_id) || [];
+        targets.push(row.target_id);
+        links.set(row.source_id, targets);
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Live records linked to one source record, in link order, with their
+   * many relations, computed fields and rollups
+   */
+  async related(entityName: string, fieldName: string, sourceId: string): Promise<Record<string, unknown>[]> {
+    const relation = this.getRelation(entityName, fieldName);
+    const targetIds = (await this.links(entityName, fieldName, [sourceId])).get(sourceId) || [];
+    if (targetIds.length === 0) return [];
+
+    const found = new Map<string, Record<string, unknown>>();
+    for (let start = 0; start < targetIds.length; start += BATCH_SIZE) {
+      const batch = targetIds.slice(start, start + BATCH_SIZE);
+      const result = await this.db.execute(
+        `SELECT ${selectColumns(this.app, relation.to)} FROM ${relation.to.toLowerCase()} WHERE id IN (${batch.map(() => '?').join(', ')})${liveRecordFilter(this.app.entities[relation.to])}`,
+        batch
+      );
+      for (const row of result.rows || []) {
+        found.set(String(row.id), row);
+      }
+    }
+
+    const records = targetIds
+      .map(targetId => found.get(targetId))
+      .filter((record): record is Record<string, unknown> => record !== undefined);
+
+    await this.attach(relation.to, records);
+    new ComputedFields(this.app.entities[relation.to]).attach(records);
+    return records;
+  }
+
+  /**
+   * Set every many relation on the rows to its array of linked ids, in place
+   */
+  async attach(entityName: string, rows: Record<string, unknown>[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    for (const [fieldName] of getManyRelations(this.app.entities[entityName])) {
+      const links = await this.links(entityName, fieldName, rows.map(row => String(row.id)));
+      for (const row of rows) {
+        row[fieldName] = links.get(String(row.id)) || [];
+      }
+    }
+  }
+
+  /**
+   * Write the links from splitManyRelations(), replacing existing ones
+   */
+  async write(entityName: string, sourceId: string, links: Record<string, string[]>, requestId?: string): Promise<void> {
+    for (const [fieldName, targetIds] of Object.entries(links)) {
+      await this.replace(entityName, sourceId, fieldName, targetIds, requestId);
+    }
+  }
+
+  async replace(entityName: string, sourceId: string, fieldName: string, targetIds: string[], requestId?: string): Promise<void> {
+    const joinTable = joinTableName(entityName.toLowerCase(), fieldName);
+    await this.db.execute(`DELETE FROM ${joinTable} WHERE source_id = ?`, [sourceId]);
+    await this.add(entityName, sourceId, fieldName, targetIds, requestId);
+  }
+
+  /**
+   * Link targets, ignoring ones already linked. Throws InvalidRequestDataError
+   * when a target id does not exist.
+   */
+  async add(entityName: string, sourceId: string, fieldName: string, targetIds: string[], requestId?: string): Promise<number> {
+    const relation = this.getRelation(entityName, fieldName);
+    const joinTable = joinTableName(entityName.toLowerCase(), fieldName);
+    const ids = [...new Set(targetIds)];
+
+    const missing = await this.findMissing(relation.to, ids);
+    if (missing.length > 0) {
+      throw new InvalidRequestDataError(
+        fieldName,
+        missing,
+        `No ${relation.to} with id ${missing.join(', ')}`,
+        undefined,
+        requestId
+      );
+    }
+
+    let added = 0;
+    for (const targetId of ids) {
+      const result = await this.db.execute(
+        `INSERT OR IGNORE INTO ${joinTable} (source_id, target_id) VALUES (?, ?)`,
+        [sourceId, targetId]
+      );
+      added += result.changes || 0;
+    }
+
+    return added;
+  }
+
+  async remove(entityName: string, sourceId: string, fieldName: string, targetIds: string[]): Promise<number> {
+    const joinTable = joinTableName(entityName.toLowerCase(), fieldName);
+    let removed = 0;
+
+    for (const targetId of new Set(targetIds)) {
+      const result = await this.db.execute(
+        `DELETE FROM ${joinTable} WHERE source_id = ? AND target_id = ?`,
+        [sourceId, targetId]
+      );
+      removed += result.changes || 0;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Drop every link to or from a record that is being deleted
+   */
+  async unlink(entityName: string, id: string): Promise<void> {
+    for (const [ownerName, owner] of Object.entries(this.app.entities)) {
+      for (const [fieldName, relation] of getManyRelations(owner)) {
+        const joinTable = joinTableName(ownerName.toLowerCase(), fieldName);
+        if (ownerName === entityName) {
+          await this.db.execute(`DELETE FROM ${joinTable} WHERE source_id = ?`, [id]);
+        }
+        if (relation.to === entityName) {
+          await this.db.execute(`DELETE FROM ${joinTable} WHERE target_id = ?`, [id]);
+        }
+      }
+    }
+  }
+
+  private getRelation(entityName: string, fieldName: string): RelationFieldDefinition {
+    const field = this.app.entities[entityName]?.fields[fieldName];
+    if (!field || !isManyRelation(field)) {
+      throw new Error(`${entityName}.${fieldName} is not a many relation`);
+    }
+    return field;
+  }
+
+  private async findMissing(targetEntity: string, ids: string[]): Promise<string[]> {
+    const found = new Set<string>();
+    const targetTable = targetEntity.toLowerCase();
+
+    for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+      const batch = ids.slice(start, start + BATCH_SIZE);
+      const result = await this.db.execute(
+        `SELECT id FROM ${targetTable} WHERE id IN (${batch.map(() => '?').join(', ')})${liveRecordFilter(this.app.entities[targetEntity])}`,
+        batch
+      );
+      for (const row of result.rows || []) {
+        found.add(String(row.id));
+      }
+    }
+
+    return ids.filter(id => !found.has(id));
+  }
+}
+
+/**
+ * Normalise a submitted many relation value to a list of ids
+ */
+function toIdList(value: unknown): string[] {
+  if (value === null || value === '') {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value])
+    .filter(id => id !== null && id !== undefined && id !== '')
+    .map(id => String(id));
+}
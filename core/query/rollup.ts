@@ -0,0 +1,168 @@
+// Rollup fields, e.g.
+//   rollups: { openTasks: { from: 'Task', via: 'assignedTo', aggregate: 'count', where: 'status != "done"' } }
+//
+// A rollup aggregates the records of another entity that point at this one
+// through a relation field. Its value is a correlated subquery selected with
+// the record's columns, so it is current on every read and can be filtered,
+// sorted and used in permission expressions like a column. Trashed records are
+// not aggregated; other records are, whether or not the caller may read them.
+
+import { AppDefinition, EntityDefinition, FieldDefinition, RelationFieldDefinition, RollupDefinition } from '../types/index.ts';
+import { ASTNode, SafeExpressionParser } from '../expression/parser.ts';
+import { ExpressionSQLTranslator, inlineParams, SQLTerm } from '../expression/sql-translator.ts';
+import { SYSTEM_COLUMNS } from './types.ts';
+import { isManyRelation, joinTableName } from './relations.ts';
+import { liveRecordFilter } from './soft-delete.ts';
+import { QueryableComputedField } from './computed.ts';
+
+// Aliases inside a rollup's subquery, so they never shadow the outer table
+const ROLLUP_ALIAS = '_rollup';
+const LINK_ALIAS = '_rollup_link';
+
+const NUMERIC_TYPES = ['number', 'integer'];
+
+const expressionParser = new SafeExpressionParser();
+
+export function getRollups(entity: EntityDefinition | undefined): [string, RollupDefinition][] {
+  return Object.entries(entity?.rollups || {});
+}
+
+/**
+ * Type of a rollup's value: counts are integers, averages numbers, and sums,
+ * minimums and maximums have the type of the aggregated field
+ */
+export function rollupFieldDefinition(app: AppDefinition, rollup: RollupDefinition): FieldDefinition {
+  if (rollup.aggregate === 'count') return { type: 'integer' };
+  if (rollup.aggregate === 'avg') return { type: 'number' };
+
+  const field = aggregatedField(app, rollup);
+  if (!field) return { type: 'number' };
+
+  const options = ('options' in field && field.options) || ('values' in field && field.values) || undefined;
+  return options ? { type: field.type, options } as FieldDefinition : { type: field.type };
+}
+
+/**
+ * An entity's rollups with the SQL computing them for a row of its table.
+ * Rollups whose definitions do not resolve are left out.
+ */
+export function getQueryableRollups(app: AppDefinition, entityName: string): Record<string, QueryableComputedField> {
+  const queryable: Record<string, QueryableComputedField> = {};
+
+  for (const [name, rollup] of getRollups(app.entities[entityName])) {
+    const sql = rollupSQL(app, entityName, rollup);
+    if (sql !== null) {
+      queryable[name] = { field: rollupFieldDefinition(app, rollup), sql };
+    }
+  }
+
+  return queryable;
+}
+
+/**
+ * Select list for an entity's records: the table's columns followed by its rollups
+ */
+export function selectColumns(app: AppDefinition, entityName: string): string {
+  const rollups = Object.entries(getQueryableRollups(app, entityName));
+  if (rollups.length === 0) return '*';
+
+  return [
+    `${entityName.toLowerCase()}.*`,
+    ...rollups.map(([name, rollup]) => `${rollup.sql} AS ${name}`),
+  ].join(', ');
+}
+
+/**
+ * Correlated subquery aggregating the `from` records linked to the outer row,
+ * or null when the definition does not resolve. `where` must translate exactly.
+ */
+export function rollupSQL(app: AppDefinition, entityName: string, rollup: RollupDefinition): string | null {
+  const source = app.entities[rollup.from];
+  const via = source?.fields[rollup.via];
+  if (!source || !via || via.type !== 'relation' || (via as RelationFieldDefinition).to !== entityName) {
+    return null;
+  }
+
+  const aggregate = aggregateSQL(app, rollup);
+  if (aggregate === null) return null;
+
+  const tableName = entityName.toLowerCase();
+  const sourceTable = rollup.from.toLowerCase();
+  let from = `${sourceTable} AS ${ROLLUP_ALIAS}`;
+  const conditions: string[] = [];
+
+  if (isManyRelation(via)) {
+    from += ` JOIN ${joinTableName(sourceTable, rollup.via)} AS ${LINK_ALIAS} ON ${LINK_ALIAS}.source_id = ${ROLLUP_ALIAS}.id`;
+    conditions.push(`${LINK_ALIAS}.target_id = ${tableName}.id`);
+  } else {
+    conditions.push(`${ROLLUP_ALIAS}.${rollup.via} = ${tableName}.id`);
+  }
+
+  if (rollup.where) {
+    const where = whereSQL(source, rollup.where);
+    if (where === null) return null;
+    conditions.push(where);
+  }
+
+  return `(SELECT ${aggregate} FROM ${from} WHERE ${conditions.join(' AND ')}${liveRecordFilter(source, ROLLUP_ALIAS)})`;
+}
+
+function aggregateSQL(app: AppDefinition, rollup: RollupDefinition): string | null {
+  if (!rollup.field) {
+    return rollup.aggregate === 'count' ? 'COUNT(*)' : null;
+  }
+
+  const field = aggregatedField(app, rollup);
+  if (!field || isManyRelation(field)) return null;
+  if ((rollup.aggregate === 'sum' || rollup.aggregate === 'avg') && !NUMERIC_TYPES.includes(field.type)) {
+    return null;
+  }
+
+  const column = `${ROLLUP_ALIAS}.${rollup.field}`;
+  switch (rollup.aggregate) {
+    case 'count':
+      return `COUNT(${column})`;
+    // Nothing to add up is 0 rather than NULL
+    case 'sum':
+      return `COALESCE(SUM(${column}), 0)`;
+    case 'avg':
+      return `AVG(${column})`;
+    case 'min':
+      return `MIN(${column})`;
+    case 'max':
+      return `MAX(${column})`;
+    default:
+      return null;
+  }
+}
+
+function aggregatedField(app: AppDefinition, rollup: RollupDefinition): FieldDefinition | undefined {
+  if (!rollup.field) return undefined;
+  return app.entities[rollup.from]?.fields[rollup.field] || SYSTEM_COLUMNS[rollup.field];
+}
+
+/**
+ * The `where` expression as a condition on the aggregated rows, with its
+ * values inlined
+ */
+function whereSQL(source: EntityDefinition, expression: string): string | null {
+  let ast: ASTNode;
+  try {
+    ast = expressionParser.parse(expression);
+  } catch {
+    return null;
+  }
+
+  const translation = new ExpressionSQLTranslator((name): SQLTerm => {
+    const field = source.fields[name] || SYSTEM_COLUMNS[name];
+    return field && !isManyRelation(field)
+      ? { kind: 'column', column: `${ROLLUP_ALIAS}.${name}` }
+      : { kind: 'unknown' };
+  }).translate(ast);
+
+  if (!translation.exact) return null;
+  if (typeof translation.predicate === 'boolean') {
+    return translation.predicate ? '1' : '0';
+  }
+  return inlineParams(translation.predicate);
+}
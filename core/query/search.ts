@@ -0,0 +1,130 @@
+// Full-text search over `ui.list.searchable` fields using SQLite FTS5
+//
+// Each searchable entity gets an external-content FTS5 table named
+// `<table>_fts` that indexes the searchable columns by rowid. Triggers keep it
+// in step with the entity table; the migrator rebuilds it when the truth changes.
+
+import { EntityDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { SQLClause, SortTerm } from './types.ts';
+import { hasRestrictedRead } from './field-access.ts';
+
+// Field types whose values are worth tokenizing
+const SEARCHABLE_TYPES = ['string', 'text', 'enum', 'uuid'];
+
+// Highlight markers wrapped around matched terms in snippets
+const SNIPPET_OPEN = '<mark>';
+const SNIPPET_CLOSE = '</mark>';
+const SNIPPET_TOKENS = 12;
+
+// Best matches first; bm25 scores are negative with lower meaning more relevant
+export const RANK_SORT: SortTerm = { field: 'rank', column: '_rank', direction: 'ASC' };
+
+/**
+ * Searchable fields declared in `ui.list.searchable`, in declaration order.
+ * Fields not every reader may see are never indexed.
+ */
+export function getSearchableFields(entity: EntityDefinition): string[] {
+  const searchable = entity.ui?.list?.searchable || [];
+
+  return searchable.filter(fieldName => {
+    const field = entity.fields[fieldName];
+    return field !== undefined && SEARCHABLE_TYPES.includes(field.type) && !hasRestrictedRead(fieldName, field);
+  });
+}
+
+export function searchTableName(tableName: string): string {
+  return `${tableName}_fts`;
+}
+
+/**
+ * DDL for the FTS5 table and the triggers that keep it in sync.
+ * Returns no statements when the entity has nothing searchable.
+ */
+export function generateSearchSchema(tableName: string, entity: EntityDefinition): string[] {
+  const fields = getSearchableFields(entity);
+  if (fields.length === 0) {
+    return [];
+  }
+
+  const fts = searchTableName(tableName);
+  const columns = fields.join(', ');
+  const newValues = fields.map(field => `new.${field}`).join(', ');
+  const oldValues = fields.map(field => `old.${field}`).join(', ');
+
+  return [
+    `CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(${columns}, content='${tableName}', content_rowid='rowid');`,
+    `CREATE TRIGGER IF NOT EXISTS ${fts}_ai AFTER INSERT ON ${tableName}
+BEGIN
+  INSERT INTO ${fts}(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+END;`,
+    `CREATE TRIGGER IF NOT EXISTS ${fts}_ad AFTER DELETE ON ${tableName}
+BEGIN
+  INSERT INTO ${fts}(${fts}, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+END;`,
+    `CREATE TRIGGER IF NOT EXISTS ${fts}_au AFTER UPDATE ON ${tableName}
+BEGIN
+  INSERT INTO ${fts}(${fts}, rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});
+  INSERT INTO ${fts}(rowid, ${columns}) VALUES (new.rowid, ${newValues});
+END;`,
+  ];
+}
+
+/**
+ * Statements removing the FTS5 table and its triggers
+ */
+export function dropSearchSchema(tableName: string): string[] {
+  const fts = searchTableName(tableName);
+
+  return [
+    `DROP TRIGGER IF EXISTS ${fts}_ai`,
+    `DROP TRIGGER IF EXISTS ${fts}_ad`,
+    `DROP TRIGGER IF EXISTS ${fts}_au`,
+    `DROP TABLE IF EXISTS ${fts}`,
+  ];
+}
+
+/**
+ * Turn free text into an FTS5 MATCH expression. Every word must match and the
+ * last one matches as a prefix, so partially typed queries still find results.
+ * Words are quoted, so FTS5 operators in user input are treated as plain text.
+ */
+export function toMatchExpression(q: string): string {
+  const words = q.split(/\s+/).filter(word => word !== '');
+
+  return words
+    .map((word, index) => {
+      const quoted = `"${word.replace(/"/g, '""')}"`;
+      return index === words.length - 1 ? `${quoted}*` : quoted;
+    })
+    .join(' ');
+}
+
+/**
+ * JOIN restricting an entity table to rows matching `q`. Matching rows gain
+ * `_rank` and `_snippet` columns.
+ */
+export function searchJoin(tableName: string, entity: EntityDefinition, q: string, requestId?: string): SQLClause {
+  if (getSearchableFields(entity).length === 0) {
+    throw new InvalidRequestDataError(
+      'q',
+      q,
+      'Full-text search is not enabled for this entity; list fields in ui.list.searchable',
+      undefined,
+      requestId
+    );
+  }
+
+  const match = toMatchExpression(q);
+  if (match === '') {
+    throw new InvalidRequestDataError('q', q, 'Search text must not be empty', undefined, requestId);
+  }
+
+  const fts = searchTableName(tableName);
+  const snippet = `snippet(${fts}, -1, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', ${SNIPPET_TOKENS})`;
+
+  return {
+    sql: ` JOIN (SELECT rowid AS _rowid, rank AS _rank, ${snippet} AS _snippet FROM ${fts} WHERE ${fts} MATCH ?) AS _search ON _search._rowid = ${tableName}.rowid`,
+    params: [match],
+  };
+}
@@ -0,0 +1,24 @@
+// Trash for entities declared with `softDelete: true`
+//
+// Deleting such a record only stamps its `deleted_at` column. Every read skips
+// stamped rows; they are listed at `GET /{entity}s/_trash`, brought back with
+// `POST /{entity}s/:id/restore` and removed for good by `DELETE /{entity}s/:id/purge`.
+
+import { EntityDefinition } from '../types/index.ts';
+
+export const DELETED_AT_COLUMN = 'deleted_at';
+
+export function isSoftDelete(entity: EntityDefinition | undefined): boolean {
+  return entity?.softDelete === true;
+}
+
+/**
+ * Condition keeping trashed rows out of a query, to append after a WHERE
+ * clause. Empty for entities without soft delete.
+ */
+export function liveRecordFilter(entity: EntityDefinition | undefined, tableAlias?: string): string {
+  if (!isSoftDelete(entity)) return '';
+
+  const column = tableAlias ? `${tableAlias}.${DELETED_AT_COLUMN}` : DELETED_AT_COLUMN;
+  return ` AND ${column} IS NULL`;
+}
@@ -0,0 +1,64 @@
+// Compiles parsed filter conditions into parameterized SQLite predicates
+
+import { FilterCondition, SQLClause } from './types.ts';
+
+export class SQLFilterCompiler {
+  /**
+   * Compile conditions into a WHERE clause body (without the WHERE keyword).
+   * Returns an empty clause when there is nothing to filter on.
+   */
+  compile(conditions: FilterCondition[]): SQLClause {
+    const predicates: string[] = [];
+    const params: unknown[] = [];
+
+    for (const condition of conditions) {
+      const predicate = this.compileCondition(condition);
+      predicates.push(predicate.sql);
+      params.push(...predicate.params);
+    }
+
+    return {
+      sql: predicates.join(' AND '),
+      params,
+    };
+  }
+
+  private compileCondition(condition: FilterCondition): SQLClause {
+    const column = condition.column;
+    const value = condition.value;
+
+    switch (condition.operator) {
+      case 'eq':
+        return { sql: `${column} = ?`, params: [value] };
+      case 'ne':
+        return { sql: `(${column} IS NULL OR ${column} != ?)`, params: [value] };
+      case 'gt':
+        return { sql: `${column} > ?`, params: [value] };
+      case 'gte':
+        return { sql: `${column} >= ?`, params: [value] };
+      case 'lt':
+        return { sql: `${column} < ?`, params: [value] };
+      case 'lte':
+        return { sql: `${column} <= ?`, params: [value] };
+      case 'in':
+        return { sql: `${column} IN (${(value as unknown[]).map(() => '?').join(', ')})`, params: value as unknown[] };
+      case 'nin':
+        return {
+          sql: `(${column} IS NULL OR ${column} NOT IN (${(value as unknown[]).map(() => '?').join(', ')}))`,
+          params: value as unknown[],
+        };
+      case 'contains':
+        return { sql: `${column} LIKE ? ESCAPE '\\'`, params: [`%${this.escapeLike(String(value))}%`] };
+      case 'startsWith':
+        return { sql: `${column} LIKE ? ESCAPE '\\'`, params: [`${this.escapeLike(String(value))}%`] };
+      case 'endsWith':
+        return { sql: `${column} LIKE ? ESCAPE '\\'`, params: [`%${this.escapeLike(String(value))}`] };
+      case 'null':
+        return { sql: `${column} IS ${value ? '' : 'NOT '}NULL`, params: [] };
+    }
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+  }
+}
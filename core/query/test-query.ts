@@ -0,0 +1,568 @@
+// Simple test file for the list query language
+import { FilterParser } from './filter-parser.ts';
+import { SQLFilterCompiler } from './sql-compiler.ts';
+import { SortParser } from './sort-parser.ts';
+import { CursorCodec } from './cursor.ts';
+import { getSearchableFields, RANK_SORT, toMatchExpression } from './search.ts';
+import { IncludeParser } from './include.ts';
+import { splitManyRelations } from './relations.ts';
+import { getForeignKeys } from './references.ts';
+import { parseBulkRequest } from './bulk.ts';
+import { applyJsonPatch, applyMergePatch } from './patch.ts';
+import { getETag, matchesIfMatch } from './concurrency.ts';
+import { ListQueryBuilder, readPermittedPage } from './list-query.ts';
+import { AggregateQueryBuilder } from './aggregate.ts';
+import { FieldAccessPolicy } from './field-access.ts';
+import { assertBehaviorAllowed, behaviorAssignments } from './behavior.ts';
+import { ComputedFields } from './computed.ts';
+import { getQueryableRollups } from './rollup.ts';
+import { CSVParser, formatCSVRow } from './csv.ts';
+import { diffRecords } from './audit.ts';
+import { generateVersionSchema, parseVersionNumber } from './versions.ts';
+import { parseLastEventId } from './changes.ts';
+import { AppDefinition, BehaviorDefinition, EntityDefinition } from '../types/index.ts';
+import { QueryExecutor } from './types.ts';
+
+async function testQueryLanguage() {
+  const parser = new FilterParser();
+  const compiler = new SQLFilterCompiler();
+  const sortParser = new SortParser();
+  const cursorCodec = new CursorCodec();
+
+  console.log('🧪 Testing list query language...\n');
+
+  const task: EntityDefinition = {
+    fields: {
+      title: { type: 'string', required: true },
+      status: { type: 'enum', options: ['todo', 'in-progress', 'done'] },
+      priority: { type: 'enum', options: ['low', 'medium', 'high'] },
+      estimate: { type: 'integer' },
+      dueDate: { type: 'date' },
+      archived: { type: 'boolean' },
+      assignedTo: { type: 'relation', to: 'Person' },
+    },
+    ui: {
+      display: { primary: 'title' },
+      list: { columns: ['title'], searchable: ['title', 'estimate', 'missing'] },
+    },
+  };
+
+  // Valid filters and the SQL they should compile to
+  const tests: Array<{ query: Record<string, string[]>; sql: string; params: unknown[] }> = [
+    { query: { status: ['todo'] }, sql: 'status = ?', params: ['todo'] },
+    { query: { status: ['todo', 'done'] }, sql: 'status IN (?, ?)', params: ['todo', 'done'] },
+    { query: { 'priority[in]': ['high,medium'] }, sql: 'priority IN (?, ?)', params: ['high', 'medium'] },
+    { query: { 'dueDate[lt]': ['2025-01-01'] }, sql: 'dueDate < ?', params: ['2025-01-01'] },
+    { query: { 'title[contains]': ['50%'] }, sql: "title LIKE ? ESCAPE '\\'", params: ['%50\\%%'] },
+    { query: { 'estimate[gte]': ['3'] }, sql: 'estimate >= ?', params: [3] },
+    { query: { archived: ['false'] }, sql: 'archived = ?', params: [0] },
+    { query: { 'assignedTo[null]': ['true'] }, sql: 'assignedTo IS NULL', params: [] },
+    { query: { limit: ['10'], offset: ['0'] }, sql: '', params: [] },
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      const clause = compiler.compile(parser.parse(test.query, task));
+      if (clause.sql === test.sql && JSON.stringify(clause.params) === JSON.stringify(test.params)) {
+        console.log(`✅ PASS: ${JSON.stringify(test.query)} => ${clause.sql}`);
+        passed++;
+      } else {
+        console.log(`❌ FAIL: ${JSON.stringify(test.query)}`);
+        console.log(`   Expected: ${test.sql} ${JSON.stringify(test.params)}`);
+        console.log(`   Got: ${clause.sql} ${JSON.stringify(clause.params)}`);
+        failed++;
+      }
+    } catch (error) {
+      console.log(`❌ ERROR: ${JSON.stringify(test.query)} - ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  // Invalid filters must be rejected
+  const invalidTests: Array<{ query: Record<string, string[]>; reason: string }> = [
+    { query: { unknown: ['x'] }, reason: 'unknown field' },
+    { query: { 'title[gt]': ['a'] }, reason: 'operator not valid for strings' },
+    { query: { 'status[contains]': ['to'] }, reason: 'operator not valid for enums' },
+    { query: { status: ['blocked'] }, reason: 'value not in enum options' },
+    { query: { 'estimate[lt]': ['abc'] }, reason: 'non-numeric value' },
+    { query: { 'dueDate[gt]': ['yesterday'] }, reason: 'invalid date' },
+    { query: { 'status[bogus]': ['todo'] }, reason: 'unknown operator' },
+  ];
+
+  for (const test of invalidTests) {
+    try {
+      parser.parse(test.query, task);
+      console.log(`❌ FAIL: ${JSON.stringify(test.query)} should be rejected (${test.reason})`);
+      failed++;
+    } catch (error) {
+      console.log(`✅ PASS: rejected ${JSON.stringify(test.query)} - ${error instanceof Error ? error.message : error}`);
+      passed++;
+    }
+  }
+
+  // Sorting
+  const sortTests = [
+    { sort: undefined, sql: 'created_at DESC, id DESC' },
+    { sort: 'title,-estimate', sql: 'title ASC, estimate DESC, id DESC' },
+    { sort: '-priority', sql: "(CASE WHEN priority IS NULL THEN NULL WHEN priority = 'low' THEN 0 WHEN priority = 'medium' THEN 1 WHEN priority = 'high' THEN 2 ELSE 3 END) DESC, id DESC" },
+  ];
+
+  for (const test of sortTests) {
+    const sql = sortParser.toSQL(sortParser.parse(test.sort, task));
+    if (sql === test.sql) {
+      console.log(`✅ PASS: sort=${test.sort} => ${sql}`);
+      passed++;
+    } else {
+      console.log(`❌ FAIL: sort=${test.sort}`);
+      console.log(`   Expected: ${test.sql}`);
+      console.log(`   Got: ${sql}`);
+      failed++;
+    }
+  }
+
+  // Cursors round-trip and are tied to the sort they were issued for
+  const sort = sortParser.parse('-estimate', task);
+  const cursor = cursorCodec.encode(sort, { id: 'abc', estimate: 5 });
+  const decoded = cursorCodec.decode(cursor, sort);
+  const predicate = cursorCodec.toPredicate(sort, decoded);
+  if (predicate.sql === '(((estimate < ? OR estimate IS NULL)) OR (estimate = ? AND (id < ? OR id IS NULL)))') {
+    console.log(`✅ PASS: cursor => ${predicate.sql} ${JSON.stringify(predicate.params)}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: cursor predicate ${predicate.sql}`);
+    failed++;
+  }
+
+  try {
+    cursorCodec.decode(cursor, sortParser.parse('title', task));
+    console.log('❌ FAIL: cursor accepted for a different sort');
+    failed++;
+  } catch {
+    console.log('✅ PASS: cursor rejected for a different sort');
+    passed++;
+  }
+
+  // Search text becomes a quoted FTS5 expression with a prefix match on the last word
+  const matchTests = [
+    { q: 'quarterly rep', match: '"quarterly" "rep"*' },
+    { q: 'say "hi" OR NEAR(', match: '"say" """hi""" "OR" "NEAR("*' },
+    { q: '   ', match: '' },
+  ];
+
+  for (const test of matchTests) {
+    const match = toMatchExpression(test.q);
+    if (match === test.match) {
+      console.log(`✅ PASS: q=${test.q} => ${match}`);
+      passed++;
+    } else {
+      console.log(`❌ FAIL: q=${test.q}`);
+      console.log(`   Expected: ${test.match}`);
+      console.log(`   Got: ${match}`);
+      failed++;
+    }
+  }
+
+  const searchable = getSearchableFields(task);
+  if (JSON.stringify(searchable) === JSON.stringify(['title'])) {
+    console.log('✅ PASS: only declared text fields are searchable');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: searchable fields ${JSON.stringify(searchable)}`);
+    failed++;
+  }
+
+  const rankSql = sortParser.toSQL(sortParser.parse(undefined, task, undefined, [RANK_SORT]));
+  if (rankSql === '_rank ASC, id ASC') {
+    console.log(`✅ PASS: search results default to relevance order => ${rankSql}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: relevance order ${rankSql}`);
+    failed++;
+  }
+
+  // Includes merge shared path prefixes and only follow relation fields
+  const includeParser = new IncludeParser({
+    name: 'Test',
+    entities: {
+      Task: task,
+      Person: { fields: { name: { type: 'string' }, manager: { type: 'relation', to: 'Person' } } },
+    },
+  });
+
+  const includes = includeParser.parse('assignedTo, assignedTo.manager', 'Task');
+  if (includes.length === 1 && includes[0].entity === 'Person' && includes[0].children[0]?.field === 'manager') {
+    console.log('✅ PASS: include=assignedTo,assignedTo.manager => one nested tree');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: include tree ${JSON.stringify(includes)}`);
+    failed++;
+  }
+
+  for (const include of ['title', 'assignedTo.unknown']) {
+    try {
+      includeParser.parse(include, 'Task');
+      console.log(`❌ FAIL: include=${include} should be rejected`);
+      failed++;
+    } catch (error) {
+      console.log(`✅ PASS: rejected include=${include} - ${error instanceof Error ? error.message : error}`);
+      passed++;
+    }
+  }
+
+  // Many relations are written to join tables, not columns
+  const split = splitManyRelations(
+    { fields: { title: { type: 'string' }, tags: { type: 'relation', to: 'Tag', many: true } } },
+    { title: 'Ship it', tags: ['t1', 't2'] }
+  );
+  if (JSON.stringify(split) === JSON.stringify({ columns: { title: 'Ship it' }, links: { tags: ['t1', 't2'] } })) {
+    console.log('✅ PASS: many relation values split from columns');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: split ${JSON.stringify(split)}`);
+    failed++;
+  }
+
+  // Single relations become foreign keys; required ones restrict deletes by default
+  const ticket: EntityDefinition = {
+    fields: {
+      owner: { type: 'relation', to: 'Person', required: true },
+      reviewer: { type: 'relation', to: 'Person' },
+      parent: { type: 'relation', to: 'Ticket', onDelete: 'cascade' },
+      watchers: { type: 'relation', to: 'Person', many: true },
+      external: { type: 'relation', to: 'User' },
+    },
+  };
+  const foreignKeys = getForeignKeys(
+    { name: 'Test', entities: { Ticket: ticket, Person: { fields: { name: { type: 'string' } } } } },
+    ticket
+  ).map(key => `${key.field}:${key.action}`);
+  if (JSON.stringify(foreignKeys) === JSON.stringify(['owner:RESTRICT', 'reviewer:SET NULL', 'parent:CASCADE'])) {
+    console.log(`✅ PASS: foreign keys => ${foreignKeys.join(', ')}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: foreign keys ${JSON.stringify(foreignKeys)}`);
+    failed++;
+  }
+
+  // Bulk requests default to atomic and need ids for updates and deletes
+  const bulk = parseBulkRequest({ operations: [{ op: 'create', data: { title: 'A' } }, { op: 'delete', id: 7 }] });
+  if (bulk.atomic && bulk.operations[1].id === '7') {
+    console.log('✅ PASS: bulk request parsed as atomic');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: bulk request ${JSON.stringify(bulk)}`);
+    failed++;
+  }
+
+  for (const body of [{ operations: [{ op: 'update', data: {} }] }, { operations: [{ op: 'create' }] }, { atomic: 'yes', operations: [] }]) {
+    try {
+      parseBulkRequest(body);
+      console.log(`❌ FAIL: bulk request ${JSON.stringify(body)} should be rejected`);
+      failed++;
+    } catch (error) {
+      console.log(`✅ PASS: rejected bulk request - ${error instanceof Error ? error.message : error}`);
+      passed++;
+    }
+  }
+
+  // Merge patches clear top-level fields with null; JSON Patch applies operations in order
+  const merged = applyMergePatch({ title: 'A', meta: { x: 1, y: 2 } }, { title: null, meta: { y: null, z: 3 } });
+  const patched = applyJsonPatch({ tags: ['a'], meta: { n: 1 } }, [
+    { op: 'add', path: '/tags/-', value: 'b' },
+    { op: 'move', from: '/meta/n', path: '/count' },
+    { op: 'test', path: '/count', value: 1 },
+  ]);
+  if (JSON.stringify(merged) === JSON.stringify({ title: null, meta: { x: 1, z: 3 } }) &&
+      JSON.stringify(patched) === JSON.stringify({ tags: ['a', 'b'], meta: {}, count: 1 })) {
+    console.log('✅ PASS: merge patch and JSON Patch applied');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: patched ${JSON.stringify(merged)} ${JSON.stringify(patched)}`);
+    failed++;
+  }
+
+  for (const operations of [[{ op: 'test', path: '/title', value: 'B' }], [{ op: 'remove', path: '/missing' }], { op: 'add' }]) {
+    try {
+      applyJsonPatch({ title: 'A' }, operations);
+      console.log(`❌ FAIL: JSON Patch ${JSON.stringify(operations)} should be rejected`);
+      failed++;
+    } catch (error) {
+      console.log(`✅ PASS: rejected JSON Patch - ${error instanceof Error ? error.message : error}`);
+      passed++;
+    }
+  }
+
+  // If-Match passes for the current version, any listed tag or *, and fails for stale tags
+  const stored = { id: 't1', version: 3 };
+  const ifMatchResults = [undefined, '*', '"3"', '"2", W/"3"', '"2"'].map(header => matchesIfMatch(header, stored));
+  if (getETag(stored) === '"3"' && JSON.stringify(ifMatchResults) === JSON.stringify([true, true, true, true, false])) {
+    console.log('✅ PASS: If-Match compared with the record version');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: If-Match ${getETag(stored)} ${JSON.stringify(ifMatchResults)}`);
+    failed++;
+  }
+
+  // Soft-delete entities list live rows, or only trashed ones newest-deleted first
+  const trashBuilder = new ListQueryBuilder('task', { ...task, softDelete: true });
+  const liveSQL = trashBuilder.build({ status: ['todo'] }).select.sql;
+  const trashSQL = trashBuilder.build({}, { trash: true }).select.sql;
+  if (liveSQL.includes('WHERE (task.deleted_at IS NULL) AND (status = ?)') &&
+      trashSQL.includes('WHERE (task.deleted_at IS NOT NULL) ORDER BY deleted_at DESC') &&
+      !new ListQueryBuilder('task', task).build({}).select.sql.includes('deleted_at')) {
+    console.log('✅ PASS: soft-deleted rows kept out of lists and shown in the trash');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: soft delete lists ${liveSQL} | ${trashSQL}`);
+    failed++;
+  }
+
+  // Read rules checked per record read rows in batches only until the page is full
+  const scanRows = Array.from({ length: 2000 }, (_, index) => ({ id: String(index) }));
+  const batches: unknown[][] = [];
+  const scanDb: QueryExecutor = {
+    execute: <Row>(_sql: string, params: unknown[] = []) => {
+      batches.push(params);
+      const [limit, offset] = params.slice(-2) as number[];
+      return Promise.resolve({ rows: scanRows.slice(offset, offset + limit) as Row[] });
+    },
+  };
+  const scanQuery = new ListQueryBuilder('task', task).build({ limit: ['2'], offset: ['1'] });
+  const scanPage = await readPermittedPage(scanDb, scanQuery, (record) => Number(record.id) % 300 === 0);
+  const scanned = new ListQueryBuilder('task', task).paginate(scanQuery, scanPage, null);
+  if (JSON.stringify(scanned.items.map(item => item.id)) === '["300","600"]' && scanned.pagination.hasMore &&
+      scanned.pagination.total === null && batches.length === 2) {
+    console.log('✅ PASS: per-record read rules fill pages from batches');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: per-record page ${JSON.stringify(scanned)} after ${batches.length} batches`);
+    failed++;
+  }
+
+  // Secrets and hidden fields stay out of responses; hidden ones cannot be written either
+  const account: EntityDefinition = {
+    fields: {
+      email: { type: 'string' },
+      password: { type: 'string' },
+      apiToken: { type: 'string', writeOnly: false },
+      internalScore: { type: 'integer', hidden: true },
+      clientSecret: { type: 'string' },
+      secretNote: { type: 'string' },
+      tokenCount: { type: 'integer' },
+    },
+  };
+  const access = new FieldAccessPolicy(account);
+  const redacted = access.redact({ id: 'a1', email: 'a@b.c', password: 'x', apiToken: 't', internalScore: 7, clientSecret: 's', secretNote: 'n', tokenCount: 2 });
+  const input = access.restrictInput({ email: 'a@b.c', password: 'y', internalScore: 9 }, null);
+  const replaced = access.withProtectedValues({ email: 'd@e.f' }, { email: 'a@b.c', password: 'x', apiToken: 't', internalScore: 7 });
+  if (JSON.stringify(redacted) === JSON.stringify({ id: 'a1', email: 'a@b.c', apiToken: 't', secretNote: 'n', tokenCount: 2 }) &&
+      JSON.stringify(input) === JSON.stringify({ email: 'a@b.c', password: 'y' }) &&
+      replaced.password === 'x' && replaced.internalScore === 7 && replaced.apiToken === undefined) {
+    console.log('✅ PASS: field access redacts secrets and keeps protected values');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: field access ${JSON.stringify({ redacted, input, replaced })}`);
+    failed++;
+  }
+
+  try {
+    new ListQueryBuilder('account', account).build({ password: ['x'] });
+    console.log('❌ FAIL: filtering on a write-only field should be rejected');
+    failed++;
+  } catch {
+    console.log('✅ PASS: write-only fields cannot be filtered on');
+    passed++;
+  }
+
+  // Behaviors set fields from their input and refuse to run when the guard fails
+  const reassign: BehaviorDefinition = {
+    type: 'update',
+    guard: 'entity.status != "done"',
+    fields: { assignedTo: { expr: 'input.personId' }, urgent: { expr: 'input.urgent' }, status: 'todo' },
+  };
+  const assigned = behaviorAssignments('reassign', reassign, { entity: { id: 't1' }, input: { personId: 'p1', urgent: true }, user: null });
+  let guardCode: string | undefined;
+  try {
+    assertBehaviorAllowed('Task', 'reassign', reassign, { entity: { id: 't1', status: 'done' }, input: {}, user: null });
+  } catch (error) {
+    guardCode = (error as { code?: string }).code;
+  }
+  if (JSON.stringify(assigned) === JSON.stringify({ assignedTo: 'p1', urgent: 1, status: 'todo' }) && guardCode === 'E3010') {
+    console.log('✅ PASS: behavior assignments from input and guard enforcement');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: behavior ${JSON.stringify(assigned)} guard ${guardCode}`);
+    failed++;
+  }
+
+  // Computed fields are evaluated on read and can be filtered and sorted on when they compile to SQL
+  const withComputed: EntityDefinition = {
+    ...task,
+    computed: { isOverdue: 'dueDate < now() && status != "done"', hasManager: 'assignedTo.manager != null' },
+  };
+  const rows: Record<string, unknown>[] = [{ id: 't1', dueDate: '2000-01-01', status: 'todo' }, { id: 't2', dueDate: '2000-01-01', status: 'done' }];
+  new ComputedFields(withComputed).attach(rows);
+  const computedSQL = new ListQueryBuilder('task', withComputed).build({ isOverdue: ['true'], sort: ['-isOverdue'] }).select.sql;
+  let uncompiledRejected = false;
+  try {
+    new ListQueryBuilder('task', withComputed).build({ hasManager: ['true'] });
+  } catch {
+    uncompiledRejected = true;
+  }
+  if (rows[0].isOverdue === true && rows[1].isOverdue === false && uncompiledRejected &&
+      /WHERE \(+COALESCE\(dueDate < '[^']+', 0\)\) AND \(status IS NOT 'done'\)+ = \?\)/.test(computedSQL) &&
+      computedSQL.includes(') AS isOverdue FROM task') && computedSQL.includes("(status IS NOT 'done'))) DESC, id DESC")) {
+    console.log('✅ PASS: computed fields evaluated on read and compiled for filters and sorting');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: computed fields ${JSON.stringify(rows)} ${computedSQL} rejected=${uncompiledRejected}`);
+    failed++;
+  }
+
+  // Rollups aggregate related records in a subquery selected, filtered and sorted like a column
+  const rollupApp: AppDefinition = {
+    name: 'Rollups',
+    entities: {
+      Task: task,
+      Person: {
+        fields: { name: { type: 'string' } },
+        rollups: {
+          openTasks: { from: 'Task', via: 'assignedTo', aggregate: 'count', where: 'status != "done"' },
+          totalEstimate: { from: 'Task', via: 'assignedTo', aggregate: 'sum', field: 'estimate' },
+          unresolved: { from: 'Task', via: 'assignedTo', aggregate: 'count', where: 'assignedTo.manager != null' },
+        },
+      },
+    },
+  };
+  const rollups = getQueryableRollups(rollupApp, 'Person');
+  const rollupSQL = new ListQueryBuilder('person', rollupApp.entities.Person)
+    .build({ 'openTasks[gt]': ['0'], sort: ['-totalEstimate'] }, { rollups }).select.sql;
+  const openTasksSQL = "(SELECT COUNT(*) FROM task AS _rollup WHERE _rollup.assignedTo = person.id AND (_rollup.status IS NOT 'done'))";
+  if (rollups.openTasks?.sql === openTasksSQL && !rollups.unresolved &&
+      rollups.totalEstimate?.sql.startsWith('(SELECT COALESCE(SUM(_rollup.estimate), 0) FROM task') &&
+      rollupSQL.startsWith(`SELECT person.*, ${openTasksSQL} AS openTasks, `) &&
+      rollupSQL.includes(`WHERE (${openTasksSQL} > ?)`) && rollupSQL.includes('0) FROM task AS _rollup WHERE _rollup.assignedTo = person.id) DESC, id DESC')) {
+    console.log('✅ PASS: rollups compiled to subqueries for columns, filters and sorting');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: rollups ${JSON.stringify(rollups)} ${rollupSQL}`);
+    failed++;
+  }
+
+  // Aggregates group by fields or date buckets and reject what cannot be grouped or aggregated
+  const aggregateBuilder = new AggregateQueryBuilder('task', task);
+  const aggregate = aggregateBuilder.build({ groupBy: ['dueDate:week,priority'], metrics: ['count,avg:estimate'], status: ['todo'] });
+  const formatted = aggregateBuilder.format(aggregate, [{ _group0: '2024-01-01', _group1: 'high', _metric0: 2, _metric1: null }]);
+  const aggregateRejected = ([
+    { groupBy: ['title:week'] },
+    { groupBy: ['dueDate:hour'] },
+    { metrics: ['sum:title'] },
+    { metrics: ['median:estimate'] },
+  ] as Record<string, string[]>[]).filter(query => {
+    try {
+      aggregateBuilder.build(query);
+      return false;
+    } catch {
+      return true;
+    }
+  }).length;
+  if (aggregate.select.sql.startsWith("SELECT date(dueDate, 'weekday 0', '-6 days') AS _group0, priority AS _group1, COUNT(*) AS _metric0, AVG(estimate) AS _metric1 FROM task WHERE (status = ?)") &&
+      aggregate.select.sql.includes(' GROUP BY _group0, _group1 ORDER BY _group0 ASC, (CASE WHEN _group1 IS NULL') &&
+      JSON.stringify(aggregate.select.params) === '["todo"]' && aggregateRejected === 4 &&
+      JSON.stringify(formatted) === JSON.stringify([{ key: { dueDate: '2024-01-01', priority: 'high' }, metrics: { count: 2, 'avg:estimate': null } }])) {
+    console.log('✅ PASS: aggregate queries with date buckets and metric validation');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: aggregate ${aggregate.select.sql} ${JSON.stringify(formatted)} rejected=${aggregateRejected}`);
+    failed++;
+  }
+
+  // CSV round-trips quotes, commas and line breaks, even when chunks split them
+  const csvText = formatCSVRow(['id', 'title', 'tags']) + formatCSVRow(['t1', 'Say "hi", then\nleave', ['a', 'b']]) + formatCSVRow([null, '', 3]);
+  const csvParser = new CSVParser();
+  const csvRows = [...csvText].flatMap(char => csvParser.push(char)).concat(csvParser.finish());
+  const unterminated = new CSVParser();
+  unterminated.push('a,"b');
+  let unterminatedRejected = false;
+  try {
+    unterminated.finish();
+  } catch {
+    unterminatedRejected = true;
+  }
+  if (JSON.stringify(csvRows) === JSON.stringify([['id', 'title', 'tags'], ['t1', 'Say "hi", then\nleave', '["a","b"]'], ['', '', '3']]) &&
+      csvText.includes('"Say ""hi"", then\nleave"') && unterminatedRejected) {
+    console.log('✅ PASS: CSV formatting and chunked parsing');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: CSV ${JSON.stringify(csvRows)} ${JSON.stringify(csvText)}`);
+    failed++;
+  }
+
+  // Audit diffs leave out hidden fields and ignore the order of many relation ids
+  const audited: EntityDefinition = {
+    fields: {
+      title: { type: 'string' },
+      token: { type: 'string', hidden: true },
+      tags: { type: 'relation', to: 'Tag', many: true },
+    },
+    audit: true,
+  };
+  const auditDiff = diffRecords(audited, { title: 'A', token: 'x', tags: ['t1', 't2'] }, { title: 'B', token: 'y', tags: ['t2', 't1'] });
+  const createDiff = diffRecords(audited, null, { title: 'A', tags: [] });
+  const restoreDiff = diffRecords({ ...audited, softDelete: true }, { title: 'A', deleted_at: '2024-01-01' }, { title: 'A', deleted_at: null });
+  if (JSON.stringify(auditDiff) === '{"title":{"old":"A","new":"B"}}' &&
+      JSON.stringify(createDiff) === '{"title":{"old":null,"new":"A"}}' &&
+      JSON.stringify(restoreDiff) === '{"deleted_at":{"old":"2024-01-01","new":null}}') {
+    console.log('✅ PASS: audit diffs');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: audit diffs ${JSON.stringify(auditDiff)} ${JSON.stringify(createDiff)} ${JSON.stringify(restoreDiff)}`);
+    failed++;
+  }
+
+  // Versions tables exist only for versioned entities, and version numbers start at 1
+  const versionSchema = generateVersionSchema('task', { ...audited, versioned: true });
+  const versionRejected = ['0', '1.5', 'x', ''].filter(value => {
+    try {
+      parseVersionNumber('version', value);
+      return false;
+    } catch {
+      return true;
+    }
+  }).length;
+  if (versionSchema.length === 1 && versionSchema[0].startsWith('CREATE TABLE IF NOT EXISTS task_versions (') &&
+      generateVersionSchema('task', audited).length === 0 && parseVersionNumber('version', '3') === 3 && versionRejected === 4) {
+    console.log('✅ PASS: version schema and numbers');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: versions ${JSON.stringify(versionSchema)} rejected=${versionRejected}`);
+    failed++;
+  }
+
+  // A stream without Last-Event-ID starts fresh; ids are whole numbers from 0
+  const eventIdRejected = ['-1', '2.5', 'abc'].filter(value => {
+    try {
+      parseLastEventId(value);
+      return false;
+    } catch {
+      return true;
+    }
+  }).length;
+  if (parseLastEventId(undefined) === null && parseLastEventId('') === null && parseLastEventId('42') === 42 && eventIdRejected === 3) {
+    console.log('✅ PASS: Last-Event-ID parsing');
+    passed++;
+  } else {
+    console.log(`❌ FAIL: Last-Event-ID rejected=${eventIdRejected}`);
+    failed++;
+  }
+
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed`);
+}
+
+// Run tests if this file is executed directly
+if (import.meta.main) {
+  testQueryLanguage();
+}
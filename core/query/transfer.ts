@@ -0,0 +1,481 @@
+// Spreadsheet and bulk-load transfer: `GET /{entity}s/_export` and `POST /{entity}s/_import`
+//
+// Exports take the list filter syntax and `q` and stream every matching record
+// as CSV, NDJSON or a JSON array. Imports read the same formats, one record at
+// a time, inside a single transaction with a savepoint per row: rows that fail
+// are reported and skipped, `dryRun` rolls everything back once the report is
+// complete, and `upsert=<field>` updates the live record with the same value
+// of a unique field instead of creating a new one.
+
+import { AppDefinition, EntityDefinition, EventData, FieldDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { CSVParser, formatCSVRow } from './csv.ts';
+import { BulkItemError, changeEvent, describeItemError } from './bulk.ts';
+import { ListQueryBuilder, ListQueryOptions } from './list-query.ts';
+import { getComputedFields } from './computed.ts';
+import { getQueryableRollups } from './rollup.ts';
+import { isHiddenField, isWriteOnlyField } from './field-access.ts';
+import { isManyRelation } from './relations.ts';
+import { QueryExecutor } from './types.ts';
+
+export const TRANSFER_FORMATS = ['csv', 'ndjson', 'json'] as const;
+
+export type TransferFormat = typeof TRANSFER_FORMATS[number];
+
+export const TRANSFER_CONTENT_TYPES: Record<TransferFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+};
+
+// Rows accepted in one import; larger files are rejected as a whole
+export const MAX_IMPORT_ROWS = 10000;
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// Exports cover every match, so paging parameters do not apply
+const IGNORED_EXPORT_PARAMS = ['limit', 'offset', 'after', 'include', 'format'];
+
+// Lets spreadsheet programs detect UTF-8; stripped again on import
+const BYTE_ORDER_MARK = '\uFEFF';
+
+export interface ImportOptions {
+  dryRun: boolean;
+  upsert?: string;  // Unique field matching rows to existing records
+}
+
+// A parsed input row, or why it could not be read
+export interface ImportRow {
+  row: number;  // 1-based, counting records rather than lines; CSV headers and blank lines are skipped
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ImportRowError extends BulkItemError {
+  row: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  summary: { total: number; created: number; updated: number; failed: number };
+  errors: ImportRowError[];
+}
+
+// What an import answers with, and the records it wrote
+export interface ImportOutcome {
+  report: ImportReport;
+  changes: ImportChange[];
+}
+
+// Records written by an import, for change events once it has committed
+export interface ImportChange {
+  op: 'create' | 'update';
+  record: Record<string, unknown>;
+}
+
+// Writes one row against the transaction; create and update return the stored record
+export interface ImportHandlers<Tx extends QueryExecutor> {
+  find(tx: Tx, field: string, value: unknown): Promise<Record<string, unknown> | null>;
+  create(tx: Tx, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+  update(tx: Tx, existing: Record<string, unknown>, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+}
+
+interface TransactionalExecutor<Tx extends QueryExecutor> {
+  transaction<T>(fn: (tx: Tx) => Promise<T>): Promise<T>;
+}
+
+// Marks a CSV cell that does not convert to its field's type
+const INVALID_CELL = Symbol('invalid cell');
+
+// Thrown inside the transaction to undo a dry run
+class DryRunRollback extends Error {}
+
+/**
+ * `format` query parameter of an export; CSV when there is none
+ */
+export function parseExportFormat(value: string | undefined, requestId?: string): TransferFormat {
+  return checkFormat(value === undefined || value === '' ? 'csv' : value, requestId);
+}
+
+/**
+ * Format of an import body: the `format` query parameter, or else the
+ * request's Content-Type
+ */
+export function parseImportFormat(value: string | undefined, contentType: string | undefined, requestId?: string): TransferFormat {
+  if (value !== undefined && value !== '') return checkFormat(value, requestId);
+
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mediaType === 'text/csv') return 'csv';
+  if (mediaType === 'application/x-ndjson' || mediaType === 'application/ndjson') return 'ndjson';
+  if (mediaType === 'application/json') return 'json';
+
+  throw new InvalidRequestDataError(
+    'Content-Type',
+    contentType,
+    'Send text/csv, application/x-ndjson or application/json, or pass ?format=',
+    undefined,
+    requestId
+  );
+}
+
+/**
+ * `dryRun` and `upsert` query parameters of an import. Rows can be matched on
+ * `id` or on any field declared unique.
+ */
+export function parseImportOptions(
+  query: Record<string, string | undefined>,
+  entity: EntityDefinition,
+  requestId?: string
+): ImportOptions {
+  const { dryRun, upsert } = query;
+
+  if (dryRun !== undefined && dryRun !== '' && dryRun !== 'true' && dryRun !== 'false') {
+    throw new InvalidRequestDataError('dryRun', dryRun, 'Must be true or false', undefined, requestId);
+  }
+
+  if (upsert !== undefined && upsert !== 'id') {
+    const field = Object.hasOwn(entity.fields, upsert) ? entity.fields[upsert] : undefined;
+    if (!field || field.unique !== true || isHiddenField(field) || isManyRelation(field)) {
+      const unique = Object.entries(entity.fields).filter(([, candidate]) => candidate.unique === true && !isHiddenField(candidate));
+      throw new InvalidRequestDataError(
+        'upsert',
+        upsert,
+        `Upsert needs id or a unique field. Unique fields: ${unique.map(([name]) => name).join(', ') || 'none'}`,
+        undefined,
+        requestId
+      );
+    }
+  }
+
+  return {
+    dryRun: dryRun === '' || dryRun === 'true',
+    ...(upsert !== undefined && { upsert }),
+  };
+}
+
+/**
+ * CSV header for an entity: the id, every field responses may include, then
+ * computed and rollup values and the timestamps
+ */
+export function exportColumns(app: AppDefinition, entityName: string): string[] {
+  const entity = app.entities[entityName];
+  const fields = Object.entries(entity.fields)
+    .filter(([fieldName]) => !['id', 'created_at', 'updated_at'].includes(fieldName))
+    .filter(([fieldName, field]) => !isHiddenField(field) && !isWriteOnlyField(fieldName, field))
+    .map(([fieldName]) => fieldName);
+
+  return [
+    'id',
+    ...fields,
+    ...getComputedFields(entity).map(([name]) => name),
+    ...Object.keys(getQueryableRollups(app, entityName)),
+    'created_at',
+    'updated_at',
+  ];
+}
+
+/**
+ * Every record the list query parameters match, a page at a time, ignoring
+ * the client's paging. `prepare` turns stored rows into what is exported.
+ * The first page is read before this resolves, so bad filters and database
+ * errors surface before the response starts.
+ */
+export async function readExportPages(
+  db: QueryExecutor,
+  listQueryBuilder: ListQueryBuilder,
+  query: Record<string, string[]>,
+  options: ListQueryOptions,
+  prepare: (records: Record<string, unknown>[]) => Promise<Record<string, unknown>[]>
+): Promise<AsyncIterable<Record<string, unknown>[]>> {
+  const filters = Object.fromEntries(Object.entries(query).filter(([key]) => !IGNORED_EXPORT_PARAMS.includes(key)));
+
+  const readPage = async (cursor: string | null) => {
+    const listQuery = listQueryBuilder.build(
+      { ...filters, limit: [String(EXPORT_PAGE_SIZE)], ...(cursor && { after: [cursor] }) },
+      options
+    );
+    const result = await db.execute(listQuery.select.sql, listQuery.select.params);
+    const page = listQueryBuilder.paginate(listQuery, result.rows || [], 0);
+    return { records: await prepare(page.items), nextCursor: page.pagination.nextCursor };
+  };
+
+  const first = await readPage(null);
+
+  return (async function* () {
+    let page = first;
+    yield page.records;
+    while (page.nextCursor) {
+      page = await readPage(page.nextCursor);
+      yield page.records;
+    }
+  })();
+}
+
+/**
+ * Response body for an export. CSV cells of fields a record's reader may not
+ * see are left empty; NDJSON and JSON records leave those keys out.
+ */
+export function exportStream(
+  format: TransferFormat,
+  columns: string[],
+  pages: AsyncIterable<Record<string, unknown>[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let first = true;
+        if (format === 'csv') controller.enqueue(encoder.encode(BYTE_ORDER_MARK + formatCSVRow(columns)));
+        if (format === 'json') controller.enqueue(encoder.encode('['));
+        
+        for await (const records of pages) {
+          const text = records.map(record => {
+            if (format === 'csv') return formatCSVRow(columns.map(column => record[column]));
+            if (format === 'ndjson') return JSON.stringify(record) + '\n';
+            const item = (first ? '\n' : ',\n') + JSON.stringify(record);
+            first = false;
+            return item;
+          }).join('');
+          if (text) controller.enqueue(encoder.encode(text));
+        }
+        
+        if (format === 'json') controller.enqueue(encoder.encode(first ? ']' : '\n]'));
+        controller.close();
+      } catch (error) {
+        // Headers are already sent, so the client sees a truncated download
+        console.error('Export failed part way through:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * Rows of an import body, read as they arrive. CSV headers name the fields;
+ * cells are converted to the field's type and empty cells are left out, so
+ * upserts keep their stored values. JSON bodies are an array of objects.
+ */
+export async function* readImportRows(
+  body: ReadableStream<Uint8Array> | null,
+  format: TransferFormat,
+  entity: EntityDefinition,
+  requestId?: string
+): AsyncGenerator<ImportRow> {
+  if (!body) return;
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stripByteOrderMark(await new Response(body).text()));
+    } catch (error) {
+      throw new InvalidRequestDataError('body', undefined, `Invalid JSON: ${(error as Error).message}`, undefined, requestId);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new InvalidRequestDataError('body', typeof parsed, 'Expected a JSON array of records', undefined, requestId);
+    }
+    
+    for (const [index, item] of parsed.entries()) {
+      yield isRecord(item) ? { row: index + 1, data: item } : { row: index + 1, error: 'Expected an object' };
+    }
+    return;
+  }
+
+  let row = 0;
+  let header: string[] | null = null;
+  const csv = new CSVParser();
+  let pending = '';
+
+  const csvRows = function* (cells: string[][]): Generator<ImportRow> {
+    for (const cellsOfRow of cells) {
+      if (cellsOfRow.every(cell => cell === '')) continue;
+      
+      if (!header) {
+        header = cellsOfRow.map(name => name.trim());
+        const duplicate = header.find((name, index) => header!.indexOf(name) !== index);
+        if (duplicate !== undefined) {
+          throw new InvalidRequestDataError('header', duplicate, `Column '${duplicate}' appears more than once`, undefined, requestId);
+        }
+        continue;
+      }
+      
+      row++;
+      if (cellsOfRow.length !== header.length) {
+        yield { row, error: `Expected ${header.length} cells, found ${cellsOfRow.length}` };
+        continue;
+      }
+      const data: Record<string, unknown> = {};
+      const invalid: string[] = [];
+      for (const [index, name] of header.entries()) {
+        const value = coerceCell(entity.fields[name], cellsOfRow[index]);
+        if (value === INVALID_CELL) invalid.push(`${name}: expected ${entity.fields[name].type}`);
+        else if (value !== undefined) data[name] = value;
+      }
+      yield invalid.length > 0 ? { row, error: invalid.join(', ') } : { row, data };
+    }
+  };
+
+  const ndjsonRows = function* (lines: string[]): Generator<ImportRow> {
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      
+      row++;
+      try {
+        const item = JSON.parse(line);
+        yield isRecord(item) ? { row, data: item } : { row, error: 'Expected an object' };
+      } catch (error) {
+        yield { row, error: `Invalid JSON: ${(error as Error).message}` };
+      }
+    }
+  };
+
+  let first = true;
+  for await (let chunk of body.pipeThrough(new TextDecoderStream())) {
+    if (first) {
+      chunk = stripByteOrderMark(chunk);
+      first = false;
+    }
+    
+    if (format === 'csv') {
+      yield* csvRows(csv.push(chunk));
+    } else {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop()!;
+      yield* ndjsonRows(lines);
+    }
+  }
+
+  if (format === 'csv') {
+    let rest: string[][];
+    try {
+      rest = csv.finish();
+    } catch (error) {
+      throw new InvalidRequestDataError('body', undefined, (error as Error).message, undefined, requestId);
+    }
+    yield* csvRows(rest);
+  } else {
+    yield* ndjsonRows([pending]);
+  }
+}
+
+/**
+ * Write the rows in one transaction. Rows with errors are undone individually
+ * and reported; a dry run reports the same way and then undoes everything.
+ * Callers should emit events for the changes only when `committed` is true.
+ */
+export async function runImport<Tx extends QueryExecutor>(
+  db: TransactionalExecutor<Tx>,
+  rows: AsyncIterable<ImportRow>,
+  options: ImportOptions,
+  handlers: ImportHandlers<Tx>,
+  requestId?: string
+): Promise<ImportOutcome> {
+  const errors: ImportRowError[] = [];
+  const changes: ImportChange[] = [];
+  let total = 0;
+
+  try {
+    await db.transaction(async (tx) => {
+      for await (const { row, data, error } of rows) {
+        if (++total > MAX_IMPORT_ROWS) {
+          throw new InvalidRequestDataError('body', total, `Import at most ${MAX_IMPORT_ROWS} rows at a time`, undefined, requestId);
+        }
+        if (!data) {
+          errors.push({ row, code: 'E4001', message: error! });
+          continue;
+        }
+        
+        await tx.execute('SAVEPOINT import_row');
+        try {
+          const key = options.upsert;
+          const existing = key !== undefined && data[key] !== undefined && data[key] !== null
+            ? await handlers.find(tx, key, data[key])
+            : null;
+          
+          changes.push(existing
+            ? { op: 'update', record: await handlers.update(tx, existing, data) }
+            : { op: 'create', record: await handlers.create(tx, data) });
+          await tx.execute('RELEASE import_row');
+        } catch (rowError) {
+          await tx.execute('ROLLBACK TO import_row');
+          await tx.execute('RELEASE import_row');
+          errors.push({ row, ...describeItemError(rowError) });
+        }
+      }
+      
+      if (options.dryRun) {
+        throw new DryRunRollback();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+
+  return {
+    report: {
+      dryRun: options.dryRun,
+      committed: !options.dryRun,
+      summary: {
+        total,
+        created: changes.filter(change => change.op === 'create').length,
+        updated: changes.filter(change => change.op === 'update').length,
+        failed: errors.length,
+      },
+      errors,
+    },
+    changes: options.dryRun ? [] : changes,
+  };
+}
+
+/**
+ * Change events for a committed import, e.g. `person.created`, in row order
+ */
+export function importEvents(entityName: string, changes: ImportChange[]): Array<{ event: string; data: EventData }> {
+  const timestamp = new Date().toISOString();
+  return changes.map(({ op, record }) => changeEvent(entityName, op, String(record.id), record, timestamp));
+}
+
+/**
+ * A CSV cell as the field's type; undefined for empty cells and INVALID_CELL
+ * for numbers and booleans that do not parse. Other text is passed on for the
+ * validator to check.
+ */
+function coerceCell(field: FieldDefinition | undefined, text: string): unknown {
+  if (text === '') return undefined;
+  if (!field) return text;
+
+  const trimmed = text.trim();
+  if (field.type === 'number' || field.type === 'integer') {
+    const number = Number(trimmed);
+    return trimmed !== '' && Number.isFinite(number) ? number : INVALID_CELL;
+  }
+  if (field.type === 'boolean') {
+    if (/^(true|1)$/i.test(trimmed)) return true;
+    if (/^(false|0)$/i.test(trimmed)) return false;
+    return INVALID_CELL;
+  }
+  if (field.type === 'json' || isManyRelation(field)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+function checkFormat(value: string, requestId?: string): TransferFormat {
+  if (!(TRANSFER_FORMATS as readonly string[]).includes(value)) {
+    throw new InvalidRequestDataError('format', value, `Use one of: ${TRANSFER_FORMATS.join(', ')}`, undefined, requestId);
+  }
+  return value as TransferFormat;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stripByteOrderMark(text: string): string {
+  return text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+}
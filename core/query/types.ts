@@ -0,0 +1,117 @@
+// Query language types for generated list endpoints
+
+import { FieldDefinition } from '../types/index.ts';
+
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'null';
+
+export interface FilterCondition {
+  field: string;       // Field name as used in the query string
+  column: string;      // Column name in the entity table, or the SQL of a computed field
+  operator: FilterOperator;
+  value: unknown;      // Coerced value (array for in/nin, boolean for null)
+}
+
+// A parameterized SQL fragment
+export interface SQLClause {
+  sql: string;
+  params: unknown[];
+}
+
+// What a statement returns; writes also report their effect
+export interface QueryResult<Row = Record<string, unknown>> {
+  rows: Row[];              // Empty for statements that return no rows
+  changes?: number;         // Rows inserted, updated or deleted
+  lastInsertRowId?: number;
+}
+
+// The part of the database client queries run through, in or out of a transaction
+export interface QueryExecutor {
+  execute<Row = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<QueryResult<Row>>;
+}
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortTerm {
+  field: string;
+  column: string;
+  direction: SortDirection;
+  options?: string[];  // Enum options; enums sort by declaration order, not alphabetically
+  expression?: string; // SQL of a computed field, selected as `column`
+}
+
+// Fully planned list query: page select, total count and paging state
+export interface ListQuery {
+  select: SQLClause;    // Fetches limit + 1 rows so hasMore can be detected
+  count: SQLClause;
+  scan: SQLClause;      // The page's rows without LIMIT and OFFSET, for read rules SQL could not express
+  limit: number;
+  offset: number;
+  sort: SortTerm[];
+  cursor?: string;
+  search?: string;      // Full-text query; rows carry _rank and _snippet columns
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export type DateBucket = 'day' | 'week' | 'month' | 'year';
+
+// A `groupBy=` term: a field's value, or the first day of its date bucket
+export interface AggregateGroup {
+  field: string;
+  bucket?: DateBucket;
+  sql: string;
+}
+
+// A `metrics=` term, e.g. count or avg:estimate
+export interface AggregateMetric {
+  name: string;         // As requested, and as returned
+  fn: AggregateFunction;
+  field?: string;       // count counts records when there is none
+  sql: string;
+}
+
+// Fully planned aggregate query
+export interface AggregateQuery {
+  select: SQLClause;    // One row per group
+  groups: AggregateGroup[];
+  metrics: AggregateMetric[];
+}
+
+// One relation path segment of `include=`; children are the nested includes
+export interface IncludeNode {
+  field: string;       // Relation field on the parent entity
+  entity: string;      // Entity the relation points to
+  many: boolean;
+  children: IncludeNode[];
+}
+
+export interface ListPagination {
+  limit: number;
+  offset: number;
+  total: number | null;  // null when the read rule is checked per record, as counting would read every record
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Query parameters that control paging, ordering, search, expansion and
+// aggregation rather than filtering
+export const RESERVED_QUERY_PARAMS = ['limit', 'offset', 'sort', 'after', 'q', 'include', 'groupBy', 'metrics'];
+
+// Columns every generated table has, even when not declared as fields
+export const SYSTEM_COLUMNS: Record<string, FieldDefinition> = {
+  id: { type: 'string' },
+  created_at: { type: 'datetime' },
+  updated_at: { type: 'datetime' },
+};
@@ -0,0 +1,175 @@
+// Point-in-time snapshots for entities declared with `versioned: true`
+//
+// After every write through the API the record's full stored state, many
+// relations included, is appended to `{table}_versions` as the record's next
+// version, numbered from 1. The write that removes a record for good leaves a
+// version without data. Restoring a version is an ordinary update with the
+// snapshot as input: it is checked and validated like any other write and
+// becomes the newest version itself.
+
+import { AppDefinition, EntityDefinition } from '../types/index.ts';
+import { InvalidRequestDataError } from '../errors/index.ts';
+import { AuditAction, ChangeContext, parseHistoryPage, readSnapshot } from './audit.ts';
+import { VERSION_COLUMN } from './concurrency.ts';
+import { ListPagination, QueryExecutor } from './types.ts';
+
+export interface RecordVersion {
+  version: number;
+  action: AuditAction;
+  userId: string | null;
+  requestId: string | null;
+  restoredFrom: number | null;
+  timestamp: string;
+  data?: Record<string, unknown> | null;  // Only when a single version is read
+}
+
+// A row of a versions table
+interface VersionRow {
+  version: number;
+  action: AuditAction;
+  user_id: string | null;
+  request_id: string | null;
+  restored_from: number | null;
+  data: string | null;  // JSON
+  created_at: string;
+}
+
+// Columns every UPDATE touches; a write that changed nothing else is not a new version
+const VOLATILE_COLUMNS = ['updated_at', VERSION_COLUMN];
+
+export function isVersioned(entity: EntityDefinition | undefined): boolean {
+  return entity?.versioned === true;
+}
+
+export function versionsTableName(tableName: string): string {
+  return `${tableName}_versions`;
+}
+
+/**
+ * DDL for the entity's versions table. Returns no statements when the entity
+ * is not versioned.
+ */
+export function generateVersionSchema(tableName: string, entity: EntityDefinition): string[] {
+  if (!isVersioned(entity)) return [];
+
+  const versions = versionsTableName(tableName);
+  return [
+    `CREATE TABLE IF NOT EXISTS ${versions} (
+  entity_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  data TEXT,
+  user_id TEXT,
+  request_id TEXT,
+  restored_from INTEGER,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (entity_id, version)
+);`,
+  ];
+}
+
+/**
+ * Version number from a path segment
+ */
+export function parseVersionNumber(name: string, value: string | undefined, requestId?: string): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidRequestDataError(name, value, 'Expected a version number >= 1', undefined, requestId);
+  }
+  return parsed;
+}
+
+export class VersionStore {
+  constructor(private app: AppDefinition) {}
+
+  /**
+   * Append the record's current state as its next version. Call after the
+   * change, on the transaction making it.
+   */
+  async capture(tx: QueryExecutor, entityName: string, id: string, action: AuditAction, context: ChangeContext = {}): Promise<void> {
+    if (!isVersioned(this.app.entities[entityName])) return;
+    
+    const versions = versionsTableName(entityName.toLowerCase());
+    const snapshot = await readSnapshot(this.app, tx, entityName, id);
+    const latest = (await tx.execute<Pick<VersionRow, 'version' | 'data'>>(
+      `SELECT version, data FROM ${versions} WHERE entity_id = ? ORDER BY version DESC LIMIT 1`,
+      [String(id)]
+    )).rows?.[0];
+    
+    if (latest && action === 'update' && context.restoredFrom === undefined &&
+        comparable(latest.data ? JSON.parse(latest.data) : null) === comparable(snapshot)) {
+      return;
+    }
+    
+    await tx.execute(
+      `INSERT INTO ${versions} (entity_id, version, action, data, user_id, request_id, restored_from) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        String(id),
+        (latest?.version ?? 0) + 1,
+        action,
+        snapshot ? JSON.stringify(snapshot) : null,
+        context.userId ?? null,
+        context.requestId ?? null,
+        context.restoredFrom ?? null,
+      ]
+    );
+  }
+
+  /**
+   * A record's versions without their data, newest first
+   */
+  async list(
+    db: QueryExecutor,
+    entityName: string,
+    id: string,
+    query: { limit?: string; offset?: string } = {},
+    requestId?: string
+  ): Promise<{ items: RecordVersion[]; pagination: ListPagination }> {
+    const versions = versionsTableName(entityName.toLowerCase());
+    const { limit, offset } = parseHistoryPage(query, requestId);
+    
+    const rows = await db.execute<VersionRow>(
+      `SELECT entity_id, version, action, user_id, request_id, restored_from, created_at FROM ${versions}
+       WHERE entity_id = ? ORDER BY version DESC LIMIT ? OFFSET ?`,
+      [id, limit, offset]
+    );
+    const counted = await db.execute(`SELECT COUNT(*) AS total FROM ${versions} WHERE entity_id = ?`, [id]);
+    const total = Number(counted.rows?.[0]?.total || 0);
+    
+    return {
+      items: (rows.rows || []).map(row => toVersion(row)),
+      pagination: { limit, offset, total, hasMore: offset + limit < total, nextCursor: null },
+    };
+  }
+
+  /**
+   * One version with its data, or null when the record never had it
+   */
+  async get(db: QueryExecutor, entityName: string, id: string, version: number): Promise<RecordVersion | null> {
+    const result = await db.execute<VersionRow>(
+      `SELECT * FROM ${versionsTableName(entityName.toLowerCase())} WHERE entity_id = ? AND version = ?`,
+      [id, version]
+    );
+    const row = result.rows?.[0];
+    return row ? toVersion(row, true) : null;
+  }
+}
+
+function toVersion(row: VersionRow, withData = false): RecordVersion {
+  return {
+    version: row.version,
+    action: row.action,
+    userId: row.user_id,
+    requestId: row.request_id,
+    restoredFrom: row.restored_from,
+    timestamp: row.created_at,
+    ...(withData && { data: row.data ? JSON.parse(row.data) : null }),
+  };
+}
+
+function comparable(snapshot: Record<string, unknown> | null): string {
+  if (!snapshot) return 'null';
+  return JSON.stringify(Object.fromEntries(
+    Object.entries(snapshot).filter(([column]) => !VOLATILE_COLUMNS.includes(column))
+  ));
+}
@@ -4,9 +4,15 @@ import { EntityUIConfig } from './ui.ts';
 export interface BehaviorDefinition {
   type?: 'update' | 'custom' | 'delete';
   modifies?: Record<string, any>;
-  fields?: Record<string, any>; // For type: 'update'
+  // Values to set: constants, 'now', or { expr: 'input.personId' } evaluated
+  // over input, entity (the current record) and user
+  fields?: Record<string, any>;
+  input?: Record<string, FieldDefinition>;  // Parameters sent in the request body
   emits?: string | string[];
-  requires?: string;
+  requires?: string;  // Who may run it, e.g. 'user.role == "manager"'; 403 otherwise
+  guard?: string;     // When it may run, e.g. 'entity.status != "done"'; 409 otherwise
+  label?: string;
+  description?: string;
 }
 
 export interface PermissionDefinition {
@@ -14,15 +20,32 @@ export interface PermissionDefinition {
   read?: string;
   update?: string;
   delete?: string;
+  restore?: string;  // Soft-delete entities; falls back to delete
+  purge?: string;    // Permanent removal of soft-deleted records; falls back to delete
   // Add action-specific permissions
   [action: string]: string | undefined;
 }
 
+export type RollupAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+// Aggregate over the records of another entity that point at this one
+export interface RollupDefinition {
+  from: string;    // Entity whose records are aggregated, e.g. 'Task'
+  via: string;     // Relation field of `from` pointing at this entity, e.g. 'assignedTo'
+  aggregate: RollupAggregate;
+  field?: string;  // Field of `from` to aggregate; count counts records without it
+  where?: string;  // Only aggregate records matching this expression over `from`'s fields
+}
+
 export interface EntityDefinition {
   fields: Record<string, FieldDefinition>;
   behaviors?: Record<string, BehaviorDefinition>;
   permissions?: PermissionDefinition;
   indexes?: string[][];
-  computed?: Record<string, string>;
+  computed?: Record<string, string>;  // Read-only values evaluated on read, e.g. { isOverdue: 'dueDate < now()' }
+  rollups?: Record<string, RollupDefinition>;  // Read-only aggregates over related records, e.g. { openTasks: {...} }
+  softDelete?: boolean;  // DELETE moves records to the trash instead of removing them
+  audit?: boolean;  // Record a field-level diff of every change, see GET /{entity}s/:id/history
+  versioned?: boolean;  // Keep a full snapshot per change, see GET /{entity}s/:id/versions
   ui?: EntityUIConfig;
 }
\ No newline at end of file
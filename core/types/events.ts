@@ -5,6 +5,7 @@ export interface EventData {
   entity: string;
   entityId: string;
   behavior?: string;
+  input?: Record<string, unknown>;  // Validated input of a parameterized behavior
   data: Record<string, any>;
   timestamp: string;
   user?: string;
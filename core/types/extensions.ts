@@ -1,5 +1,7 @@
 import { Context } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
 import { EventData } from './events.ts';
+import { EntityDefinition } from './entity.ts';
+import { QueryExecutor } from '../query/types.ts';
 
 // Base extension interface
 export interface BaseExtension {
@@ -17,6 +19,7 @@ export interface APIExtension extends BaseExtension {
   routes?: RouteExtension[];
   middleware?: MiddlewareExtension[];
   hooks?: APIHooks;
+  stages?: StageExtension[];
 }
 
 export interface RouteExtension {
@@ -44,6 +47,57 @@ export interface APIHooks {
   afterRead?: (data: any, context: Context) => Promise<any> | any;
 }
 
+// Steps every generated API operation goes through, in this order
+export type APIStage = 'parse' | 'authenticate' | 'authorize' | 'validate' | 'hooks' | 'persist' | 'emit' | 'serialize';
+
+// Generated API operations, as named in StageExtension.operations. `update`
+// is one record of a bulk or import request; PUT is `replace`, PATCH `patch`.
+export type APIOperation =
+  | 'list' | 'trash' | 'aggregate' | 'export' | 'stream' | 'get'
+  | 'create' | 'bulk' | 'import' | 'update' | 'replace' | 'patch' | 'delete' | 'restore' | 'purge'
+  | 'history' | 'versions' | 'version' | 'diff' | 'rollback'
+  | 'related' | 'link' | 'unlink' | 'behavior';
+
+// The signed-in caller, as the runtime's auth middleware describes them
+export interface OperationUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+}
+
+// An operation in progress, as stages see and change it. Input and Result
+// are what the operation's parse and persist stages put there.
+export interface OperationState<Input = unknown, Result = unknown> {
+  c: Context;
+  requestId: string;
+  operation: APIOperation;
+  entityName: string;
+  entity: EntityDefinition;
+  behavior?: string;  // Set for behavior operations, e.g. complete
+  auth: { user?: OperationUser; authenticated: boolean };  // Set by authenticate
+  tx?: QueryExecutor;  // The write's transaction, from authorize to persist
+  id?: string;  // Record the operation is about
+  input?: Input;  // What parse read from the request
+  data?: Record<string, unknown>;  // Validated values to store
+  record?: Record<string, unknown> | null;  // The record as it was before the operation
+  result?: Result;  // What persist produced
+  response?: Response;  // Set by serialize, or by a stage answering early
+}
+
+// A stage of an extension's own, run next to a built-in one. Handlers work
+// like middleware: call next() to go on, or set state.response and return to
+// answer without the stages after it. Throwing a FrameworkError answers with
+// its code.
+export interface StageExtension {
+  name: string;
+  stage: APIStage;
+  position?: 'before' | 'after';  // Defaults to after
+  operations?: APIOperation[];  // Defaults to every operation
+  handler: (state: OperationState, next: () => Promise<void>) => Promise<void>;
+}
+
 // UI Extension Types
 export interface UIExtension extends BaseExtension {
   type: 'ui';
@@ -11,12 +11,21 @@ export type FieldType =
   | 'enum'
   | 'relation';
 
+// Permission expressions for one field, evaluated against the user and the record
+export interface FieldPermissions {
+  read?: string;   // Left out of responses when false
+  write?: string;  // Input for the field is ignored when false
+}
+
 export interface BaseFieldDefinition {
   type: FieldType;
   required?: boolean;
   unique?: boolean;
   default?: any;
   description?: string;
+  hidden?: boolean;     // Never returned and not writable through the API
+  writeOnly?: boolean;  // Accepted on input but never returned; defaults to true for secret-looking names
+  permissions?: FieldPermissions;
 }
 
 export interface StringFieldDefinition extends BaseFieldDefinition {
@@ -38,10 +47,14 @@ export interface EnumFieldDefinition extends BaseFieldDefinition {
   values?: string[]; // Alias for backward compatibility
 }
 
+// What happens to referencing records when the referenced record is deleted
+export type RelationDeletePolicy = 'cascade' | 'restrict' | 'setNull';
+
 export interface RelationFieldDefinition extends BaseFieldDefinition {
   type: 'relation';
   to: string;
   many?: boolean;
+  onDelete?: RelationDeletePolicy; // Defaults to 'restrict' when required, 'setNull' otherwise
 }
 
 export type FieldDefinition = 
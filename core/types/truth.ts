@@ -25,5 +25,9 @@ export interface AppDefinition {
       theme?: string;
       layout?: string;
     };
+    api?: {
+      idempotencyTTL?: number;  // Seconds an Idempotency-Key and its response are kept, default 86400
+      changeRetention?: number;  // Seconds change feed events stay available to reconnecting clients, default 86400
+    };
   };
 }
\ No newline at end of file
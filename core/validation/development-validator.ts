@@ -138,18 +138,18 @@ export class DevelopmentValidator {
         }
       }
 
-      // Check for password fields without proper protection
+      // Check for password fields opted out of write-only redaction
       if (entity.fields) {
         for (const [fieldName, field] of Object.entries(entity.fields)) {
           if (fieldName.toLowerCase().includes('password') || fieldName.toLowerCase().includes('secret')) {
-            if (!field.protected && !field.hashed) {
+            if (field.writeOnly === false && !field.hidden) {
               this.addTip({
                 type: 'warning',
                 category: 'security',
-                message: `Password field '${fieldName}' in '${entityName}' should be protected`,
+                message: `Password field '${fieldName}' in '${entityName}' is returned in API responses`,
                 location: `entities.${entityName}.fields.${fieldName}`,
-                suggestion: 'Add protection to prevent exposure in API responses',
-                example: '{ type: "string", protected: true, hashed: true }',
+                suggestion: 'Remove writeOnly: false, or mark the field hidden if only the server sets it',
+                example: '{ type: "string", writeOnly: true }',
                 severity: 'high'
               });
             }
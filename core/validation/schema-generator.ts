@@ -83,6 +83,14 @@ export class ValidationSchemaGenerator {
         break;
 
       case 'relation':
+        // Many relations are submitted as arrays of ids
+        if ('many' in field && field.many) {
+          rules.push({
+            type: 'idList',
+            message: 'Must be a list of ids'
+          });
+        }
+        
         // Relation fields should validate that the referenced entity exists
         if ('to' in field && field.to) {
           rules.push({
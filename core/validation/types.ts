@@ -40,6 +40,7 @@ export type ValidationRuleType =
   | 'enum'
   | 'unique'
   | 'pattern'
+  | 'idList'
   | 'custom';
 
 // Validator interface that runtime implements
@@ -1,6 +1,9 @@
 import { ValidationContext, ValidationErrorCode, ValidationUtils } from './types.ts';
+import { SafeExpressionParser } from '../expression/parser.ts';
 
 export class BehaviorValidator {
+  private expressionParser = new SafeExpressionParser();
+  
   validate(behavior: any, behaviorName: string, entityName: string, context: ValidationContext): void {
     const behaviorPath = `entities.${entityName}.behaviors.${behaviorName}`;
     
@@ -106,6 +109,11 @@ export class BehaviorValidator {
           'Field names must be valid identifiers'
         ));
       }
+      
+      // Computed values: { expr: 'input.personId' }
+      if (value && typeof value === 'object' && 'expr' in value) {
+        this.validateExpression(value.expr, `Field '${fieldName}' of behavior '${behaviorName}'`, `${behaviorPath}.fields.${fieldName}.expr`, context);
+      }
     }
   }
   
@@ -131,7 +139,7 @@ export class BehaviorValidator {
         ));
       } else {
         // Validate parameter definitions
-        for (const [paramName, paramDef] of Object.entries(behavior.parameters)) {
+        for (const paramName of Object.keys(behavior.parameters)) {
           if (!ValidationUtils.isValidIdentifier(paramName)) {
             context.addError(context.createError(
               'BEHAVIOR_PARAMETER_NAME_INVALID',
@@ -164,6 +172,36 @@ export class BehaviorValidator {
       ));
     }
     
+    // Validate input parameters (if present)
+    if (behavior.input !== undefined) {
+      if (!behavior.input || typeof behavior.input !== 'object' || Array.isArray(behavior.input)) {
+        context.addError(context.createError(
+          'BEHAVIOR_INPUT_INVALID',
+          `Behavior '${behaviorName}' input must be an object`,
+          `${behaviorPath}.input`,
+          'Define input as: { personId: { type: "relation", to: "Person", required: true } }'
+        ));
+      } else {
+        for (const [paramName, paramDef] of Object.entries<{ type: string } | null>(behavior.input)) {
+          if (!ValidationUtils.isValidIdentifier(paramName) || !paramDef || !ValidationUtils.isValidFieldType(paramDef.type)) {
+            context.addError(context.createError(
+              'BEHAVIOR_INPUT_INVALID',
+              `Behavior '${behaviorName}' has invalid input parameter '${paramName}'`,
+              `${behaviorPath}.input.${paramName}`,
+              'Input parameters are field definitions with a valid identifier as name'
+            ));
+          }
+        }
+      }
+    }
+    
+    // Validate requires and guard expressions (if present)
+    for (const key of ['requires', 'guard']) {
+      if (behavior[key] !== undefined) {
+        this.validateExpression(behavior[key], `Behavior '${behaviorName}' ${key}`, `${behaviorPath}.${key}`, context);
+      }
+    }
+    
     // Validate permission (if present)
     if (behavior.permission !== undefined && typeof behavior.permission !== 'string') {
       context.addError(context.createError(
@@ -195,6 +233,22 @@ export class BehaviorValidator {
     }
   }
   
+  private validateExpression(expression: unknown, subject: string, path: string, context: ValidationContext): void {
+    const result = typeof expression === 'string'
+      ? this.expressionParser.validate(expression)
+      : { success: false, error: 'must be a string expression' };
+    
+    if (!result.success) {
+      context.addError(context.createError(
+        'BEHAVIOR_INVALID_EXPRESSION',
+        `${subject} has an invalid expression: ${result.error}`,
+        path,
+        'Use an expression over entity, input and user, e.g. "entity.status != \\"done\\""',
+        { expression }
+      ));
+    }
+  }
+  
   private isVerbLike(name: string): boolean {
     const verbPatterns = [
       /^(activate|deactivate|enable|disable)$/i,
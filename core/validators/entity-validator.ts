@@ -2,16 +2,24 @@ import { ValidationContext, ValidationErrorCode, ValidationUtils } from './types
 import { FieldValidator } from './field-validator.ts';
 import { PermissionValidator } from './permission-validator.ts';
 import { BehaviorValidator } from './behavior-validator.ts';
+import { ASTNode, expressionIdentifiers, SafeExpressionParser } from '../expression/parser.ts';
+import { ExpressionSQLTranslator, SQLTerm } from '../expression/sql-translator.ts';
+import { hasRestrictedRead } from '../query/field-access.ts';
+import { isManyRelation } from '../query/relations.ts';
+import { SYSTEM_COLUMNS } from '../query/types.ts';
+import { EntityDefinition, FieldDefinition, RelationFieldDefinition } from '../types/index.ts';
 
 export class EntityValidator {
   private fieldValidator: FieldValidator;
   private permissionValidator: PermissionValidator;
   private behaviorValidator: BehaviorValidator;
+  private expressionParser: SafeExpressionParser;
   
   constructor() {
     this.fieldValidator = new FieldValidator();
     this.permissionValidator = new PermissionValidator();
     this.behaviorValidator = new BehaviorValidator();
+    this.expressionParser = new SafeExpressionParser();
   }
   
   validate(entity: any, entityName: string, context: ValidationContext): void {
@@ -41,6 +49,16 @@ export class EntityValidator {
       this.validateBehaviors(entity.behaviors, entityName, context);
     }
     
+    // Validate computed fields (optional)
+    if (entity.computed !== undefined) {
+      this.validateComputed(entity, entityName, context);
+    }
+    
+    // Validate rollups (optional)
+    if (entity.rollups !== undefined) {
+      this.validateRollups(entity, entityName, context);
+    }
+    
     // Validate entity-level business rules
     this.validateEntityBusinessRules(entity, entityName, context);
   }
@@ -183,6 +201,274 @@ export class EntityValidator {
     }
   }
   
+  private validateComputed(entity: Partial<EntityDefinition>, entityName: string, context: ValidationContext): void {
+    const computedPath = `entities.${entityName}.computed`;
+    
+    if (!entity.computed || typeof entity.computed !== 'object' || Array.isArray(entity.computed)) {
+      context.addError(context.createError(
+        'ENTITY_COMPUTED_INVALID',
+        `Entity '${entityName}' computed fields must be an object`,
+        computedPath,
+        'Define computed fields as: { isOverdue: "dueDate < now() && status != \\"done\\"" }'
+      ));
+      return;
+    }
+    
+    const fields = entity.fields && typeof entity.fields === 'object' ? entity.fields : {};
+    const known: Record<string, FieldDefinition> = { ...SYSTEM_COLUMNS, ...fields };
+    
+    for (const [name, expression] of Object.entries(entity.computed)) {
+      const path = `${computedPath}.${name}`;
+      
+      if (!ValidationUtils.isValidIdentifier(name)) {
+        context.addError(context.createError(
+          ValidationErrorCode.FIELD_NAME_INVALID,
+          `Computed field name '${name}' is not a valid identifier`,
+          path,
+          'Use only letters, numbers, and underscores. Start with a letter.',
+          { fieldName: name }
+        ));
+      }
+      
+      if (Object.hasOwn(known, name)) {
+        context.addError(context.createError(
+          'COMPUTED_NAME_CONFLICT',
+          `Computed field '${name}' has the same name as a field of entity '${entityName}'`,
+          path,
+          'Rename the computed field; its value would replace the stored one in responses'
+        ));
+      }
+      
+      if (typeof expression !== 'string' || expression.trim() === '') {
+        context.addError(context.createError(
+          'COMPUTED_INVALID_EXPRESSION',
+          `Computed field '${name}' must be an expression string`,
+          path,
+          'Use an expression over the entity\'s fields, e.g. "dueDate < now() && status != \\"done\\""'
+        ));
+        continue;
+      }
+      
+      let identifiers: string[];
+      try {
+        identifiers = expressionIdentifiers(this.expressionParser.parse(expression));
+      } catch (error) {
+        context.addError(context.createError(
+          'COMPUTED_INVALID_EXPRESSION',
+          `Computed field '${name}' has an invalid expression: ${error instanceof Error ? error.message : String(error)}`,
+          path,
+          'Check the syntax: comparisons, &&, ||, !, parentheses and now()'
+        ));
+        continue;
+      }
+      
+      for (const identifier of new Set(identifiers)) {
+        if (!Object.hasOwn(known, identifier)) {
+          context.addError(context.createError(
+            'COMPUTED_UNKNOWN_FIELD',
+            `Computed field '${name}' references unknown field '${identifier}'`,
+            path,
+            `Computed fields can use the fields of '${entityName}': ${Object.keys(fields).join(', ')}`,
+            { fieldName: identifier }
+          ));
+        } else if (hasRestrictedRead(identifier, known[identifier])) {
+          context.addWarning(context.createWarning(
+            'COMPUTED_EXPOSES_RESTRICTED_FIELD',
+            `Computed field '${name}' is derived from '${identifier}', which some readers may not see`,
+            path,
+            'Computed values are returned to everyone who can read the record; derive them from public fields',
+            { fieldName: identifier }
+          ));
+        }
+      }
+    }
+  }
+  
+  private validateRollups(entity: Partial<EntityDefinition>, entityName: string, context: ValidationContext): void {
+    const rollupsPath = `entities.${entityName}.rollups`;
+    
+    if (!entity.rollups || typeof entity.rollups !== 'object' || Array.isArray(entity.rollups)) {
+      context.addError(context.createError(
+        'ENTITY_ROLLUPS_INVALID',
+        `Entity '${entityName}' rollups must be an object`,
+        rollupsPath,
+        'Define rollups as: { openTasks: { from: "Task", via: "assignedTo", aggregate: "count" } }'
+      ));
+      return;
+    }
+    
+    const entities = context.getApp()?.entities || {};
+    const fields = entity.fields && typeof entity.fields === 'object' ? entity.fields : {};
+    const taken: Record<string, unknown> = { ...SYSTEM_COLUMNS, ...fields, ...(entity.computed || {}) };
+    
+    for (const [name, rollup] of Object.entries(entity.rollups)) {
+      const path = `${rollupsPath}.${name}`;
+      
+      if (!ValidationUtils.isValidIdentifier(name)) {
+        context.addError(context.createError(
+          ValidationErrorCode.FIELD_NAME_INVALID,
+          `Rollup name '${name}' is not a valid identifier`,
+          path,
+          'Use only letters, numbers, and underscores. Start with a letter.',
+          { fieldName: name }
+        ));
+      }
+      
+      if (Object.hasOwn(taken, name)) {
+        context.addError(context.createError(
+          'ROLLUP_NAME_CONFLICT',
+          `Rollup '${name}' has the same name as a field of entity '${entityName}'`,
+          path,
+          'Rename the rollup; its value would replace the field\'s in responses'
+        ));
+      }
+      
+      if (!rollup || typeof rollup !== 'object') {
+        context.addError(context.createError(
+          'ROLLUP_INVALID',
+          `Rollup '${name}' must be an object`,
+          path,
+          'Define it as: { from: "Task", via: "assignedTo", aggregate: "sum", field: "estimate" }'
+        ));
+        continue;
+      }
+      
+      if (!['count', 'sum', 'avg', 'min', 'max'].includes(rollup.aggregate)) {
+        context.addError(context.createError(
+          'ROLLUP_INVALID_AGGREGATE',
+          `Rollup '${name}' has invalid aggregate '${rollup.aggregate}'`,
+          `${path}.aggregate`,
+          'Use one of: count, sum, avg, min, max'
+        ));
+      }
+      
+      const source = entities[rollup.from];
+      if (!source || typeof source !== 'object') {
+        context.addError(context.createError(
+          'ROLLUP_ENTITY_NOT_FOUND',
+          `Rollup '${name}' aggregates unknown entity '${rollup.from}'`,
+          `${path}.from`,
+          `Valid entities: ${Object.keys(entities).join(', ')}`,
+          { referencedEntity: rollup.from }
+        ));
+        continue;
+      }
+      
+      const sourceFields: Record<string, FieldDefinition> = { ...SYSTEM_COLUMNS, ...(source.fields || {}) };
+      const via = sourceFields[rollup.via];
+      if (!via || via.type !== 'relation' || (via as RelationFieldDefinition).to !== entityName) {
+        context.addError(context.createError(
+          'ROLLUP_INVALID_RELATION',
+          `Rollup '${name}': '${rollup.from}.${rollup.via}' is not a relation to '${entityName}'`,
+          `${path}.via`,
+          `Name a relation field of '${rollup.from}' with to: "${entityName}"`
+        ));
+      }
+      
+      if (rollup.field === undefined) {
+        if (rollup.aggregate !== 'count') {
+          context.addError(context.createError(
+            'ROLLUP_INVALID_FIELD',
+            `Rollup '${name}' needs a field to ${rollup.aggregate}`,
+            `${path}.field`,
+            `Name a field of '${rollup.from}'`
+          ));
+        }
+      } else {
+        const field = Object.hasOwn(sourceFields, rollup.field) ? sourceFields[rollup.field] : undefined;
+        const numeric = field && ['number', 'integer'].includes(field.type);
+        if (!field || isManyRelation(field)) {
+          context.addError(context.createError(
+            'ROLLUP_INVALID_FIELD',
+            `Rollup '${name}' aggregates unknown field '${rollup.field}' of '${rollup.from}'`,
+            `${path}.field`,
+            `Fields of '${rollup.from}': ${Object.keys(source.fields || {}).join(', ')}`,
+            { fieldName: rollup.field }
+          ));
+        } else if ((rollup.aggregate === 'sum' || rollup.aggregate === 'avg') && !numeric) {
+          context.addError(context.createError(
+            'ROLLUP_INVALID_FIELD',
+            `Rollup '${name}' cannot ${rollup.aggregate} ${field.type} field '${rollup.field}'`,
+            `${path}.field`,
+            'sum and avg need a number or integer field',
+            { fieldName: rollup.field }
+          ));
+        } else if (hasRestrictedRead(rollup.field, field)) {
+          context.addWarning(context.createWarning(
+            'ROLLUP_EXPOSES_RESTRICTED_FIELD',
+            `Rollup '${name}' is derived from '${rollup.from}.${rollup.field}', which some readers may not see`,
+            `${path}.field`,
+            'Rollup values are returned to everyone who can read the record; aggregate public fields',
+            { fieldName: rollup.field }
+          ));
+        }
+      }
+      
+      if (rollup.where !== undefined) {
+        this.validateRollupWhere(name, rollup.where, rollup.from, sourceFields, `${path}.where`, context);
+      }
+    }
+  }
+  
+  private validateRollupWhere(
+    name: string,
+    where: unknown,
+    sourceName: string,
+    sourceFields: Record<string, FieldDefinition>,
+    path: string,
+    context: ValidationContext
+  ): void {
+    if (typeof where !== 'string' || where.trim() === '') {
+      context.addError(context.createError(
+        'ROLLUP_INVALID_WHERE',
+        `Rollup '${name}' where must be an expression string`,
+        path,
+        `Use an expression over the fields of '${sourceName}', e.g. "status != \\"done\\""`
+      ));
+      return;
+    }
+    
+    let ast: ASTNode;
+    try {
+      ast = this.expressionParser.parse(where);
+    } catch (error) {
+      context.addError(context.createError(
+        'ROLLUP_INVALID_WHERE',
+        `Rollup '${name}' has an invalid where expression: ${error instanceof Error ? error.message : String(error)}`,
+        path,
+        `Use an expression over the fields of '${sourceName}', e.g. "status != \\"done\\""`
+      ));
+      return;
+    }
+    
+    for (const identifier of new Set(expressionIdentifiers(ast))) {
+      if (!Object.hasOwn(sourceFields, identifier)) {
+        context.addError(context.createError(
+          'ROLLUP_UNKNOWN_FIELD',
+          `Rollup '${name}' filters on unknown field '${identifier}' of '${sourceName}'`,
+          path,
+          `Rollup conditions can use the fields of '${sourceName}'`,
+          { fieldName: identifier }
+        ));
+        return;
+      }
+    }
+    
+    // The condition is part of the subquery, so it has to be expressible in SQL
+    const translation = new ExpressionSQLTranslator((identifier): SQLTerm => {
+      const field = sourceFields[identifier];
+      return isManyRelation(field) ? { kind: 'unknown' } : { kind: 'column', column: identifier };
+    }).translate(ast);
+    if (!translation.exact) {
+      context.addError(context.createError(
+        'ROLLUP_INVALID_WHERE',
+        `Rollup '${name}' has a where expression that cannot be translated into SQL`,
+        path,
+        'Compare fields with constants or with each other, combined with &&, || and !'
+      ));
+    }
+  }
+  
   private validateEntityBusinessRules(entity: any, entityName: string, context: ValidationContext): void {
     // Check for common anti-patterns
     
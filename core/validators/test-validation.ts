@@ -149,8 +149,76 @@ function testValidation() {
   }
   console.log('');
   
-  // Test 5: Performance test
-  console.log('Test 5: Performance test');
+  // Test 5: Computed fields referencing unknown fields
+  console.log('Test 5: Computed fields');
+  const invalidApp4: AppDefinition = {
+    name: 'TestApp',
+    entities: {
+      Task: {
+        fields: {
+          id: { type: 'string' },
+          status: { type: 'string' },
+          dueDate: { type: 'date' }
+        },
+        computed: {
+          isOverdue: 'dueDate < now() && status != "done"',
+          isLate: 'deadline < now()', // Unknown field
+          status: 'true' // Clashes with a field
+        }
+      }
+    }
+  };
+  
+  const result5 = validator.validate(invalidApp4);
+  const computedCodes = result5.errors.map(error => error.code);
+  const computedOk = computedCodes.includes('COMPUTED_UNKNOWN_FIELD') &&
+    computedCodes.includes('COMPUTED_NAME_CONFLICT') &&
+    !result5.errors.some(error => error.path.endsWith('.isOverdue'));
+  console.log(`❌ Invalid computed fields result: ${computedOk ? 'PASS' : 'FAIL'}`);
+  result5.errors.forEach(error => {
+    console.log(`     [${error.code}] ${error.path}: ${error.message}`);
+  });
+  console.log('');
+  
+  // Test 6: Rollups over a reverse relation
+  console.log('Test 6: Rollups');
+  const invalidApp5: AppDefinition = {
+    name: 'TestApp',
+    entities: {
+      Person: {
+        fields: {
+          name: { type: 'string' }
+        },
+        rollups: {
+          openTasks: { from: 'Task', via: 'assignee', aggregate: 'count', where: 'status != "done"' },
+          totalTitle: { from: 'Task', via: 'assignee', aggregate: 'sum', field: 'status' }, // Not numeric
+          viaTitle: { from: 'Task', via: 'status', aggregate: 'count' }, // Not a relation
+          lateTasks: { from: 'Task', via: 'assignee', aggregate: 'count', where: 'deadline < now()' } // Unknown field
+        }
+      },
+      Task: {
+        fields: {
+          status: { type: 'string' },
+          assignee: { type: 'relation', to: 'Person' }
+        }
+      }
+    }
+  };
+  
+  const result6 = validator.validate(invalidApp5);
+  const rollupCodes = result6.errors.map(error => error.code);
+  const rollupsOk = rollupCodes.includes('ROLLUP_INVALID_FIELD') &&
+    rollupCodes.includes('ROLLUP_INVALID_RELATION') &&
+    rollupCodes.includes('ROLLUP_UNKNOWN_FIELD') &&
+    !result6.errors.some(error => error.path.includes('.openTasks'));
+  console.log(`❌ Invalid rollups result: ${rollupsOk ? 'PASS' : 'FAIL'}`);
+  result6.errors.forEach(error => {
+    console.log(`     [${error.code}] ${error.path}: ${error.message}`);
+  });
+  console.log('');
+  
+  // Test 7: Performance test
+  console.log('Test 7: Performance test');
   const startTime = Date.now();
   for (let i = 0; i < 100; i++) {
     validator.validate(validApp);
@@ -1,4 +1,5 @@
 import { Context, Next } from 'https://deno.land/x/hono@v4.3.11/mod.ts';
+import { getCookie } from 'https://deno.land/x/hono@v4.3.11/helper/cookie/index.ts';
 import { verify } from 'https://deno.land/x/djwt@v3.0.2/mod.ts';
 import { getDatabase } from '../database/client.ts';
 
@@ -57,7 +58,7 @@ export class AuthMiddleware {
         token = authHeader.slice(7);
       } else {
         // Try to get token from cookie as fallback
-        token = c.req.cookie('auth_token') || null;
+        token = getCookie(c, 'auth_token') || null;
       }
 
       const authContext: AuthContext = {
@@ -1,4 +1,5 @@
-import { SafeExpressionParser } from '../../core/expression/parser.ts';
+import { ASTNode, SafeExpressionParser } from '../../core/expression/parser.ts';
+import { ExpressionSQLTranslator, SQLTerm, SQLTranslation } from '../../core/expression/sql-translator.ts';
 import { AuthUser, AuthContext } from './middleware.ts';
 
 export interface PermissionContext {
@@ -8,6 +9,17 @@ export interface PermissionContext {
   authenticated: boolean;
 }
 
+// Context shortcuts that buildEvaluationContext derives from a record column;
+// the `is*` ones compare it with the user's id
+const RECORD_SHORTCUTS: Record<string, { column: string; matchesUser: boolean }> = {
+  owner: { column: 'createdBy', matchesUser: false },
+  isOwner: { column: 'createdBy', matchesUser: true },
+  entityUser: { column: 'userId', matchesUser: false },
+  isEntityUser: { column: 'userId', matchesUser: true },
+  assignedTo: { column: 'assignedTo', matchesUser: false },
+  isAssignee: { column: 'assignedTo', matchesUser: true },
+};
+
 export class PermissionEvaluator {
   private expressionParser: SafeExpressionParser;
 
@@ -39,9 +51,69 @@ export class PermissionEvaluator {
   }
 
   /**
-   * Build the context object for expression evaluation
+   * Translate a permission expression into a WHERE predicate over one table,
+   * so list queries only return permitted records. `user.*`, `authenticated`
+   * and `action` become bound values; `entity.*` and the owner/assignee
+   * shortcuts become columns when `columns` has them, or the SQL given for
+   * them in `expressions`, e.g. a rollup's subquery. When the translation is
+   * not exact, rows must still pass `evaluate`.
+   */
+  toSQLFilter(
+    expression: string,
+    context: PermissionContext,
+    tableName: string,
+    columns: string[],
+    expressions: Record<string, string> = {}
+  ): SQLTranslation {
+    let ast: ASTNode;
+    try {
+      ast = this.expressionParser.parse(expression);
+    } catch (error) {
+      console.warn(`Permission evaluation failed: ${error instanceof Error ? error.message : error}`);
+      return { predicate: false, exact: true }; // Default to deny, as evaluate does
+    }
+    
+    const values = this.buildEvaluationContext({ ...context, entity: undefined });
+    const column = (name: string): SQLTerm | null => {
+      if (columns.includes(name)) return { kind: 'column', column: `${tableName}.${name}` };
+      return Object.hasOwn(expressions, name) ? { kind: 'column', column: expressions[name] } : null;
+    };
+    
+    const translator = new ExpressionSQLTranslator((name): SQLTerm => {
+      if (name === 'entity' || name.startsWith('entity.')) {
+        const path = name.split('.').slice(1);
+        return (path.length === 1 && column(path[0])) || { kind: 'unknown' };
+      }
+      
+      const shortcut = RECORD_SHORTCUTS[name];
+      if (shortcut) {
+        const source = column(shortcut.column);
+        // Without the column the shortcut is never set
+        if (!source || source.kind !== 'column') return { kind: 'value', value: undefined };
+        if (!shortcut.matchesUser) return source;
+        
+        const userId = context.user?.id;
+        return userId === undefined || userId === null
+          ? { kind: 'value', value: false }
+          : { kind: 'predicate', sql: `${source.column} IS ?`, params: [userId] };
+      }
+      
+      // Resolved like SafeExpressionEvaluator does
+      let value: unknown = values;
+      for (const part of name.split('.')) {
+        value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+      }
+      return { kind: 'value', value };
+    });
+    
+    return translator.translate(ast);
+  }
+
+  /**
+   * Build the context object for expression evaluation, e.g. to add
+   * variables of its own such as a behavior's input
    */
-  private buildEvaluationContext(context: PermissionContext): Record<string, any> {
+  buildEvaluationContext(context: PermissionContext): Record<string, any> {
     const evalContext: Record<string, any> = {
       // Authentication status
       authenticated: context.authenticated,
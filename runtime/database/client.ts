@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { Database } from '@sqlite';
 import { DatabaseError, DatabaseConnectionError } from '../../core/errors/index.ts';
 
@@ -7,14 +8,29 @@ export interface DatabaseClient {
   close(): void;
 }
 
+// One connection serves every request, so transactions take turns on it.
+// While one is open, statements from outside it wait until it has committed
+// or rolled back; statements made from inside it, directly or through
+// getDatabase() in an extension hook, run straight away.
 class SQLiteClient implements DatabaseClient {
   private db: Database;
+  private queue: Promise<void> = Promise.resolve();
+  private scope = new AsyncLocalStorage<{ open: boolean }>();
 
   constructor(path: string) {
     this.db = new Database(path);
+    // SQLite leaves foreign key enforcement off unless asked, per connection
+    this.db.exec('PRAGMA foreign_keys = ON');
   }
 
-  async execute(sql: string, params: any[] = []): Promise<any> {
+  execute(sql: string, params: unknown[] = []): Promise<any> {
+    if (this.scope.getStore()?.open) {
+      return new Promise((resolve) => resolve(this.run(sql, params)));
+    }
+    return this.serialized(() => this.run(sql, params));
+  }
+
+  private run(sql: string, params: unknown[]): Record<string, unknown> {
     try {
       if (sql.trim().toUpperCase().startsWith('SELECT')) {
         const stmt = this.db.prepare(sql);
@@ -23,11 +39,12 @@ class SQLiteClient implements DatabaseClient {
         return { rows };
       } else {
         const stmt = this.db.prepare(sql);
-        const result = stmt.run(params);
+        stmt.run(params);
         stmt.finalize();
-        return { 
-          changes: result.changes,
-          lastInsertRowId: result.lastInsertRowid
+        // run() only returns the change count; the connection keeps both
+        return {
+          changes: this.db.changes,
+          lastInsertRowId: this.db.lastInsertRowId
         };
       }
     } catch (error) {
@@ -36,16 +53,35 @@ class SQLiteClient implements DatabaseClient {
     }
   }
 
-  async transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T> {
-    this.db.exec('BEGIN TRANSACTION');
-    try {
-      const result = await fn(this);
-      this.db.exec('COMMIT');
-      return result;
-    } catch (error) {
-      this.db.exec('ROLLBACK');
-      throw error;
+  transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T> {
+    // A transaction started inside another one becomes part of it
+    if (this.scope.getStore()?.open) {
+      return fn(this);
     }
+    
+    return this.serialized(() => {
+      const scope = { open: true };
+      return this.scope.run(scope, async () => {
+        this.db.exec('BEGIN TRANSACTION');
+        try {
+          const result = await fn(this);
+          this.db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          this.db.exec('ROLLBACK');
+          throw error;
+        } finally {
+          // Work the transaction left running no longer belongs to it
+          scope.open = false;
+        }
+      });
+    });
+  }
+
+  private serialized<T>(fn: () => T | Promise<T>): Promise<T> {
+    const turn = this.queue.then(fn);
+    this.queue = turn.then(() => {}, () => {});
+    return turn;
   }
 
   close(): void {
@@ -1,6 +1,17 @@
-import { getDatabase } from './client.ts';
+import { DatabaseClient, getDatabase } from './client.ts';
 import { AppDefinition } from '../../core/types/index.ts';
-import { generateDatabaseSchema } from '../../core/generators/database.ts';
+import { generateDatabaseSchema, SQLiteSchemaGenerator } from '../../core/generators/database.ts';
+import {
+  dropSearchSchema,
+  generateSearchSchema,
+  getSearchableFields,
+  searchTableName,
+} from '../../core/query/search.ts';
+import { isManyRelation } from '../../core/query/relations.ts';
+import { getForeignKeys } from '../../core/query/references.ts';
+import { VERSION_COLUMN } from '../../core/query/concurrency.ts';
+import { DELETED_AT_COLUMN, isSoftDelete } from '../../core/query/soft-delete.ts';
+import { IDEMPOTENCY_TABLE } from '../../core/query/idempotency.ts';
 import { ensureDir } from '@std/fs';
 import { DatabaseError } from '../../core/errors/index.ts';
 
@@ -28,6 +39,10 @@ export class DatabaseMigrator {
     
     console.log('🔄 Running database migration...');
     
+    // Rebuilding a table that others reference only works with enforcement
+    // off, and SQLite ignores this pragma inside a transaction
+    await this.db.execute('PRAGMA foreign_keys = OFF');
+    
     try {
       await this.db.transaction(async (tx) => {
         // First, run basic schema creation (for new tables)
@@ -59,6 +74,17 @@ export class DatabaseMigrator {
         // Then, handle schema evolution (add missing columns)
         await this.handleSchemaEvolution(tx, app);
         
+        // Give tables from before ETags their version column and trigger,
+        // tables that just opted into soft delete their deleted_at column and
+        // idempotency keys their claim timestamp
+        await this.syncSystemColumns(tx, app);
+        
+        // Recreate tables whose foreign keys no longer match their relations
+        await this.syncForeignKeys(tx, app);
+        
+        // Bring full-text indexes in line with ui.list.searchable
+        await this.syncSearchIndexes(tx, app);
+        
         // Record migration
         await tx.execute(
           'INSERT INTO _migrations (name) VALUES (?)',
@@ -70,6 +96,8 @@ export class DatabaseMigrator {
     } catch (error) {
       console.error('❌ Database migration failed:', error);
       throw error;
+    } finally {
+      await this.db.execute('PRAGMA foreign_keys = ON');
     }
   }
 
@@ -105,6 +133,11 @@ export class DatabaseMigrator {
             continue;
           }
           
+          // Many relations live in join tables created with the schema
+          if (isManyRelation(field)) {
+            continue;
+          }
+          
           const columnDef = this.generateColumnDefinition(fieldName, field);
           
           try {
@@ -134,6 +167,11 @@ export class DatabaseMigrator {
           continue;
         }
         
+        // Many relations live in join tables created with the schema
+        if (isManyRelation(field)) {
+          continue;
+        }
+        
         // Check if column already exists
         if (columnNames.has(fieldName)) {
           console.log(`ℹ️  Column '${fieldName}' already exists in '${tableName}'`);
@@ -157,6 +195,178 @@ export class DatabaseMigrator {
     }
   }
 
+  private async syncSystemColumns(tx: DatabaseClient, app: AppDefinition): Promise<void> {
+    const generator = new SQLiteSchemaGenerator();
+    
+    for (const [entityName, entity] of Object.entries(app.entities)) {
+      const tableName = entityName.toLowerCase();
+      
+      const existing = await tx.execute('SELECT name FROM pragma_table_info(?)', [tableName]);
+      const columnNames = (existing.rows || []).map((col: { name: string }) => col.name);
+      
+      if (!columnNames.includes(VERSION_COLUMN)) {
+        await tx.execute(`ALTER TABLE ${tableName} ADD COLUMN ${VERSION_COLUMN} INTEGER NOT NULL DEFAULT 1`);
+        
+        // The old trigger only stamped updated_at
+        await tx.execute(`DROP TRIGGER IF EXISTS ${tableName}_updated_at`);
+        await tx.execute(generator.generateUpdateTrigger(tableName));
+        console.log(`✅ Added '${VERSION_COLUMN}' to '${tableName}'`);
+      }
+      
+      if (isSoftDelete(entity) && !columnNames.includes(DELETED_AT_COLUMN)) {
+        await tx.execute(`ALTER TABLE ${tableName} ADD COLUMN ${DELETED_AT_COLUMN} DATETIME`);
+        console.log(`✅ Added '${DELETED_AT_COLUMN}' to '${tableName}'`);
+      }
+    }
+    
+    // Claims from before they were timestamped count as stale
+    const idempotency = await tx.execute('SELECT name FROM pragma_table_info(?)', [IDEMPOTENCY_TABLE]);
+    if (!(idempotency.rows || []).some((col: { name: string }) => col.name === 'claimed_at')) {
+      await tx.execute(`ALTER TABLE ${IDEMPOTENCY_TABLE} ADD COLUMN claimed_at TEXT`);
+      console.log(`✅ Added 'claimed_at' to '${IDEMPOTENCY_TABLE}'`);
+    }
+  }
+
+  private async syncForeignKeys(tx: DatabaseClient, app: AppDefinition): Promise<void> {
+    for (const [entityName, entity] of Object.entries(app.entities)) {
+      const tableName = entityName.toLowerCase();
+      
+      const expected = getForeignKeys(app, entity)
+        .map(key => `${key.field} -> ${key.targetTable} ON DELETE ${key.action}`)
+        .sort();
+      const existing = await tx.execute(
+        'SELECT "from" AS field, "table" AS target, on_delete FROM pragma_foreign_key_list(?)',
+        [tableName]
+      );
+      const actual = (existing.rows || [])
+        .map((key: { field: string; target: string; on_delete: string }) => `${key.field} -> ${key.target} ON DELETE ${key.on_delete}`)
+        .sort();
+      
+      if (expected.join(',') !== actual.join(',')) {
+        await this.rebuildTable(tx, app, entityName);
+        console.log(`🔗 Rebuilt '${tableName}' with foreign keys (${expected.join(', ') || 'none'})`);
+      }
+    }
+  }
+
+  /**
+   * SQLite can't change a column's constraints in place, so the table is
+   * recreated and its rows copied across. Rowids are kept so the search index
+   * still lines up.
+   */
+  private async rebuildTable(tx: DatabaseClient, app: AppDefinition, entityName: string): Promise<void> {
+    const entity = app.entities[entityName];
+    const generator = new SQLiteSchemaGenerator();
+    const tableName = entityName.toLowerCase();
+    const rebuildName = `${tableName}__rebuild`;
+    
+    try {
+      await tx.execute(`DROP TABLE IF EXISTS ${rebuildName}`);
+      await tx.execute(generator.generateCreateTable(rebuildName, entity, app));
+      
+      const oldColumns = (await tx.execute('SELECT name, type FROM pragma_table_info(?)', [tableName])).rows || [];
+      const newColumns = new Set(
+        ((await tx.execute('SELECT name FROM pragma_table_info(?)', [rebuildName])).rows || []).map((col: { name: string }) => col.name)
+      );
+      
+      // Columns no longer in the truth keep their data, as with column evolution
+      for (const column of oldColumns) {
+        if (!newColumns.has(column.name)) {
+          await tx.execute(`ALTER TABLE ${rebuildName} ADD COLUMN ${column.name} ${column.type}`);
+        }
+      }
+      
+      const columns = oldColumns.map((col: { name: string }) => col.name).join(', ');
+      await tx.execute(
+        `INSERT INTO ${rebuildName} (rowid, ${columns}) SELECT rowid, ${columns} FROM ${tableName}`
+      );
+      
+      // Existing rows may point at records deleted while nothing enforced the key
+      for (const key of getForeignKeys(app, entity)) {
+        const dangling = `${key.field} IS NOT NULL AND ${key.field} NOT IN (SELECT id FROM ${key.targetTable})`;
+        
+        if (entity.fields[key.field].required) {
+          const result = await tx.execute(`SELECT COUNT(*) AS total FROM ${rebuildName} WHERE ${dangling}`);
+          const total = result.rows?.[0]?.total || 0;
+          if (total > 0) {
+            console.warn(`⚠️  ${total} '${tableName}' rows reference missing ${key.targetTable} records through '${key.field}'`);
+          }
+        } else {
+          const cleared = await tx.execute(`UPDATE ${rebuildName} SET ${key.field} = NULL WHERE ${dangling}`);
+          if (cleared.changes > 0) {
+            console.log(`🧹 Cleared ${cleared.changes} dangling '${key.field}' references in '${tableName}'`);
+          }
+        }
+      }
+      
+      await tx.execute(`DROP TABLE ${tableName}`);
+      await tx.execute(`ALTER TABLE ${rebuildName} RENAME TO ${tableName}`);
+      
+      // Dropping the old table took its trigger, indexes and search triggers with it
+      const statements = [
+        ...generator.generateTableStatements(entityName, entity, app).slice(1),
+        ...generateSearchSchema(tableName, entity),
+      ];
+      for (const statement of statements) {
+        await tx.execute(statement);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to rebuild '${tableName}':`, error instanceof Error ? error.message : error);
+      throw new DatabaseError(
+        `rebuild of '${tableName}' with foreign keys`,
+        error instanceof Error ? error : undefined,
+        undefined,
+        tableName
+      );
+    }
+  }
+
+  private async syncSearchIndexes(tx: DatabaseClient, app: AppDefinition): Promise<void> {
+    for (const [entityName, entity] of Object.entries(app.entities)) {
+      const tableName = entityName.toLowerCase();
+      const ftsTable = searchTableName(tableName);
+      const fields = getSearchableFields(entity);
+      
+      const existing = await tx.execute('SELECT name FROM pragma_table_info(?)', [ftsTable]);
+      const indexedFields = (existing.rows || []).map((col: { name: string }) => col.name);
+      
+      if (fields.length === 0) {
+        if (indexedFields.length > 0) {
+          for (const statement of dropSearchSchema(tableName)) {
+            await tx.execute(statement);
+          }
+          console.log(`🗑️  Removed search index for '${tableName}'`);
+        }
+        continue;
+      }
+      
+      // The indexed columns are fixed when an FTS5 table is created, so any
+      // change to the searchable fields means recreating it
+      if (indexedFields.join(',') !== fields.join(',')) {
+        const statements = [
+          ...(indexedFields.length > 0 ? dropSearchSchema(tableName) : []),
+          ...generateSearchSchema(tableName, entity),
+        ];
+        for (const statement of statements) {
+          await tx.execute(statement);
+        }
+        await tx.execute(`INSERT INTO ${ftsTable}(${ftsTable}) VALUES ('rebuild')`);
+        console.log(`🔎 Rebuilt search index for '${tableName}' (${fields.join(', ')})`);
+        continue;
+      }
+      
+      // Indexes created alongside a table that already had rows start out empty
+      const counts = await tx.execute(
+        `SELECT (SELECT COUNT(*) FROM ${ftsTable}_docsize) AS indexed, (SELECT COUNT(*) FROM ${tableName}) AS total`
+      );
+      const { indexed, total } = counts.rows[0];
+      if (indexed !== total) {
+        await tx.execute(`INSERT INTO ${ftsTable}(${ftsTable}) VALUES ('rebuild')`);
+        console.log(`🔎 Rebuilt search index for '${tableName}' (${total} rows)`);
+      }
+    }
+  }
+
   private generateColumnDefinition(fieldName: string, field: any): string {
     let column = `${fieldName} ${this.getSQLType(field)}`;
     
@@ -234,9 +444,14 @@ export class DatabaseMigrator {
       WHERE type='table' AND name NOT LIKE '_migrations'
     `);
     
-    // Drop all tables
-    for (const table of tables.rows) {
-      await this.db.execute(`DROP TABLE IF EXISTS ${table.name}`);
+    // Drop all tables, in any order
+    await this.db.execute('PRAGMA foreign_keys = OFF');
+    try {
+      for (const table of tables.rows) {
+        await this.db.execute(`DROP TABLE IF EXISTS ${table.name}`);
+      }
+    } finally {
+      await this.db.execute('PRAGMA foreign_keys = ON');
     }
     
     console.log('✅ Database reset completed');
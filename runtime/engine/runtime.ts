@@ -2,10 +2,11 @@ import { TruthLoader } from '../../core/loader/loader.ts';
 import { DatabaseMigrator } from '../database/migrator.ts';
 import { getDatabase } from '../database/client.ts';
 import { APIGenerator } from '../../core/generators/api.ts';
-import AuthenticatedAPIGenerator from '../../core/generators/authenticated-api.ts';
 import { createAuthRoutes } from '../auth/routes.ts';
 import { NewUIManager } from '../../core/generators/ui-manager.ts';
 import { DashboardGenerator } from '../../core/dashboard/generator.ts';
+import { OpenAPIDocument, OpenAPIGenerator } from '../../core/generators/openapi.ts';
+import { GraphQLGenerator } from '../../core/generators/graphql.ts';
 import { EventEmitter } from '../events/emitter.ts';
 import { ExtensionLoader } from '../extensions/loader.ts';
 import { ExtensionRegistry } from '../extensions/registry.ts';
@@ -28,6 +29,7 @@ export class RuntimeEngine {
   private config: FrameworkConfig | null = null;
   private currentApp: AppDefinition | null = null;
   private apiRoutes: Hono | null = null;
+  private openAPIDocument: OpenAPIDocument | null = null;
   private uiPages: Record<string, string> = {};
   private dashboardPages: Record<string, string> = {};
   private eventEmitter: EventEmitter | null = null;
@@ -87,29 +89,28 @@ export class RuntimeEngine {
       await this.extensionRegistry.initialize();
       console.log('✅ Extension system initialized');
 
-      // Generate API routes with authentication if enabled
+      // Generate API routes; with auth enabled they authenticate every request
       console.log('🔌 Generating API routes...');
-      const useAuth = this.currentApp.settings?.auth?.enabled;
+      const apiGenerator = new APIGenerator(this.currentApp);
+      apiGenerator.setDatabase(getDatabase());
+      apiGenerator.setEventEmitter(this.eventEmitter);
+      apiGenerator.setExtensionRegistry(this.extensionRegistry);
+      this.apiRoutes = await apiGenerator.generate();
       
-      if (useAuth) {
-        console.log('🔐 Authentication enabled - using authenticated API generator');
-        const apiGenerator = new AuthenticatedAPIGenerator(this.currentApp);
-        apiGenerator.setDatabase(getDatabase());
-        apiGenerator.setEventEmitter(this.eventEmitter);
-        this.apiRoutes = await apiGenerator.generate();
-        
+      if (this.currentApp.settings?.auth?.enabled) {
         // Mount auth routes
         const authRoutes = createAuthRoutes();
         this.apiRoutes.route('/auth', authRoutes);
         console.log('✅ API routes generated with authentication');
       } else {
-        console.log('🔓 Authentication disabled - using standard API generator');
-        const apiGenerator = new APIGenerator(this.currentApp);
-        apiGenerator.setDatabase(getDatabase());
-        apiGenerator.setEventEmitter(this.eventEmitter);
-        this.apiRoutes = await apiGenerator.generate();
         console.log('✅ API routes generated');
       }
+      this.mountGraphQL(this.currentApp, this.apiRoutes);
+      console.log('✅ GraphQL endpoint mounted at /api/graphql');
+      
+      // Describe the API that was just generated
+      this.openAPIDocument = new OpenAPIGenerator(this.currentApp).generate();
+      console.log('✅ OpenAPI document generated');
 
       // Generate UI components and pages
       console.log('🎨 Generating UI components and pages...');
@@ -168,25 +169,21 @@ export class RuntimeEngine {
         // Reinitialize event system
         this.eventEmitter = new EventEmitter(app);
         
-        // Regenerate API routes with authentication if enabled
+        // Regenerate API routes
         console.log('🔌 Regenerating API routes...');
-        const useAuth = app.settings?.auth?.enabled;
+        const apiGenerator = new APIGenerator(app);
+        apiGenerator.setDatabase(getDatabase());
+        apiGenerator.setEventEmitter(this.eventEmitter);
+        apiGenerator.setExtensionRegistry(this.extensionRegistry);
+        this.apiRoutes = await apiGenerator.generate();
         
-        if (useAuth) {
-          const apiGenerator = new AuthenticatedAPIGenerator(app);
-          apiGenerator.setDatabase(getDatabase());
-          apiGenerator.setEventEmitter(this.eventEmitter);
-          this.apiRoutes = await apiGenerator.generate();
-          
+        if (app.settings?.auth?.enabled) {
           // Mount auth routes
           const authRoutes = createAuthRoutes();
           this.apiRoutes.route('/auth', authRoutes);
-        } else {
-          const apiGenerator = new APIGenerator(app);
-          apiGenerator.setDatabase(getDatabase());
-          apiGenerator.setEventEmitter(this.eventEmitter);
-          this.apiRoutes = await apiGenerator.generate();
         }
+        this.mountGraphQL(app, this.apiRoutes);
+        this.openAPIDocument = new OpenAPIGenerator(app).generate();
         
         // Regenerate UI pages
         console.log('🎨 Regenerating UI components...');
@@ -217,6 +214,10 @@ export class RuntimeEngine {
     return this.apiRoutes;
   }
 
+  getOpenAPIDocument(): OpenAPIDocument | null {
+    return this.openAPIDocument;
+  }
+
   getUIPages(): Record<string, string> {
     return this.uiPages;
   }
@@ -261,24 +262,20 @@ export class RuntimeEngine {
     // Reinitialize event system
     this.eventEmitter = new EventEmitter(this.currentApp);
     
-    // Regenerate API routes with authentication if enabled
-    const useAuth = this.currentApp.settings?.auth?.enabled;
+    // Regenerate API routes
+    const apiGenerator = new APIGenerator(this.currentApp);
+    apiGenerator.setDatabase(getDatabase());
+    apiGenerator.setEventEmitter(this.eventEmitter);
+    apiGenerator.setExtensionRegistry(this.extensionRegistry);
+    this.apiRoutes = await apiGenerator.generate();
     
-    if (useAuth) {
-      const apiGenerator = new AuthenticatedAPIGenerator(this.currentApp);
-      apiGenerator.setDatabase(getDatabase());
-      apiGenerator.setEventEmitter(this.eventEmitter);
-      this.apiRoutes = await apiGenerator.generate();
-      
+    if (this.currentApp.settings?.auth?.enabled) {
       // Mount auth routes
       const authRoutes = createAuthRoutes();
       this.apiRoutes.route('/auth', authRoutes);
-    } else {
-      const apiGenerator = new APIGenerator(this.currentApp);
-      apiGenerator.setDatabase(getDatabase());
-      apiGenerator.setEventEmitter(this.eventEmitter);
-      this.apiRoutes = await apiGenerator.generate();
     }
+    this.mountGraphQL(this.currentApp, this.apiRoutes);
+    this.openAPIDocument = new OpenAPIGenerator(this.currentApp).generate();
     
     // Regenerate UI pages
     const uiManager = new NewUIManager(this.currentApp);
@@ -292,6 +289,13 @@ export class RuntimeEngine {
     return this.currentApp;
   }
   
+  // GraphQL resolvers call the REST routes, so it is mounted on them once they exist
+  private mountGraphQL(app: AppDefinition, apiRoutes: Hono): void {
+    const graphQLGenerator = new GraphQLGenerator(app);
+    graphQLGenerator.setAPI(apiRoutes);
+    apiRoutes.route('/graphql', graphQLGenerator.generate());
+  }
+  
   private logValidationResult(result: ValidationResult): void {
     const { summary, errors, warnings } = result;
     
@@ -101,6 +101,12 @@ export class ExtensionRegistry {
       .filter(ext => ext.hooks);
   }
 
+  getAPIStages(entity?: string): APIExtension[] {
+    return Array.from(this.apiExtensions.values())
+      .filter(ext => !entity || !ext.entity || ext.entity === entity)
+      .filter(ext => ext.stages && ext.stages.length > 0);
+  }
+
   // UI Extension Methods
   getUIExtensions(target?: string): UIExtension[] {
     return Array.from(this.uiExtensions.values())
@@ -46,6 +46,7 @@ app.use('*', async (c, next) => {
 app.use('/api/*', cors({
   origin: '*', // Configure properly for production
   credentials: true,
+  exposeHeaders: ['ETag', 'Idempotent-Replayed'], // ETag is sent back in If-Match
 }));
 
 // Health check
@@ -62,6 +63,15 @@ app.get('/health', (c) => {
   });
 });
 
+// OpenAPI document for the generated API, current after every hot reload
+app.get('/api/openapi.json', (c) => {
+  const document = runtime.getOpenAPIDocument();
+  if (document) {
+    return c.json(document);
+  }
+  return c.json({ error: 'OpenAPI document not ready' }, 503);
+});
+
 // Debug endpoint
 app.get('/debug/db', async (c) => {
   try {
@@ -142,6 +152,14 @@ app.get('/dashboard/api', (c) => {
   return c.text('API page not ready');
 });
 
+app.get('/dashboard/openapi', (c) => {
+  const dashboardPages = runtime.getDashboardPages();
+  if (dashboardPages['/dashboard/openapi']) {
+    return c.html(dashboardPages['/dashboard/openapi']);
+  }
+  return c.text('OpenAPI explorer not ready');
+});
+
 app.get('/dashboard/config', (c) => {
   const dashboardPages = runtime.getDashboardPages();
   if (dashboardPages['/dashboard/config']) {
@@ -161,6 +161,17 @@ export class RuntimeDataValidator implements DataValidator {
         }
         break;
 
+      case 'idList':
+        if (!Array.isArray(value) || value.some(id => (typeof id !== 'string' && typeof id !== 'number') || id === '')) {
+          return {
+            field: fieldName,
+            message: rule.message || 'Must be a list of ids',
+            code: 'INVALID_ID_LIST',
+            value
+          };
+        }
+        break;
+
       case 'email':
         if (typeof value === 'string' && !this.isValidEmail(value)) {
           return {
@@ -192,10 +203,17 @@ export class RuntimeDataValidator implements DataValidator {
         break;
 
       case 'relation':
-        if (this.db && value !== undefined && rule.params?.entity) {
-          // Check if referenced entity exists
-          // This would require checking the related table
-          // For now, just return null (implement when integrating with API generator)
+        // Many relations are arrays; their targets are checked when the links are written
+        if (this.db && value !== undefined && !Array.isArray(value) && rule.params?.entity) {
+          const exists = await this.referenceExists(rule.params.entity, value);
+          if (exists === false) {
+            return {
+              field: fieldName,
+              message: rule.message || `Referenced ${rule.params.entity} must exist`,
+              code: 'INVALID_REFERENCE',
+              value
+            };
+          }
         }
         break;
     }
@@ -203,6 +221,24 @@ export class RuntimeDataValidator implements DataValidator {
     return null;
   }
 
+  /**
+   * Whether a record with this id exists, or null when the target has no table to check
+   */
+  private async referenceExists(entityName: string, id: unknown): Promise<boolean | null> {
+    try {
+      const result = await this.db.execute(
+        `SELECT 1 AS found FROM ${entityName.toLowerCase()} WHERE id = ? LIMIT 1`,
+        [id]
+      );
+      return (result.rows || []).length > 0;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('no such table')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   private isEmpty(value: any): boolean {
     return value === null || value === undefined || 
            (typeof value === 'string' && value.trim() === '') ||